@@ -1,5 +1,6 @@
 /* eslint-disable @typescript-eslint/no-unused-vars */
 
+import type { GitSigningOptions } from '@monodeploy/git'
 import type {
     CommitMessage,
     MonodeployConfiguration,
@@ -12,28 +13,34 @@ const registry: {
     commits: CommitMessage[]
     filesModified: Map<string, string[]>
     tags: string[]
+    tagMessages: Map<string, string>
     pushedTags: string[]
     lastTaggedCommit?: string
     pushedCommits: string[]
     stagedFiles: string[]
+    changedFiles: string[]
 } = {
     commits: [],
     filesModified: new Map(),
     tags: [],
+    tagMessages: new Map(),
     pushedTags: [],
     pushedCommits: [],
     lastTaggedCommit: undefined,
     stagedFiles: [],
+    changedFiles: [],
 }
 
 const _reset_ = (): void => {
     registry.commits = []
     registry.filesModified = new Map()
     registry.tags = []
+    registry.tagMessages = new Map()
     registry.pushedTags = []
     registry.pushedCommits = []
     registry.lastTaggedCommit = undefined
     registry.stagedFiles = []
+    registry.changedFiles = []
 }
 
 const _commitFiles_ = (sha: string, commit: string, files: string[]): void => {
@@ -42,6 +49,10 @@ const _commitFiles_ = (sha: string, commit: string, files: string[]): void => {
     registry.filesModified.get(sha)!.push(...files)
 }
 
+const _setChangedFiles_ = (files: string[]): void => {
+    registry.changedFiles = files
+}
+
 const _getPushedTags_ = (): string[] => {
     return registry.pushedTags
 }
@@ -59,6 +70,13 @@ const gitResolveSha = async (
     return `sha:${ref}`
 }
 
+const gitRootCommit = async (
+    ref: string,
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<string> => {
+    return registry.commits[0]?.sha ?? `sha:${ref}`
+}
+
 const gitDiffTree = async (
     ref: string,
     { cwd, context }: { cwd: string; context: YarnContext },
@@ -82,13 +100,66 @@ const gitLog = async (
 
 const gitTag = async (
     tag: string,
-    { cwd, context }: { cwd: string; context: YarnContext },
+    {
+        cwd,
+        context,
+        message,
+        signing,
+    }: {
+        cwd: string
+        context: YarnContext
+        message?: string
+        signing?: GitSigningOptions
+    },
 ): Promise<void> => {
     registry.tags.push(tag)
+    registry.tagMessages.set(tag, message ?? tag)
     registry.lastTaggedCommit =
         registry.commits[registry.commits.length - 1]?.sha
 }
 
+const gitTagExists = async (
+    tag: string,
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<boolean> => {
+    return registry.tags.includes(tag)
+}
+
+const gitListTags = async ({
+    cwd,
+    context,
+}: {
+    cwd: string
+    context?: YarnContext
+}): Promise<Array<{ tag: string; date: string }>> => {
+    const date = new Date().toISOString().slice(0, 10)
+    return registry.tags.map((tag) => ({ tag, date }))
+}
+
+const gitDeleteTag = async (
+    tag: string,
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<void> => {
+    if (!registry.tags.includes(tag)) {
+        throw new Error(`tag '${tag}' not found.`)
+    }
+    registry.tags = registry.tags.filter((t) => t !== tag)
+}
+
+const gitPushDeleteTag = async (
+    tag: string,
+    {
+        cwd,
+        remote,
+        context,
+    }: { cwd: string; remote: string; context?: YarnContext },
+): Promise<void> => {
+    if (!registry.pushedTags.includes(tag)) {
+        throw new Error(`unable to delete '${tag}': remote ref does not exist`)
+    }
+    registry.pushedTags = registry.pushedTags.filter((t) => t !== tag)
+}
+
 const gitPushTags = async ({
     cwd,
     remote,
@@ -136,9 +207,20 @@ export const gitAdd = async (
     registry.stagedFiles.push(...paths)
 }
 
+export const gitListChangedFiles = async (
+    pathspecs: string[],
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<string[]> => {
+    return pathspecs.length ? registry.changedFiles : []
+}
+
 export const gitCommit = async (
     message: string,
-    { cwd, context }: { cwd: string; context?: YarnContext },
+    {
+        cwd,
+        context,
+        signing,
+    }: { cwd: string; context?: YarnContext; signing?: GitSigningOptions },
 ): Promise<void> => {
     const newSha = Math.random().toString(36).substr(2, 5)
     _commitFiles_(newSha, message, registry.stagedFiles)
@@ -149,10 +231,16 @@ const gitLastTaggedCommit = async ({
     cwd,
     context,
     prerelease = false,
+    tagTemplate,
+    packageName,
+    fallback = 'HEAD',
 }: {
     cwd: string
     context: YarnContext
     prerelease?: boolean
+    tagTemplate?: string
+    packageName?: string
+    fallback?: string
 }): Promise<string> => {
     if (!registry.lastTaggedCommit) {
         throw new Error('No tagged commit.')
@@ -189,16 +277,23 @@ module.exports = {
     _getTags_,
     _reset_,
     _getRegistry_,
+    _setChangedFiles_,
     ...actualMonodeployGit,
     getCommitMessages,
     gitAdd,
     gitCommit,
+    gitDeleteTag,
     gitDiffTree,
     gitLastTaggedCommit,
+    gitListChangedFiles,
+    gitListTags,
     gitLog,
     gitPull,
     gitPush,
+    gitPushDeleteTag,
     gitPushTags,
     gitResolveSha,
+    gitRootCommit,
     gitTag,
+    gitTagExists,
 }
@@ -9,12 +9,20 @@ import {
 
 const actualModule = jest.requireActual('@yarnpkg/plugin-npm')
 
-const _registry: { tags: Record<string, Record<string, string>> } = {
+type Dist = { integrity?: string; shasum?: string; tarball?: string }
+type VersionManifest = { dist: Dist; deprecated?: string }
+
+const _registry: {
+    tags: Record<string, Record<string, string>>
+    versions: Record<string, Record<string, VersionManifest>>
+} = {
     tags: {},
+    versions: {},
 }
 
 const _reset_ = (): void => {
     _registry.tags = {}
+    _registry.versions = {}
 }
 
 const _setTag_ = (
@@ -25,10 +33,17 @@ const _setTag_ = (
     _registry.tags[pkgName] = { ..._registry.tags[pkgName], [tagKey]: tagValue }
 }
 
+const _setVersion_ = (pkgName: string, version: string, dist: Dist): void => {
+    _registry.versions[pkgName] = {
+        ..._registry.versions[pkgName],
+        [version]: { dist },
+    }
+}
+
 const npmHttpUtilsGet = (
-    distTagUrl: string,
+    url: string,
     { ident, registry }: { ident: Ident; registry: string },
-): Record<string, string> => {
+): Record<string, unknown> => {
     const pkgName = structUtils.stringifyIdent(ident)
     const tags = _registry.tags[pkgName]
     if (!tags) {
@@ -37,21 +52,63 @@ const npmHttpUtilsGet = (
             `Cannot access ${pkgName}`,
         )
     }
-    return tags
+    if (url.endsWith('/dist-tags')) return tags
+
+    // packument
+    return {
+        _rev: '1-mock',
+        name: pkgName,
+        'dist-tags': { ...tags },
+        versions: { ..._registry.versions[pkgName] },
+    }
 }
 
 // eslint-disable-next-line @typescript-eslint/no-unused-vars
 const npmHttpUtilsPut = (
     identUrl: string,
-    body: Record<string, string>,
+    body: {
+        name: string
+        'dist-tags': Record<string, string>
+        versions?: Record<string, VersionManifest>
+        _attachments?: Record<string, unknown>
+    },
     configuration: Configuration,
 ) => {
     const pkgName = body.name
+
+    // Packument updates (e.g. unpublishing or deprecating a version) replace
+    // the package's registry entry
+    if (!body._attachments) {
+        _registry.tags[pkgName] = { ...body['dist-tags'] }
+        _registry.versions[pkgName] = { ...body.versions }
+        return
+    }
+
     for (const [key, version] of Object.entries(body['dist-tags'])) {
-        _setTag_(pkgName, version as string, key)
+        _setTag_(pkgName, version, key)
+    }
+    for (const [version, manifest] of Object.entries(body.versions ?? {})) {
+        _setVersion_(pkgName, version, manifest.dist)
+    }
+}
+
+const npmHttpUtilsDel = (
+    url: string,
+    { ident }: { ident: Ident; registry: string },
+) => {
+    // Deleting the package's revision unpublishes the entire package, whereas
+    // deleting a tarball has no effect on the registry entry
+    const identUrl = actualModule.npmHttpUtils.getIdentUrl(ident)
+    if (url.startsWith(`${identUrl}/-rev/`)) {
+        const pkgName = structUtils.stringifyIdent(ident)
+        delete _registry.tags[pkgName]
+        delete _registry.versions[pkgName]
     }
 }
 
+const _getVersions_ = (pkgName: string): Record<string, VersionManifest> =>
+    _registry.versions[pkgName] ?? {}
+
 module.exports = {
     __esModule: true,
     ...actualModule,
@@ -59,7 +116,10 @@ module.exports = {
         ...actualModule.npmHttpUtils,
         get: npmHttpUtilsGet,
         put: npmHttpUtilsPut,
+        del: npmHttpUtilsDel,
     },
+    _getVersions_,
     _reset_,
     _setTag_,
+    _setVersion_,
 }
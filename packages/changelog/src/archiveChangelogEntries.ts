@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+
+import {
+    ChangelogFileEntry,
+    formatChangelogEntries,
+    mergeChangelogEntries,
+    parseChangelogEntries,
+    trimBlankLines,
+} from './changelogEntries'
+import { MARKER, readChangelogFile, writeChangelogFile } from './changelogFile'
+
+export const ARCHIVE_MARKER = '<!-- MONODEPLOY:ARCHIVES -->'
+const TOKEN_YEAR = '<year>'
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000
+
+const ARCHIVE_LINK_PATTERN = /^\* \[[^\]]*\]\(([^)]+)\)$/
+
+const getArchiveFilename = (
+    config: MonodeployConfiguration,
+    filename: string,
+    year: string,
+): string => {
+    const { name, ext } = path.parse(filename)
+    const template =
+        config.changelogArchiveFilename ?? `${name}-${TOKEN_YEAR}${ext}`
+    return path.resolve(
+        path.dirname(filename),
+        template.replace(TOKEN_YEAR, year),
+    )
+}
+
+/**
+ * Reads the entries of the archives listed at the end of a changelog.
+ */
+export const readArchivedEntries = async ({
+    filename,
+    lines,
+}: {
+    filename: string
+    lines: string[]
+}): Promise<ChangelogFileEntry[]> => {
+    const archiveMarkerIndex = lines.findIndex(
+        (line) => line.trim() === ARCHIVE_MARKER,
+    )
+    if (archiveMarkerIndex === -1) return []
+
+    const entries: ChangelogFileEntry[] = []
+    for (const line of lines.slice(archiveMarkerIndex + 1)) {
+        const archivePath = line.trim().match(ARCHIVE_LINK_PATTERN)?.[1]
+        if (!archivePath) continue
+
+        let archiveLines: string[]
+        try {
+            archiveLines = (
+                await fs.readFile(
+                    path.resolve(path.dirname(filename), archivePath),
+                    { encoding: 'utf-8' },
+                )
+            ).split('\n')
+        } catch (err) {
+            if (err.code === 'ENOENT') continue
+            throw err
+        }
+
+        const markerIndex = archiveLines.findIndex(
+            (archiveLine) => archiveLine.trim() === MARKER,
+        )
+        entries.push(
+            ...parseChangelogEntries(archiveLines.slice(markerIndex + 1))
+                .entries,
+        )
+    }
+    return entries
+}
+
+/**
+ * Moves the entries of a changelog which exceed the configured maximum number
+ * of entries or maximum age to yearly archive files, and lists the archives
+ * at the end of the changelog. Returns the lines of the pruned changelog.
+ */
+const archiveChangelogEntries = async ({
+    config,
+    context,
+    filename,
+    lines,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    filename: string
+    lines: string[]
+}): Promise<string[]> => {
+    const { changelogMaxEntries, changelogMaxAge } = config
+    if (!changelogMaxEntries && !changelogMaxAge) return lines
+
+    // Entries are spliced in as multiline strings
+    const allLines = lines.join('\n').split('\n')
+    const markerIndex = allLines.findIndex((line) => line.trim() === MARKER)
+    const archiveMarkerIndex = allLines.findIndex(
+        (line) => line.trim() === ARCHIVE_MARKER,
+    )
+    const bodyEnd =
+        archiveMarkerIndex === -1 ? allLines.length : archiveMarkerIndex
+
+    const { preamble, entries } = parseChangelogEntries(
+        allLines.slice(markerIndex + 1, bodyEnd),
+    )
+    const archiveLinks =
+        archiveMarkerIndex === -1
+            ? []
+            : allLines
+                  .slice(archiveMarkerIndex + 1)
+                  .filter((line) => line.startsWith('* ['))
+
+    const today = new Date().toISOString().slice(0, 10)
+    const minDate = changelogMaxAge
+        ? new Date(Date.now() - changelogMaxAge * DAY_IN_MS)
+              .toISOString()
+              .slice(0, 10)
+        : null
+
+    // Once an entry is archived, all older entries are archived as well
+    let retainedCount = entries.findIndex(
+        (entry, index) =>
+            (changelogMaxEntries && index >= changelogMaxEntries) ||
+            (minDate && entry.date && entry.date < minDate),
+    )
+    if (retainedCount === -1) retainedCount = entries.length
+    if (retainedCount === entries.length && !archiveLinks.length) return lines
+
+    // Group the archived entries by the archive file they belong to
+    const entriesByArchive = new Map<string, ChangelogFileEntry[]>()
+    for (const entry of entries.slice(retainedCount)) {
+        const archiveFilename = getArchiveFilename(
+            config,
+            filename,
+            (entry.date ?? today).slice(0, 4),
+        )
+        entriesByArchive.set(archiveFilename, [
+            ...(entriesByArchive.get(archiveFilename) ?? []),
+            entry,
+        ])
+    }
+
+    for (const [archiveFilename, archivedEntries] of entriesByArchive) {
+        const { lines: archiveLines, markerIndex: archiveMarker } =
+            await readChangelogFile({ context, filename: archiveFilename })
+        const { preamble: archivePreamble, entries: previousEntries } =
+            parseChangelogEntries(archiveLines.slice(archiveMarker + 1))
+
+        await writeChangelogFile({
+            config,
+            context,
+            filename: archiveFilename,
+            dataToWrite: [
+                ...archiveLines.slice(0, archiveMarker + 1),
+                '',
+                ...formatChangelogEntries(
+                    archivePreamble,
+                    mergeChangelogEntries(previousEntries, archivedEntries),
+                ),
+                '',
+            ].join('\n'),
+        })
+
+        const archivePath = path
+            .relative(path.dirname(filename), archiveFilename)
+            .split(path.sep)
+            .join('/')
+        const link = `* [${path.basename(archiveFilename)}](${archivePath})`
+        if (!archiveLinks.includes(link)) archiveLinks.push(link)
+    }
+
+    archiveLinks.sort((a, b) => b.localeCompare(a, 'en', { numeric: true }))
+
+    const retainedLines = trimBlankLines([
+        ...preamble,
+        ...entries.slice(0, retainedCount).flatMap(({ lines }) => lines),
+    ])
+
+    return [
+        ...allLines.slice(0, markerIndex + 1),
+        ...(retainedLines.length ? ['', ...retainedLines] : []),
+        '',
+        ARCHIVE_MARKER,
+        '',
+        '## Archives',
+        '',
+        ...archiveLinks,
+        '',
+    ]
+}
+
+export default archiveChangelogEntries
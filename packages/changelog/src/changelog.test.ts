@@ -0,0 +1,171 @@
+import {
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import type { YarnContext } from '@monodeploy/types'
+
+import generateChangelogEntry from './changelog'
+
+const stripDate = (entry: string | null): string | null =>
+    entry?.replace(/\(\d{4}-\d{2}-\d{2}\)/, '(DATE)') ?? null
+
+const getEntry = async (
+    context: YarnContext,
+    options: Partial<Parameters<typeof generateChangelogEntry>[0]>,
+): Promise<string | null> => {
+    const config = await getMonodeployConfig({
+        cwd: context.project.cwd,
+        baseBranch: 'main',
+        commitSha: 'shashasha',
+    })
+
+    return stripDate(
+        await generateChangelogEntry({
+            config,
+            context,
+            packageName: 'pkg-1',
+            previousVersion: '1.0.0',
+            newVersion: '2.0.0',
+            commits: [],
+            ...options,
+        }),
+    )
+}
+
+describe('generateChangelogEntry', () => {
+    describe('Built-in renderer', () => {
+        it('renders breaking changes, features and fixes with commit links', async () =>
+            withMonorepoContext(
+                { 'pkg-1': {} },
+                async (context) => {
+                    const entry = await getEntry(context, {
+                        commits: [
+                            {
+                                sha: '0123456789abcdef',
+                                body: 'feat(core)!: a breaking feature',
+                            },
+                            {
+                                sha: '1123456789abcdef',
+                                body: 'fix: a fix\n\nBREAKING CHANGE: the api has changed',
+                            },
+                            { sha: '2123456789abcdef', body: 'perf: faster' },
+                            { sha: '3123456789abcdef', body: 'chore: ignored' },
+                        ],
+                    })
+
+                    expect(entry).toMatchInlineSnapshot(`
+                        "## [2.0.0](https://github.com/tophat/monodeploy/compare/pkg-1@1.0.0...pkg-1@2.0.0) (DATE)
+
+                        ### Breaking Changes
+
+                        * **core:** a breaking feature ([0123456](https://github.com/tophat/monodeploy/commit/0123456789abcdef))
+                        * the api has changed ([1123456](https://github.com/tophat/monodeploy/commit/1123456789abcdef))
+
+                        ### Features
+
+                        * **core:** a breaking feature ([0123456](https://github.com/tophat/monodeploy/commit/0123456789abcdef))
+
+                        ### Bug Fixes
+
+                        * a fix ([1123456](https://github.com/tophat/monodeploy/commit/1123456789abcdef))
+                        * faster ([2123456](https://github.com/tophat/monodeploy/commit/2123456789abcdef))
+
+                        "
+                    `)
+                },
+                {
+                    root: {
+                        repository: 'https://github.com/tophat/monodeploy.git',
+                    },
+                },
+            ))
+
+        it('omits links if the repository is unknown', async () =>
+            withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+                const entry = await getEntry(context, {
+                    previousVersion: null,
+                    commits: [{ sha: '0123456789abcdef', body: 'feat: new' }],
+                })
+
+                expect(entry).toEqual(
+                    '## 2.0.0 (DATE)\n\n### Features\n\n* new (0123456)\n\n',
+                )
+            }))
+
+        it('notes releases which are only due to dependency updates', async () =>
+            withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+                const entry = await getEntry(context, {
+                    newVersion: '1.0.1',
+                    upstream: [
+                        {
+                            name: 'pkg-3',
+                            version: '1.0.0',
+                            previousVersion: null,
+                        },
+                        {
+                            name: 'pkg-2',
+                            version: '2.1.0',
+                            previousVersion: '2.0.0',
+                        },
+                    ],
+                })
+
+                expect(entry).toMatchInlineSnapshot(`
+                    "## 1.0.1 (DATE)
+
+                    **Note:** Version bump only due to dependency updates.
+
+                    ### Dependency Updates
+
+                    * \`pkg-2\`: 2.0.0 → 2.1.0
+                    * \`pkg-3\`: 1.0.0
+
+                    "
+                `)
+            }))
+
+        it('lists dependency updates after the changes of the package', async () =>
+            withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+                const entry = await getEntry(context, {
+                    commits: [{ sha: '0123456789abcdef', body: 'fix: x' }],
+                    upstream: [
+                        {
+                            name: 'pkg-2',
+                            version: '2.1.0',
+                            previousVersion: '2.0.0',
+                        },
+                    ],
+                })
+
+                expect(entry).toEqual(
+                    '## 2.0.0 (DATE)\n\n### Bug Fixes\n\n* x (0123456)\n\n### Dependency Updates\n\n* `pkg-2`: 2.0.0 → 2.1.0\n\n',
+                )
+            }))
+
+        it('renders reverted commits', async () =>
+            withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+                const entry = await getEntry(context, {
+                    newVersion: '1.0.1',
+                    commits: [
+                        {
+                            sha: '0123456789abcdef',
+                            body: 'Revert "feat: new"\n\nThis reverts commit 1123456789abcdef.',
+                        },
+                    ],
+                })
+
+                expect(entry).toEqual(
+                    '## 1.0.1 (DATE)\n\n### Reverts\n\n* Revert "feat: new" (0123456)\n\n',
+                )
+            }))
+
+        it('returns null if there are no notable changes', async () =>
+            withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+                const entry = await getEntry(context, {
+                    commits: [{ sha: '0123456789abcdef', body: 'chore: x' }],
+                })
+
+                expect(entry).toBeNull()
+            }))
+    })
+})
@@ -1,23 +1,209 @@
 import { Readable } from 'stream'
 
-import { parseRepositoryProperty } from '@monodeploy/git'
+import { formatTag, parseRepositoryProperty } from '@monodeploy/git'
 import { readStream, readStreamString } from '@monodeploy/io'
 import type {
     CommitMessage,
     MonodeployConfiguration,
+    PackageStrategyType,
+    UpstreamRelease,
+    VersionIntent,
     YarnContext,
 } from '@monodeploy/types'
-import { structUtils } from '@yarnpkg/core'
+import {
+    getCommitStrategy,
+    isBreakingChange,
+    parseConventionalCommits,
+} from '@monodeploy/versions'
+import { Workspace, structUtils } from '@yarnpkg/core'
 import conventionalChangelogWriter from 'conventional-changelog-writer'
 import conventionalCommitsParser, { Commit } from 'conventional-commits-parser'
 
-const generateChangelogEntry = async ({
+const INTENT_SECTIONS: Array<[PackageStrategyType, string]> = [
+    ['major', 'Major Changes'],
+    ['minor', 'Minor Changes'],
+    ['patch', 'Patch Changes'],
+]
+
+// The sections of the commits which result in a release, as classified by the
+// default recommended strategy
+const COMMIT_SECTIONS: Array<[string[], string]> = [
+    [['feat'], 'Features'],
+    [['fix', 'perf'], 'Bug Fixes'],
+]
+const REVERTS_SECTION = 'Reverts'
+
+const DEPENDENCY_UPDATE_NOTICE =
+    '**Note:** Version bump only due to dependency updates.'
+
+const getDate = (): string => new Date().toISOString().slice(0, 10)
+
+const generateDependencyUpdatesSection = (
+    upstream: UpstreamRelease[],
+): string => {
+    const items = [...upstream]
+        .sort((a, b) => a.name.localeCompare(b.name))
+        .map(({ name, version, previousVersion }) => {
+            const versionChange = previousVersion
+                ? `${previousVersion} → ${version}`
+                : version
+            return `* \`${name}\`: ${versionChange}\n`
+        })
+    return `### Dependency Updates\n\n${items.join('')}\n`
+}
+
+const generateIntentChangelogEntry = ({
+    newVersion,
+    intents,
+    date,
+}: {
+    newVersion: string
+    intents: VersionIntent[]
+    date: string
+}): string => {
+    let entry = `## ${newVersion} (${date})\n\n`
+
+    for (const [type, title] of INTENT_SECTIONS) {
+        const summaries = intents
+            .filter((intent) => intent.type === type && intent.summary)
+            .map((intent) => intent.summary.replace(/\n/g, '\n  '))
+        if (!summaries.length) continue
+
+        entry += `### ${title}\n\n`
+        entry += summaries.map((summary) => `* ${summary}\n`).join('')
+        entry += '\n'
+    }
+
+    return entry
+}
+
+/**
+ * Renders a changelog entry from the conventional commits, without requiring a
+ * conventional changelog preset. Packages which were only released due to
+ * their dependencies are noted as such.
+ */
+const generateDefaultChangelogEntry = async ({
+    config,
+    workspace,
+    packageName,
+    previousVersion,
+    newVersion,
+    commits,
+    upstream,
+    date,
+}: {
+    config: MonodeployConfiguration
+    workspace: Workspace
+    packageName: string
+    previousVersion: string | null
+    newVersion: string
+    commits: CommitMessage[]
+    upstream?: UpstreamRelease[]
+    date: string
+}): Promise<string | null> => {
+    const conventionalCommits = commits.length
+        ? await parseConventionalCommits({
+              config,
+              messages: commits.map((commit) => commit.body),
+          })
+        : []
+    const { repoUrl } = await parseRepositoryProperty(workspace)
+
+    const formatCommit = (sha: string, description: string): string => {
+        const shortSha = sha.slice(0, 7)
+        const link = repoUrl
+            ? `[${shortSha}](${repoUrl}/commit/${sha})`
+            : shortSha
+        return `* ${description} (${link})\n`
+    }
+
+    const breakingChanges: string[] = []
+    const sectionItems = new Map<string, string[]>([
+        ...COMMIT_SECTIONS.map(([, title]): [string, string[]] => [title, []]),
+        [REVERTS_SECTION, []],
+    ])
+
+    commits.forEach((commit, index) => {
+        const conventionalCommit = conventionalCommits[index]
+        if (!getCommitStrategy(conventionalCommit)) return
+
+        const scope = conventionalCommit.scope
+            ? `**${conventionalCommit.scope}:** `
+            : ''
+        const subject = `${scope}${
+            conventionalCommit.subject ?? conventionalCommit.header
+        }`
+
+        if (isBreakingChange(conventionalCommit)) {
+            // Prefer the breaking change notes, as they describe the change
+            // in more detail than the subject
+            const notes = conventionalCommit.notes
+                .map((note) => note.text.trim().replace(/\n/g, '\n  '))
+                .filter(Boolean)
+                .map((note) => `${scope}${note}`)
+            for (const note of notes.length ? notes : [subject]) {
+                breakingChanges.push(formatCommit(commit.sha, note))
+            }
+        }
+
+        if (conventionalCommit.revert) {
+            sectionItems
+                .get(REVERTS_SECTION)!
+                .push(formatCommit(commit.sha, conventionalCommit.header!))
+            return
+        }
+
+        const section = COMMIT_SECTIONS.find(([types]) =>
+            types.includes(conventionalCommit.type ?? ''),
+        )
+        if (section) {
+            sectionItems
+                .get(section[1])!
+                .push(formatCommit(commit.sha, subject))
+        }
+    })
+
+    const renderedSections = [
+        ['Breaking Changes', breakingChanges] as const,
+        ...sectionItems.entries(),
+    ]
+        .filter(([, items]) => items.length)
+        .map(([title, items]) => `### ${title}\n\n${items.join('')}\n`)
+    if (!renderedSections.length && !upstream?.length) return null
+
+    const currentTag = formatTag(config.tagTemplate, {
+        name: packageName,
+        version: newVersion,
+    })
+    const previousTag =
+        previousVersion &&
+        formatTag(config.tagTemplate, {
+            name: packageName,
+            version: previousVersion,
+        })
+    const title =
+        repoUrl && previousTag
+            ? `[${newVersion}](${repoUrl}/compare/${previousTag}...${currentTag})`
+            : newVersion
+
+    let entry = `## ${title} (${date})\n\n`
+    entry += renderedSections.length
+        ? renderedSections.join('')
+        : `${DEPENDENCY_UPDATE_NOTICE}\n\n`
+
+    return entry
+}
+
+const renderChangelogEntry = async ({
     config,
     context,
     packageName,
     previousVersion,
     newVersion,
     commits,
+    intents,
+    upstream,
+    date = getDate(),
 }: {
     config: MonodeployConfiguration
     context: YarnContext
@@ -25,18 +211,49 @@ const generateChangelogEntry = async ({
     previousVersion: string | null
     newVersion: string
     commits: CommitMessage[]
+    intents?: VersionIntent[]
+    upstream?: UpstreamRelease[]
+    /**
+     * The release date (as YYYY-MM-DD), defaulting to today.
+     */
+    date?: string
 }): Promise<string | null> => {
+    if (intents?.length) {
+        return generateIntentChangelogEntry({ newVersion, intents, date })
+    }
+
+    const ident = structUtils.parseIdent(packageName)
+    const workspace = context.project.getWorkspaceByIdent(ident)
+
     if (!config.conventionalChangelogConfig) {
-        return null
+        return await generateDefaultChangelogEntry({
+            config,
+            workspace,
+            packageName,
+            previousVersion,
+            newVersion,
+            commits,
+            upstream,
+            date,
+        })
     }
 
     if (!commits.length) {
-        return null
+        // Packages released only due to their dependencies have no commits for
+        // the preset to render
+        if (!upstream?.length) return null
+        return await generateDefaultChangelogEntry({
+            config,
+            workspace,
+            packageName,
+            previousVersion,
+            newVersion,
+            commits,
+            upstream,
+            date,
+        })
     }
 
-    const ident = structUtils.parseIdent(packageName)
-    const workspace = context.project.getWorkspaceByIdent(ident)
-
     // ghost-imports-ignore-next-line
     const conventionalConfig = await require(require.resolve(
         config.conventionalChangelogConfig,
@@ -59,11 +276,18 @@ const generateChangelogEntry = async ({
         owner: owner ?? workspace.manifest.raw?.author ?? '',
         repository: repository ?? '',
         repoUrl: repoUrl ?? '',
-        currentTag: `${packageName}@${newVersion}`,
+        currentTag: formatTag(config.tagTemplate, {
+            name: packageName,
+            version: newVersion,
+        }),
         previousTag: previousVersion
-            ? `${packageName}@${previousVersion}`
+            ? formatTag(config.tagTemplate, {
+                  name: packageName,
+                  version: previousVersion,
+              })
             : undefined,
         linkCompare: Boolean(previousVersion),
+        date,
     }
 
     const changelogWriter = conventionalChangelogWriter(
@@ -89,4 +313,19 @@ const generateChangelogEntry = async ({
     return readStreamString(pipeline)
 }
 
+/**
+ * Generates the changelog entry of a package release, followed by the
+ * upstream packages which were released alongside it (if any).
+ */
+const generateChangelogEntry = async (
+    options: Parameters<typeof renderChangelogEntry>[0],
+): Promise<string | null> => {
+    const entry = await renderChangelogEntry(options)
+    if (!entry || !options.upstream?.length) return entry
+
+    return `${entry.trimEnd()}\n\n${generateDependencyUpdatesSection(
+        options.upstream,
+    )}`
+}
+
 export default generateChangelogEntry
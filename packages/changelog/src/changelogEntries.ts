@@ -0,0 +1,106 @@
+export type ChangelogFileEntry = {
+    lines: string[]
+    date: string | null
+    version: string | null
+}
+
+// Presets such as conventionalcommits render patch releases as third level
+// headings, which are told apart from the sections of an entry by the version
+const ENTRY_HEADING_PATTERN = /^(#{1,2} |### \[?v?\d+\.\d+\.\d+)/
+const DATE_PATTERN = /\((\d{4}-\d{2}-\d{2})\)/
+const VERSION_PATTERN = /\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?/
+
+export const trimBlankLines = (lines: string[]): string[] => {
+    const start = lines.findIndex((line) => line.trim())
+    if (start === -1) return []
+
+    let end = lines.length
+    while (!lines[end - 1].trim()) end--
+    return lines.slice(start, end)
+}
+
+/**
+ * Splits the lines of a changelog below its marker into entries, each
+ * starting at a first or second level heading, or at a third level heading of
+ * a version. The version and release date are read from the heading, e.g.
+ * "## 1.0.0 (2021-01-01)".
+ */
+export const parseChangelogEntries = (
+    lines: string[],
+): { preamble: string[]; entries: ChangelogFileEntry[] } => {
+    const preamble: string[] = []
+    const entries: ChangelogFileEntry[] = []
+
+    for (const line of lines) {
+        if (ENTRY_HEADING_PATTERN.test(line)) {
+            entries.push({
+                lines: [line],
+                date: line.match(DATE_PATTERN)?.[1] ?? null,
+                version: line.match(VERSION_PATTERN)?.[0] ?? null,
+            })
+        } else if (entries.length) {
+            entries[entries.length - 1].lines.push(line)
+        } else {
+            preamble.push(line)
+        }
+    }
+
+    // Entries without a date were released no later than the entry above them
+    for (let index = 1; index < entries.length; index++) {
+        entries[index].date ??= entries[index - 1].date
+    }
+
+    return { preamble, entries }
+}
+
+const isNewerEntry = (
+    entry: ChangelogFileEntry,
+    other: ChangelogFileEntry,
+): boolean => {
+    if (!entry.date || !other.date) return false
+    if (entry.date !== other.date) return entry.date > other.date
+    return Boolean(
+        entry.version &&
+            other.version &&
+            entry.version.localeCompare(other.version, 'en', {
+                numeric: true,
+            }) > 0,
+    )
+}
+
+/**
+ * Merges the added entries into the entries of a changelog, both ordered from
+ * newest to oldest. Each added entry is placed above the first entry which was
+ * released before it, entries of the same date being ordered by version.
+ */
+export const mergeChangelogEntries = (
+    entries: ChangelogFileEntry[],
+    addedEntries: ChangelogFileEntry[],
+): ChangelogFileEntry[] => {
+    const mergedEntries: ChangelogFileEntry[] = []
+    let nextIndex = 0
+    for (const entry of entries) {
+        while (
+            nextIndex < addedEntries.length &&
+            isNewerEntry(addedEntries[nextIndex], entry)
+        ) {
+            mergedEntries.push(addedEntries[nextIndex++])
+        }
+        mergedEntries.push(entry)
+    }
+    return [...mergedEntries, ...addedEntries.slice(nextIndex)]
+}
+
+/**
+ * Joins the preamble and entries of a changelog, separated by blank lines.
+ */
+export const formatChangelogEntries = (
+    preamble: string[],
+    entries: ChangelogFileEntry[],
+): string[] =>
+    [
+        trimBlankLines(preamble),
+        ...entries.map(({ lines }) => trimBlankLines(lines)),
+    ]
+        .filter((lines) => lines.length)
+        .flatMap((lines, index) => (index ? ['', ...lines] : lines))
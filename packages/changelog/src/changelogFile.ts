@@ -0,0 +1,158 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { getPackageConfig } from '@monodeploy/io'
+import logging from '@monodeploy/logging'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { Workspace, structUtils } from '@yarnpkg/core'
+import { npath } from '@yarnpkg/fslib'
+
+export const MARKER = '<!-- MONODEPLOY:BELOW -->'
+const TOKEN_PACKAGE_DIR = '<packageDir>'
+const TOKEN_MAJOR = '<major>'
+
+/**
+ * Reads the lines of a changelog file (or of a new changelog, if the file
+ * does not exist), along with the index of the changelog marker.
+ */
+export const readChangelogFile = async ({
+    context,
+    filename,
+}: {
+    context: YarnContext
+    filename: string
+}): Promise<{ lines: string[]; markerIndex: number }> => {
+    let changelogContents: string[] = []
+    try {
+        changelogContents = (
+            await fs.readFile(filename, { encoding: 'utf-8' })
+        ).split('\n')
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            logging.info(
+                `[Changelog] Changelog ${filename} does not exist, creating.`,
+                { report: context.report },
+            )
+            changelogContents = ['# Changelog', '', MARKER]
+        } else {
+            logging.error(
+                `[Changelog] Unable to read changelog contents at ${filename}.`,
+                { report: context.report },
+            )
+            throw err
+        }
+    }
+
+    const markerIndex = changelogContents.findIndex(
+        (value) => value.trim() === MARKER,
+    )
+    if (markerIndex === -1) {
+        logging.error(`[Changelog] Missing changelog marker: '${MARKER}'`, {
+            report: context.report,
+        })
+        throw new Error('Unable to prepend changelog.')
+    }
+
+    return { lines: changelogContents, markerIndex }
+}
+
+/**
+ * Writes a changelog file, unless in dry run mode.
+ */
+export const writeChangelogFile = async ({
+    config,
+    context,
+    filename,
+    dataToWrite,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    filename: string
+    dataToWrite: string
+}): Promise<void> => {
+    if (config.dryRun && !config.forceWriteChangeFiles) {
+        logging.debug(`[Changelog] Skipping changelog update.`, {
+            report: context.report,
+        })
+    } else {
+        await fs.mkdir(path.dirname(filename), { recursive: true })
+        await fs.writeFile(filename, dataToWrite, {
+            encoding: 'utf-8',
+        })
+    }
+
+    logging.info(`[Changelog] Updated ${filename}`, {
+        report: context.report,
+    })
+}
+
+/**
+ * Resolves a per-package filename, replacing the package directory and major
+ * version tokens if present. Returns null if the tokens cannot be resolved.
+ */
+export const resolvePackageFilename = ({
+    config,
+    filename,
+    packageName,
+    version,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    filename: string
+    packageName: string
+    version: string | null
+    workspaces: Set<Workspace>
+}): string | null => {
+    if (filename.includes(TOKEN_MAJOR)) {
+        const major = version?.match(/^\d+/)?.[0]
+        if (!major) return null
+
+        filename = filename.split(TOKEN_MAJOR).join(major)
+    }
+
+    if (!filename.includes(TOKEN_PACKAGE_DIR)) {
+        return path.resolve(config.cwd, filename)
+    }
+
+    const workspace = [...workspaces].find(
+        (workspace) =>
+            workspace.manifest.name &&
+            structUtils.stringifyIdent(workspace.manifest.name) === packageName,
+    )
+    if (!workspace) return null
+
+    return filename.replace(
+        TOKEN_PACKAGE_DIR,
+        npath.fromPortablePath(workspace.cwd),
+    )
+}
+
+/**
+ * Resolves the changelog file of a package. Returns null if the package has
+ * no changelog file.
+ */
+export const resolveChangelogFilename = ({
+    config,
+    packageName,
+    version,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    packageName: string
+    version: string
+    workspaces: Set<Workspace>
+}): string | null => {
+    const changelogFilename = getPackageConfig(
+        config,
+        packageName,
+    ).changelogFilename
+    if (!changelogFilename) return null
+
+    return resolvePackageFilename({
+        config,
+        filename: changelogFilename,
+        packageName,
+        version,
+        workspaces,
+    })
+}
@@ -0,0 +1,233 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import {
+    cleanUp,
+    getMonodeployConfig,
+    setupContext,
+    setupTestRepository,
+} from '@monodeploy/test-utils'
+import type { ChangelogStore, YarnContext } from '@monodeploy/types'
+import { Workspace, structUtils } from '@yarnpkg/core'
+import { PortablePath } from '@yarnpkg/fslib'
+
+import { readChangelogStoreEntries, recordChangelogStore } from '.'
+
+const getWorkspace = (context: YarnContext, name: string): Workspace =>
+    context.project.getWorkspaceByIdent(structUtils.parseIdent(name))
+
+const readStore = async (filename: string): Promise<ChangelogStore> =>
+    JSON.parse(await fs.readFile(filename, { encoding: 'utf8' }))
+
+describe('Changelog Store', () => {
+    let workspacePath: string
+
+    beforeEach(async () => {
+        workspacePath = await setupTestRepository()
+    })
+
+    afterEach(async () => {
+        await cleanUp([workspacePath])
+    })
+
+    it('records the released versions in the changelog store', async () => {
+        const cwd = workspacePath
+        const config = {
+            ...(await getMonodeployConfig({
+                baseBranch: 'main',
+                commitSha: 'sha-1',
+                cwd,
+            })),
+            changelogStoreFilename: 'changelog.json',
+        }
+        const context = await setupContext(cwd as PortablePath)
+        const commit = {
+            sha: 'sha-1',
+            body: 'feat: a feature',
+            type: 'feat',
+            scope: null,
+            subject: 'a feature',
+            breaking: false,
+        }
+
+        await recordChangelogStore({
+            config,
+            context,
+            changeset: {
+                'pkg-2': {
+                    version: '1.0.1',
+                    previousVersion: '1.0.0',
+                    changelog: 'pkg-2 changes',
+                    tag: 'pkg-2@1.0.1',
+                    strategy: 'patch',
+                    upstream: [
+                        {
+                            name: 'pkg-1',
+                            version: '1.1.0',
+                            previousVersion: '1.0.0',
+                        },
+                    ],
+                },
+                'pkg-1': {
+                    version: '1.1.0',
+                    previousVersion: '1.0.0',
+                    changelog: 'pkg-1 changes',
+                    tag: 'pkg-1@1.1.0',
+                    strategy: 'minor',
+                    commits: [commit],
+                },
+            },
+            versionStrategies: new Map(),
+            workspaces: new Set(),
+        })
+
+        const store = await readStore(path.join(cwd, 'changelog.json'))
+        const date = new Date().toISOString().slice(0, 10)
+        expect(store).toEqual({
+            schemaVersion: 1,
+            entries: [
+                {
+                    name: 'pkg-1',
+                    version: '1.1.0',
+                    previousVersion: '1.0.0',
+                    date,
+                    strategy: 'minor',
+                    tag: 'pkg-1@1.1.0',
+                    commits: [commit],
+                    changelog: 'pkg-1 changes',
+                },
+                {
+                    name: 'pkg-2',
+                    version: '1.0.1',
+                    previousVersion: '1.0.0',
+                    date,
+                    strategy: 'patch',
+                    tag: 'pkg-2@1.0.1',
+                    commits: [],
+                    upstream: [
+                        {
+                            name: 'pkg-1',
+                            version: '1.1.0',
+                            previousVersion: '1.0.0',
+                        },
+                    ],
+                    changelog: 'pkg-2 changes',
+                },
+            ],
+        })
+    })
+
+    it('keeps a changelog store per package if token present', async () => {
+        const cwd = workspacePath
+        const config = {
+            ...(await getMonodeployConfig({
+                baseBranch: 'main',
+                commitSha: 'sha-1',
+                cwd,
+            })),
+            changelogStoreFilename: '<packageDir>/changelog.json',
+        }
+        const context = await setupContext(cwd as PortablePath)
+        const workspaces = new Set([
+            getWorkspace(context, 'pkg-1'),
+            getWorkspace(context, 'pkg-2'),
+        ])
+        const storeFilename = path.join(
+            cwd,
+            'packages',
+            'pkg-1',
+            'changelog.json',
+        )
+        await fs.writeFile(
+            storeFilename,
+            JSON.stringify({
+                schemaVersion: 1,
+                entries: [
+                    {
+                        name: 'pkg-1',
+                        version: '1.1.0',
+                        previousVersion: '1.0.0',
+                        date: '2020-01-01',
+                        strategy: 'minor',
+                        tag: null,
+                        commits: [],
+                        changelog: 'outdated',
+                    },
+                    {
+                        name: 'pkg-1',
+                        version: '1.0.0',
+                        previousVersion: null,
+                        date: '2019-01-01',
+                        strategy: 'major',
+                        tag: null,
+                        commits: [],
+                        changelog: 'first release',
+                    },
+                ],
+            }),
+        )
+
+        await recordChangelogStore({
+            config,
+            context,
+            changeset: {
+                'pkg-1': {
+                    version: '1.1.0',
+                    changelog: 'pkg-1 changes',
+                    tag: null,
+                },
+                'pkg-2': {
+                    version: '2.0.0',
+                    changelog: 'pkg-2 changes',
+                    tag: null,
+                },
+            },
+            versionStrategies: new Map(),
+            workspaces,
+        })
+
+        const store = await readStore(storeFilename)
+        expect(
+            store.entries.map(({ version, changelog }) => [version, changelog]),
+        ).toEqual([
+            ['1.1.0', 'pkg-1 changes'],
+            ['1.0.0', 'first release'],
+        ])
+
+        const entries = await readChangelogStoreEntries({
+            config,
+            context,
+            workspaces,
+        })
+        expect(
+            entries.map(({ name, version }) => `${name}@${version}`),
+        ).toEqual(['pkg-1@1.1.0', 'pkg-2@2.0.0', 'pkg-1@1.0.0'])
+    })
+
+    it('does not write the changelog store if not configured', async () => {
+        const cwd = workspacePath
+        const config = await getMonodeployConfig({
+            baseBranch: 'main',
+            commitSha: 'sha-1',
+            cwd,
+        })
+        const context = await setupContext(cwd as PortablePath)
+        const writeMock = jest.spyOn(fs, 'writeFile')
+
+        try {
+            await recordChangelogStore({
+                config,
+                context,
+                changeset: {
+                    'pkg-1': { version: '1.1.0', changelog: null, tag: null },
+                },
+                versionStrategies: new Map(),
+                workspaces: new Set(),
+            })
+
+            expect(writeMock).not.toHaveBeenCalled()
+        } finally {
+            writeMock.mockRestore()
+        }
+    })
+})
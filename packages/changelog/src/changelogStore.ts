@@ -0,0 +1,239 @@
+import { promises as fs } from 'fs'
+
+import { getPackageConfig } from '@monodeploy/io'
+import logging from '@monodeploy/logging'
+import type {
+    ChangelogStore,
+    ChangelogStoreEntry,
+    ChangesetSchema,
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    YarnContext,
+} from '@monodeploy/types'
+import { Workspace, structUtils } from '@yarnpkg/core'
+import pLimit from 'p-limit'
+
+import generateChangelogEntry from './changelog'
+import { resolvePackageFilename, writeChangelogFile } from './changelogFile'
+
+const STORE_SCHEMA_VERSION = 1
+
+const getEntryKey = ({ name, version }: ChangelogStoreEntry): string =>
+    `${name}@${version}`
+
+const resolveStoreFilename = ({
+    config,
+    packageName,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    packageName: string
+    workspaces: Set<Workspace>
+}): string | null => {
+    if (!config.changelogStoreFilename) return null
+
+    return resolvePackageFilename({
+        config,
+        filename: config.changelogStoreFilename,
+        packageName,
+        version: null,
+        workspaces,
+    })
+}
+
+/**
+ * Reads a changelog store (or an empty store, if the file does not exist).
+ */
+export const readChangelogStore = async ({
+    context,
+    filename,
+}: {
+    context: YarnContext
+    filename: string
+}): Promise<ChangelogStore> => {
+    try {
+        return JSON.parse(
+            await fs.readFile(filename, { encoding: 'utf-8' }),
+        ) as ChangelogStore
+    } catch (err) {
+        if (err.code === 'ENOENT') {
+            return { schemaVersion: STORE_SCHEMA_VERSION, entries: [] }
+        }
+        logging.error(
+            `[Changelog] Unable to read changelog store at ${filename}.`,
+            { report: context.report },
+        )
+        throw err
+    }
+}
+
+/**
+ * Reads the entries of the changelog stores of the given workspaces, ordered
+ * from newest to oldest.
+ */
+export const readChangelogStoreEntries = async ({
+    config,
+    context,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    workspaces: Set<Workspace>
+}): Promise<ChangelogStoreEntry[]> => {
+    const filenames = new Set<string>()
+    for (const workspace of workspaces) {
+        if (!workspace.manifest.name) continue
+
+        const filename = resolveStoreFilename({
+            config,
+            packageName: structUtils.stringifyIdent(workspace.manifest.name),
+            workspaces,
+        })
+        if (filename) filenames.add(filename)
+    }
+
+    const entries: ChangelogStoreEntry[] = []
+    for (const filename of filenames) {
+        const store = await readChangelogStore({ context, filename })
+        entries.push(...store.entries)
+    }
+
+    return entries.sort(
+        (a, b) => b.date.localeCompare(a.date) || a.name.localeCompare(b.name),
+    )
+}
+
+/**
+ * Renders the changelog entry of a release recorded in the changelog store.
+ */
+export const renderChangelogStoreEntry = async ({
+    config,
+    context,
+    entry,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    entry: ChangelogStoreEntry
+}): Promise<string | null> =>
+    await generateChangelogEntry({
+        config: getPackageConfig(config, entry.name),
+        context,
+        packageName: entry.name,
+        previousVersion: entry.previousVersion,
+        newVersion: entry.version,
+        commits: entry.commits,
+        intents: entry.intents,
+        upstream: entry.upstream,
+        date: entry.date,
+    })
+
+/**
+ * Adds the entries to the changelog stores they belong to, replacing the
+ * previously recorded entries of the same package versions. The entries are
+ * expected to be ordered from newest to oldest.
+ */
+export const updateChangelogStore = async ({
+    config,
+    context,
+    entries,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    entries: ChangelogStoreEntry[]
+    workspaces: Set<Workspace>
+}): Promise<void> => {
+    // Group the entries by the changelog store they belong to
+    const entriesByFilename = new Map<string, ChangelogStoreEntry[]>()
+
+    for (const entry of entries) {
+        const filename = resolveStoreFilename({
+            config,
+            packageName: entry.name,
+            workspaces,
+        })
+        if (!filename) continue
+
+        entriesByFilename.set(filename, [
+            ...(entriesByFilename.get(filename) ?? []),
+            entry,
+        ])
+    }
+
+    const updateForFilename = async (
+        filename: string,
+        newEntries: ChangelogStoreEntry[],
+    ): Promise<void> => {
+        const store = await readChangelogStore({ context, filename })
+        const newKeys = new Set(newEntries.map(getEntryKey))
+
+        // The sort is stable, so the new entries stay ahead of the entries
+        // previously recorded on the same date
+        const storeEntries = [
+            ...newEntries,
+            ...store.entries.filter(
+                (entry) => !newKeys.has(getEntryKey(entry)),
+            ),
+        ].sort((a, b) => b.date.localeCompare(a.date))
+
+        await writeChangelogFile({
+            config,
+            context,
+            filename,
+            dataToWrite: `${JSON.stringify(
+                { schemaVersion: STORE_SCHEMA_VERSION, entries: storeEntries },
+                null,
+                2,
+            )}\n`,
+        })
+    }
+
+    const limit = pLimit(config.jobs || Infinity)
+    await Promise.all(
+        [...entriesByFilename.entries()].map(([filename, newEntries]) =>
+            limit(() => updateForFilename(filename, newEntries)),
+        ),
+    )
+}
+
+/**
+ * Records the released versions of a changeset in the changelog store, if
+ * configured.
+ */
+const recordChangelogStore = async ({
+    config,
+    context,
+    changeset,
+    versionStrategies,
+    workspaces,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    changeset: ChangesetSchema
+    versionStrategies: PackageStrategyMap
+    workspaces: Set<Workspace>
+}): Promise<void> => {
+    if (!config.changelogStoreFilename) return
+
+    const date = new Date().toISOString().slice(0, 10)
+    const entries = Object.entries(changeset)
+        .sort(([nameA], [nameB]) => nameA.localeCompare(nameB))
+        .map(
+            ([name, record]): ChangelogStoreEntry => ({
+                name,
+                version: record.version,
+                previousVersion: record.previousVersion ?? null,
+                date,
+                strategy: record.strategy ?? null,
+                tag: record.tag,
+                commits: record.commits ?? [],
+                intents: versionStrategies.get(name)?.intents,
+                upstream: record.upstream,
+                changelog: record.changelog,
+            }),
+        )
+
+    await updateChangelogStore({ config, context, entries, workspaces })
+}
+
+export default recordChangelogStore
@@ -0,0 +1,37 @@
+import type {
+    ChangesetDocument,
+    ChangesetRecord,
+    ChangesetSchema,
+    MonodeployConfiguration,
+} from '@monodeploy/types'
+
+const V2_RECORD_FIELDS = ['source', 'commits', 'distTag', 'publishedAt']
+
+/**
+ * Formats the changeset data according to the configured changeset schema
+ * version. Version 1 omits the fields introduced by version 2.
+ */
+const formatChangeset = ({
+    config,
+    changesetData,
+}: {
+    config: MonodeployConfiguration
+    changesetData: ChangesetSchema
+}): ChangesetDocument | ChangesetSchema => {
+    if (config.changesetSchemaVersion === 1) {
+        return Object.fromEntries(
+            Object.entries(changesetData).map(([packageName, record]) => [
+                packageName,
+                Object.fromEntries(
+                    Object.entries(record).filter(
+                        ([key]) => !V2_RECORD_FIELDS.includes(key),
+                    ),
+                ) as ChangesetRecord,
+            ]),
+        )
+    }
+
+    return { schemaVersion: 2, packages: changesetData }
+}
+
+export default formatChangeset
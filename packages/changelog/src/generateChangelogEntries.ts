@@ -0,0 +1,77 @@
+import { getPackageConfig } from '@monodeploy/io'
+import type {
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    PackageVersionMap,
+    UpstreamRelease,
+    YarnContext,
+} from '@monodeploy/types'
+
+import generateChangelogEntry from './changelog'
+
+/**
+ * Returns the versions of the upstream packages which caused the release of a
+ * dependent, if any.
+ */
+export const getUpstreamReleases = ({
+    packageName,
+    previousTags,
+    nextTags,
+    versionStrategies,
+}: {
+    packageName: string
+    previousTags: PackageVersionMap
+    nextTags: PackageVersionMap
+    versionStrategies: PackageStrategyMap
+}): UpstreamRelease[] | undefined =>
+    versionStrategies.get(packageName)?.upstream?.map(({ name }) => ({
+        name,
+        version: nextTags.get(name) ?? null,
+        previousVersion: previousTags.get(name) ?? null,
+    }))
+
+/**
+ * Renders the changelog entry of each released package version, keyed by
+ * package name.
+ */
+const generateChangelogEntries = async ({
+    config,
+    context,
+    previousTags,
+    nextTags,
+    versionStrategies,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    previousTags: PackageVersionMap
+    nextTags: PackageVersionMap
+    versionStrategies: PackageStrategyMap
+}): Promise<Map<string, string | null>> => {
+    const changelogs = new Map<string, string | null>()
+
+    for (const [packageName, newVersion] of nextTags.entries()) {
+        const versionStrategy = versionStrategies.get(packageName)
+        changelogs.set(
+            packageName,
+            await generateChangelogEntry({
+                config: getPackageConfig(config, packageName),
+                context,
+                packageName,
+                previousVersion: previousTags.get(packageName) ?? null,
+                newVersion,
+                commits: versionStrategy?.commits ?? [],
+                intents: versionStrategy?.intents,
+                upstream: getUpstreamReleases({
+                    packageName,
+                    previousTags,
+                    nextTags,
+                    versionStrategies,
+                }),
+            }),
+        )
+    }
+
+    return changelogs
+}
+
+export default generateChangelogEntries
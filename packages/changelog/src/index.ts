@@ -1,4 +1,38 @@
+import generateChangelogEntry from './changelog'
+import recordChangelogStore, {
+    readChangelogStoreEntries,
+    renderChangelogStoreEntry,
+    updateChangelogStore,
+} from './changelogStore'
+import formatChangeset from './formatChangeset'
+import generateChangelogEntries from './generateChangelogEntries'
+import mergeChangelogFile, { ChangelogEntry } from './mergeChangelogFile'
+import parseCommits from './parseCommits'
 import prependChangelogFile from './prependChangelogFile'
-import writeChangesetFile from './writeChangesetFile'
+import {
+    ChangesetSerializer,
+    SerializeOptions,
+    getChangesetFormat,
+    getChangesetSerializer,
+    getReleaseSummary,
+} from './serializers'
+import writeChangesetFile, { writeChangesetData } from './writeChangesetFile'
 
-export { prependChangelogFile, writeChangesetFile }
+export type { ChangelogEntry, ChangesetSerializer, SerializeOptions }
+export {
+    formatChangeset,
+    generateChangelogEntries,
+    generateChangelogEntry,
+    getChangesetFormat,
+    getChangesetSerializer,
+    getReleaseSummary,
+    mergeChangelogFile,
+    parseCommits,
+    prependChangelogFile,
+    readChangelogStoreEntries,
+    recordChangelogStore,
+    renderChangelogStoreEntry,
+    updateChangelogStore,
+    writeChangesetData,
+    writeChangesetFile,
+}
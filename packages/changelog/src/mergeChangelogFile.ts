@@ -0,0 +1,145 @@
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { Workspace } from '@yarnpkg/core'
+import pLimit from 'p-limit'
+
+import archiveChangelogEntries, {
+    ARCHIVE_MARKER,
+    readArchivedEntries,
+} from './archiveChangelogEntries'
+import {
+    ChangelogFileEntry,
+    formatChangelogEntries,
+    mergeChangelogEntries,
+    parseChangelogEntries,
+} from './changelogEntries'
+import {
+    readChangelogFile,
+    resolveChangelogFilename,
+    writeChangelogFile,
+} from './changelogFile'
+
+export type ChangelogEntry = {
+    packageName: string
+    version: string
+    changelog: string
+}
+
+/**
+ * Inserts the given entries, which are expected to be ordered from newest to
+ * oldest, into the changelog files they belong to. Entries are identified by
+ * the version in their heading: versions which already have an entry in the
+ * changelog or its archives are skipped, and all other entries are kept as
+ * they are. New entries are placed by release date.
+ *
+ * With `replace`, the entries of the given versions are replaced instead,
+ * unless they have been archived.
+ */
+const mergeChangelogFile = async ({
+    config,
+    context,
+    entries,
+    workspaces,
+    replace = false,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    entries: ChangelogEntry[]
+    workspaces: Set<Workspace>
+    replace?: boolean
+}): Promise<void> => {
+    // Group the changelog entries by the changelog file they belong to
+    const entriesByFilename = new Map<string, ChangelogFileEntry[]>()
+
+    for (const { packageName, version, changelog } of entries) {
+        const filename = resolveChangelogFilename({
+            config,
+            packageName,
+            version,
+            workspaces,
+        })
+        if (!filename) continue
+
+        const lines = changelog.trim().split('\n')
+        entriesByFilename.set(filename, [
+            ...(entriesByFilename.get(filename) ?? []),
+            {
+                lines,
+                date: parseChangelogEntries(lines).entries[0]?.date ?? null,
+                version,
+            },
+        ])
+    }
+
+    const mergeForFilename = async (
+        filename: string,
+        newEntries: ChangelogFileEntry[],
+    ): Promise<void> => {
+        const { lines: fileLines, markerIndex } = await readChangelogFile({
+            context,
+            filename,
+        })
+
+        // Entries are spliced in as multiline strings
+        const lines = fileLines.join('\n').split('\n')
+        const archiveMarkerIndex = lines.findIndex(
+            (line) => line.trim() === ARCHIVE_MARKER,
+        )
+        const bodyEnd =
+            archiveMarkerIndex === -1 ? lines.length : archiveMarkerIndex
+        const { preamble, entries: fileEntries } = parseChangelogEntries(
+            lines.slice(markerIndex + 1, bodyEnd),
+        )
+
+        const newVersions = new Set(newEntries.map(({ version }) => version))
+        const previousEntries = replace
+            ? fileEntries.filter(({ version }) => !newVersions.has(version))
+            : fileEntries
+        const previousVersions = new Set(
+            [
+                ...previousEntries,
+                ...(await readArchivedEntries({ filename, lines })),
+            ].map(({ version }) => version),
+        )
+        const addedEntries = newEntries.filter(
+            ({ version }) => !previousVersions.has(version),
+        )
+        if (
+            !addedEntries.length &&
+            previousEntries.length === fileEntries.length
+        ) {
+            return
+        }
+
+        const mergedLines = await archiveChangelogEntries({
+            config,
+            context,
+            filename,
+            lines: [
+                ...lines.slice(0, markerIndex + 1),
+                '',
+                ...formatChangelogEntries(
+                    preamble,
+                    mergeChangelogEntries(previousEntries, addedEntries),
+                ),
+                '',
+                ...lines.slice(bodyEnd),
+            ],
+        })
+
+        await writeChangelogFile({
+            config,
+            context,
+            filename,
+            dataToWrite: mergedLines.join('\n'),
+        })
+    }
+
+    const limit = pLimit(config.jobs || Infinity)
+    await Promise.all(
+        [...entriesByFilename.entries()].map(([filename, newEntries]) =>
+            limit(() => mergeForFilename(filename, newEntries)),
+        ),
+    )
+}
+
+export default mergeChangelogFile
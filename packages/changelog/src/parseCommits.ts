@@ -0,0 +1,46 @@
+import { getPackageConfig } from '@monodeploy/io'
+import type {
+    ChangesetCommit,
+    CommitMessage,
+    MonodeployConfiguration,
+} from '@monodeploy/types'
+import {
+    isBreakingChange,
+    parseConventionalCommits,
+} from '@monodeploy/versions'
+
+/**
+ * Parses the conventional commit data of each commit of a package, using the
+ * parser options of the conventional changelog config configured for the
+ * package (if any).
+ */
+const parseCommits = async ({
+    config,
+    packageName,
+    commits,
+}: {
+    config: MonodeployConfiguration
+    packageName: string
+    commits: CommitMessage[]
+}): Promise<ChangesetCommit[]> => {
+    if (!commits.length) return []
+
+    const conventionalCommits = await parseConventionalCommits({
+        config: getPackageConfig(config, packageName),
+        messages: commits.map((commit) => commit.body),
+    })
+
+    return commits.map((commit, index) => {
+        const conventionalCommit = conventionalCommits[index]
+        return {
+            sha: commit.sha,
+            body: commit.body,
+            type: conventionalCommit?.type ?? null,
+            scope: conventionalCommit?.scope ?? null,
+            subject: conventionalCommit?.subject ?? null,
+            breaking: isBreakingChange(conventionalCommit),
+        }
+    })
+}
+
+export default parseCommits
@@ -232,6 +232,79 @@ describe('prependChangelogFile', () => {
         )
     })
 
+    it('renders the entries of releases recorded in the changelog store', async () => {
+        const cwd = workspacePath
+        const config = {
+            ...(await getMonodeployConfig({
+                baseBranch: 'main',
+                commitSha: 'sha-1',
+                cwd,
+                changelogFilename: 'changelog',
+            })),
+            changelogStoreFilename: 'changelog.json',
+        }
+        const context = await setupContext(cwd as PortablePath)
+        await createFile({
+            filePath: 'changelog',
+            cwd,
+            content: '<!-- MONODEPLOY:BELOW -->',
+        })
+        await createFile({
+            filePath: 'changelog.json',
+            cwd,
+            content: JSON.stringify({
+                schemaVersion: 1,
+                entries: [
+                    {
+                        name: 'pkg-1',
+                        version: '1.1.0',
+                        previousVersion: '1.0.0',
+                        date: '2021-01-01',
+                        strategy: 'minor',
+                        tag: 'pkg-1@1.1.0',
+                        commits: [
+                            {
+                                sha: '0123456789abcdef',
+                                body: 'feat: a feature',
+                                type: 'feat',
+                                scope: null,
+                                subject: 'a feature',
+                                breaking: false,
+                            },
+                        ],
+                        changelog: 'as recorded',
+                    },
+                ],
+            }),
+        })
+
+        await prependChangelogFile({
+            config,
+            context,
+            changeset: {
+                'pkg-1': {
+                    version: '1.1.0',
+                    changelog: 'from the changeset',
+                    tag: 'pkg-1@1.1.0',
+                },
+                'pkg-2': {
+                    version: '1.0.1',
+                    changelog: 'not recorded in the store',
+                    tag: 'pkg-2@1.0.1',
+                },
+            },
+            workspaces: new Set(context.project.workspaces),
+        })
+
+        expect(
+            await fs.readFile(path.join(cwd, 'changelog'), {
+                encoding: 'utf8',
+            }),
+        ).toEqual(
+            '<!-- MONODEPLOY:BELOW -->\n\n## 1.1.0 (2021-01-01)\n\n### Features\n\n* a feature (0123456)\n\n\nnot recorded in the store\n',
+        )
+    })
+
     it('writes changelogs for each package if token present', async () => {
         const cwd = workspacePath
         const config = await getMonodeployConfig({
@@ -285,6 +358,70 @@ describe('prependChangelogFile', () => {
         )
     })
 
+    it('writes changelogs using per-package changelog filenames', async () => {
+        const cwd = workspacePath
+        const config = {
+            ...(await getMonodeployConfig({
+                baseBranch: 'main',
+                commitSha: 'sha-1',
+                cwd,
+                changelogFilename: 'CHANGELOG.md',
+            })),
+            packages: {
+                'pkg-2': { changelogFilename: '<packageDir>/CHANGELOG.md' },
+            },
+        }
+        const context = await setupContext(cwd as PortablePath)
+        const changeset = {
+            'pkg-1': {
+                version: '1.0.0',
+                changelog: 'wowchanges\nthisisachangelog',
+                tag: null,
+            },
+            'pkg-2': {
+                version: '1.1.0',
+                changelog: 'just a version bump',
+                tag: null,
+            },
+            'pkg-3': {
+                version: '1.2.0',
+                changelog: 'another bump',
+                tag: null,
+            },
+        }
+        const workspaces = new Set([
+            getWorkspace(context, 'pkg-1'),
+            getWorkspace(context, 'pkg-2'),
+            getWorkspace(context, 'pkg-3'),
+        ])
+
+        await prependChangelogFile({ config, context, changeset, workspaces })
+
+        const onDiskChangelog = await fs.readFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            { encoding: 'utf8' },
+        )
+        expect(onDiskChangelog).toEqual(
+            expect.stringContaining(
+                `${changeset['pkg-1'].changelog}\n${changeset['pkg-3'].changelog}`,
+            ),
+        )
+        expect(onDiskChangelog).not.toEqual(
+            expect.stringContaining(changeset['pkg-2'].changelog),
+        )
+
+        const onDiskChangelogPkg2 = await fs.readFile(
+            path.join(cwd, 'packages', 'pkg-2', 'CHANGELOG.md'),
+            { encoding: 'utf8' },
+        )
+        expect(onDiskChangelogPkg2).toEqual(
+            expect.stringContaining(changeset['pkg-2'].changelog),
+        )
+        expect(onDiskChangelogPkg2).not.toEqual(
+            expect.stringContaining(changeset['pkg-1'].changelog),
+        )
+    })
+
     it('does not write to the changelog file if there are no changes', async () => {
         const cwd = workspacePath
         const mockChangelogFilename = 'changelog'
@@ -321,4 +458,313 @@ describe('prependChangelogFile', () => {
 
         expect(contentsBefore).toEqual(contentsAfter)
     })
+
+    it('writes changelogs per major version if token present', async () => {
+        const cwd = workspacePath
+        const config = await getMonodeployConfig({
+            baseBranch: 'main',
+            commitSha: 'sha-1',
+            cwd,
+            changelogFilename: 'CHANGELOG-v<major>.md',
+        })
+        const context = await setupContext(cwd as PortablePath)
+        const changeset = {
+            'pkg-1': { version: '1.0.1', changelog: 'a patch', tag: null },
+            'pkg-2': { version: '2.0.0', changelog: 'a major', tag: null },
+        }
+
+        await prependChangelogFile({
+            config,
+            context,
+            changeset,
+            workspaces: new Set(),
+        })
+
+        const onDiskChangelogV1 = await fs.readFile(
+            path.join(cwd, 'CHANGELOG-v1.md'),
+            { encoding: 'utf8' },
+        )
+        expect(onDiskChangelogV1).toEqual(expect.stringContaining('a patch'))
+        expect(onDiskChangelogV1).not.toEqual(
+            expect.stringContaining('a major'),
+        )
+
+        const onDiskChangelogV2 = await fs.readFile(
+            path.join(cwd, 'CHANGELOG-v2.md'),
+            { encoding: 'utf8' },
+        )
+        expect(onDiskChangelogV2).toEqual(expect.stringContaining('a major'))
+        expect(onDiskChangelogV2).not.toEqual(
+            expect.stringContaining('a patch'),
+        )
+    })
+
+    describe('Archives', () => {
+        const readFile = (cwd: string, filename: string) =>
+            fs.readFile(path.join(cwd, filename), { encoding: 'utf8' })
+
+        it('moves entries exceeding the maximum number of entries to yearly archives', async () => {
+            const cwd = workspacePath
+            const config = {
+                ...(await getMonodeployConfig({
+                    baseBranch: 'main',
+                    commitSha: 'sha-1',
+                    cwd,
+                    changelogFilename: 'CHANGELOG.md',
+                })),
+                changelogMaxEntries: 1,
+            }
+            const context = await setupContext(cwd as PortablePath)
+            await createFile({
+                filePath: 'CHANGELOG.md',
+                cwd,
+                content: [
+                    '# Changelog',
+                    '',
+                    '<!-- MONODEPLOY:BELOW -->',
+                    '',
+                    '## 1.1.0 (2024-05-01)',
+                    '',
+                    '* second',
+                    '',
+                    '## 1.0.0 (2023-02-01)',
+                    '',
+                    '* first',
+                    '',
+                ].join('\n'),
+            })
+
+            await prependChangelogFile({
+                config,
+                context,
+                changeset: {
+                    'pkg-1': {
+                        version: '1.2.0',
+                        changelog: '## 1.2.0 (2025-01-01)\n\n* third\n',
+                        tag: null,
+                    },
+                },
+                workspaces: new Set(),
+            })
+
+            expect(await readFile(cwd, 'CHANGELOG.md')).toMatchInlineSnapshot(`
+                "# Changelog
+
+                <!-- MONODEPLOY:BELOW -->
+
+                ## 1.2.0 (2025-01-01)
+
+                * third
+
+                <!-- MONODEPLOY:ARCHIVES -->
+
+                ## Archives
+
+                * [CHANGELOG-2024.md](CHANGELOG-2024.md)
+                * [CHANGELOG-2023.md](CHANGELOG-2023.md)
+                "
+            `)
+            expect(await readFile(cwd, 'CHANGELOG-2024.md'))
+                .toMatchInlineSnapshot(`
+                "# Changelog
+
+                <!-- MONODEPLOY:BELOW -->
+
+                ## 1.1.0 (2024-05-01)
+
+                * second
+                "
+            `)
+            expect(await readFile(cwd, 'CHANGELOG-2023.md'))
+                .toMatchInlineSnapshot(`
+                "# Changelog
+
+                <!-- MONODEPLOY:BELOW -->
+
+                ## 1.0.0 (2023-02-01)
+
+                * first
+                "
+            `)
+
+            await prependChangelogFile({
+                config,
+                context,
+                changeset: {
+                    'pkg-1': {
+                        version: '1.3.0',
+                        changelog: '## 1.3.0 (2025-03-01)\n\n* fourth\n',
+                        tag: null,
+                    },
+                },
+                workspaces: new Set(),
+            })
+
+            expect(await readFile(cwd, 'CHANGELOG.md')).toMatchInlineSnapshot(`
+                "# Changelog
+
+                <!-- MONODEPLOY:BELOW -->
+
+                ## 1.3.0 (2025-03-01)
+
+                * fourth
+
+                <!-- MONODEPLOY:ARCHIVES -->
+
+                ## Archives
+
+                * [CHANGELOG-2025.md](CHANGELOG-2025.md)
+                * [CHANGELOG-2024.md](CHANGELOG-2024.md)
+                * [CHANGELOG-2023.md](CHANGELOG-2023.md)
+                "
+            `)
+            expect(await readFile(cwd, 'CHANGELOG-2025.md'))
+                .toMatchInlineSnapshot(`
+                "# Changelog
+
+                <!-- MONODEPLOY:BELOW -->
+
+                ## 1.2.0 (2025-01-01)
+
+                * third
+                "
+            `)
+        })
+
+        it('counts the entries of patch releases rendered as third level headings', async () => {
+            const cwd = workspacePath
+            const config = {
+                ...(await getMonodeployConfig({
+                    baseBranch: 'main',
+                    commitSha: 'sha-1',
+                    cwd,
+                    changelogFilename: 'CHANGELOG.md',
+                })),
+                changelogMaxEntries: 2,
+            }
+            const context = await setupContext(cwd as PortablePath)
+            await createFile({
+                filePath: 'CHANGELOG.md',
+                cwd,
+                content: [
+                    '<!-- MONODEPLOY:BELOW -->',
+                    '',
+                    '### [1.0.1](https://example.com/compare) (2024-05-01)',
+                    '',
+                    '### Bug Fixes',
+                    '',
+                    '* second',
+                    '',
+                    '## [1.0.0](https://example.com/compare) (2023-02-01)',
+                    '',
+                    '### Features',
+                    '',
+                    '* first',
+                    '',
+                ].join('\n'),
+            })
+
+            await prependChangelogFile({
+                config,
+                context,
+                changeset: {
+                    'pkg-1': {
+                        version: '1.1.0',
+                        changelog:
+                            '## [1.1.0](https://example.com/compare) (2025-01-01)\n\n### Features\n\n* third\n',
+                        tag: null,
+                    },
+                },
+                workspaces: new Set(),
+            })
+
+            expect(await readFile(cwd, 'CHANGELOG.md')).toMatchInlineSnapshot(`
+                "<!-- MONODEPLOY:BELOW -->
+
+                ## [1.1.0](https://example.com/compare) (2025-01-01)
+
+                ### Features
+
+                * third
+
+
+                ### [1.0.1](https://example.com/compare) (2024-05-01)
+
+                ### Bug Fixes
+
+                * second
+
+                <!-- MONODEPLOY:ARCHIVES -->
+
+                ## Archives
+
+                * [CHANGELOG-2023.md](CHANGELOG-2023.md)
+                "
+            `)
+            expect(await readFile(cwd, 'CHANGELOG-2023.md')).toEqual(
+                expect.stringContaining('## [1.0.0]'),
+            )
+        })
+
+        it('moves entries older than the maximum age to the archive', async () => {
+            const cwd = workspacePath
+            const config = {
+                ...(await getMonodeployConfig({
+                    baseBranch: 'main',
+                    commitSha: 'sha-1',
+                    cwd,
+                    changelogFilename: 'CHANGELOG.md',
+                })),
+                changelogMaxAge: 30,
+                changelogArchiveFilename: 'changelogs/<year>.md',
+            }
+            const context = await setupContext(cwd as PortablePath)
+            await createFile({
+                filePath: 'CHANGELOG.md',
+                cwd,
+                content: [
+                    '<!-- MONODEPLOY:BELOW -->',
+                    '',
+                    '## 1.0.0 (2020-01-01)',
+                    '',
+                    '* old',
+                    '',
+                ].join('\n'),
+            })
+            const today = new Date().toISOString().slice(0, 10)
+
+            await prependChangelogFile({
+                config,
+                context,
+                changeset: {
+                    'pkg-1': {
+                        version: '1.1.0',
+                        changelog: `## 1.1.0 (${today})\n\n* new\n`,
+                        tag: null,
+                    },
+                },
+                workspaces: new Set(),
+            })
+
+            expect(await readFile(cwd, 'CHANGELOG.md')).toEqual(
+                [
+                    '<!-- MONODEPLOY:BELOW -->',
+                    '',
+                    `## 1.1.0 (${today})`,
+                    '',
+                    '* new',
+                    '',
+                    '<!-- MONODEPLOY:ARCHIVES -->',
+                    '',
+                    '## Archives',
+                    '',
+                    '* [2020.md](changelogs/2020.md)',
+                    '',
+                ].join('\n'),
+            )
+            expect(await readFile(cwd, 'changelogs/2020.md')).toEqual(
+                expect.stringContaining('## 1.0.0 (2020-01-01)\n\n* old\n'),
+            )
+        })
+    })
 })
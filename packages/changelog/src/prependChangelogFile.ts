@@ -1,18 +1,22 @@
-import { promises as fs } from 'fs'
-import path from 'path'
-
-import logging from '@monodeploy/logging'
 import type {
+    ChangelogStoreEntry,
     ChangesetSchema,
     MonodeployConfiguration,
     YarnContext,
 } from '@monodeploy/types'
-import { Workspace, structUtils } from '@yarnpkg/core'
-import { npath } from '@yarnpkg/fslib'
+import { Workspace } from '@yarnpkg/core'
 import pLimit from 'p-limit'
 
-const MARKER = '<!-- MONODEPLOY:BELOW -->'
-const TOKEN_PACKAGE_DIR = '<packageDir>'
+import archiveChangelogEntries from './archiveChangelogEntries'
+import {
+    readChangelogFile,
+    resolveChangelogFilename,
+    writeChangelogFile,
+} from './changelogFile'
+import {
+    readChangelogStoreEntries,
+    renderChangelogStoreEntry,
+} from './changelogStore'
 
 const prependEntry = async ({
     config,
@@ -25,56 +29,27 @@ const prependEntry = async ({
     filename: string
     entry: string
 }): Promise<void> => {
-    let changelogContents: string[] = []
-    try {
-        changelogContents = (
-            await fs.readFile(filename, { encoding: 'utf-8' })
-        ).split('\n')
-    } catch (err) {
-        if (err.code === 'ENOENT') {
-            logging.info(
-                `[Changelog] Changelog ${filename} does not exist, creating.`,
-                { report: context.report },
-            )
-            changelogContents = ['# Changelog', '', MARKER]
-        } else {
-            logging.error(
-                `[Changelog] Unable to read changelog contents at ${filename}.`,
-                { report: context.report },
-            )
-            throw err
-        }
-    }
-
-    const changelogOffset = changelogContents.findIndex(
-        (value) => value.trim() === MARKER,
-    )
-    if (changelogOffset === -1) {
-        logging.error(`[Changelog] Missing changelog marker: '${MARKER}'`, {
-            report: context.report,
-        })
-        throw new Error('Unable to prepend changelog.')
-    }
-
-    changelogContents.splice(changelogOffset + 1, 0, `\n${entry}\n`)
-
-    const dataToWrite = changelogContents.join('\n')
-
-    if (config.dryRun && !config.forceWriteChangeFiles) {
-        logging.debug(`[Changelog] Skipping changelog update.`, {
-            report: context.report,
-        })
-    } else {
-        await fs.writeFile(filename, dataToWrite, {
-            encoding: 'utf-8',
-        })
-    }
-
-    logging.info(`[Changelog] Updated ${filename}`, {
-        report: context.report,
+    const { lines, markerIndex } = await readChangelogFile({
+        context,
+        filename,
+    })
+    lines.splice(markerIndex + 1, 0, `\n${entry}\n`)
+
+    await writeChangelogFile({
+        config,
+        context,
+        filename,
+        dataToWrite: (
+            await archiveChangelogEntries({ config, context, filename, lines })
+        ).join('\n'),
     })
 }
 
+/**
+ * Prepends the changelog entries of a changeset to the changelog files they
+ * belong to. With a changelog store, the entries of the releases recorded in
+ * the store are rendered from it, so the store should be updated first.
+ */
 const prependChangelogFile = async ({
     config,
     context,
@@ -86,44 +61,64 @@ const prependChangelogFile = async ({
     changeset: ChangesetSchema
     workspaces: Set<Workspace>
 }): Promise<void> => {
-    if (!config.changelogFilename) return
+    const storeEntries = new Map(
+        (config.changelogStoreFilename
+            ? await readChangelogStoreEntries({ config, context, workspaces })
+            : []
+        ).map((entry): [string, ChangelogStoreEntry] => [
+            `${entry.name}@${entry.version}`,
+            entry,
+        ]),
+    )
 
-    if (config.changelogFilename.includes(TOKEN_PACKAGE_DIR)) {
-        const prependForWorkspace = async (
-            workspace: Workspace,
-        ): Promise<void> => {
-            const filename = config.changelogFilename!.replace(
-                TOKEN_PACKAGE_DIR,
-                npath.fromPortablePath(workspace.cwd),
-            )
-            const packageName = structUtils.stringifyIdent(
-                workspace.manifest.name!,
-            )
-            const entry = changeset[packageName]?.changelog
-            console.log(entry, packageName, changeset)
-            if (entry) await prependEntry({ config, context, filename, entry })
-        }
+    // Group the changelog entries by the changelog file they belong to
+    const entriesByFilename = new Map<string, Array<[string, string]>>()
 
-        const limit = pLimit(config.jobs || Infinity)
-        await Promise.all(
-            [...workspaces].map((workspace) =>
-                limit(() => prependForWorkspace(workspace)),
-            ),
+    for (const [packageName, changesetValue] of Object.entries(changeset)) {
+        const storeEntry = storeEntries.get(
+            `${packageName}@${changesetValue.version}`,
         )
+        const changelog = storeEntry
+            ? await renderChangelogStoreEntry({
+                  config,
+                  context,
+                  entry: storeEntry,
+              })
+            : changesetValue.changelog
+        if (!changelog) continue
+
+        const filename = resolveChangelogFilename({
+            config,
+            packageName,
+            version: changesetValue.version,
+            workspaces,
+        })
+        if (!filename) continue
 
-        return
+        const entries = entriesByFilename.get(filename) ?? []
+        entries.push([packageName, changelog])
+        entriesByFilename.set(filename, entries)
     }
 
-    const filename = path.resolve(config.cwd, config.changelogFilename)
-
-    const entry = Object.entries(changeset)
-        .sort(([pkgNameA], [pkgNameB]) => pkgNameA.localeCompare(pkgNameB))
-        .map(([, changesetValue]) => changesetValue.changelog)
-        .filter((value) => value)
-        .join('\n')
-        .trim()
+    const prependForFilename = async (
+        filename: string,
+        entries: Array<[string, string]>,
+    ): Promise<void> => {
+        const entry = entries
+            .sort(([pkgNameA], [pkgNameB]) => pkgNameA.localeCompare(pkgNameB))
+            .map(([, changelog]) => changelog)
+            .join('\n')
+            .trim()
+
+        if (entry) await prependEntry({ config, context, filename, entry })
+    }
 
-    if (entry) await prependEntry({ config, context, filename, entry })
+    const limit = pLimit(config.jobs || Infinity)
+    await Promise.all(
+        [...entriesByFilename.entries()].map(([filename, entries]) =>
+            limit(() => prependForFilename(filename, entries)),
+        ),
+    )
 }
 
 export default prependChangelogFile
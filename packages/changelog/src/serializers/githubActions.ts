@@ -0,0 +1,75 @@
+import crypto from 'crypto'
+
+import formatChangeset from '../formatChangeset'
+
+import { getReleaseSummary } from './markdown'
+import type { ChangesetSerializer } from './types'
+
+/**
+ * Formats a step output, using the heredoc syntax for multiline values.
+ * See: https://docs.github.com/en/actions/using-workflows/workflow-commands-for-github-actions#multiline-strings
+ */
+const formatOutput = (key: string, value: string): string => {
+    if (!value.includes('\n')) return `${key}=${value}\n`
+
+    let delimiter: string
+    do {
+        delimiter = `ghadelimiter_${crypto.randomBytes(8).toString('hex')}`
+    } while (value.includes(delimiter))
+
+    return `${key}<<${delimiter}\n${value}\n${delimiter}\n`
+}
+
+const githubActionsSerializer: ChangesetSerializer = {
+    serialize: ({ config, changesetData, rollback }) => {
+        // The outputs of the release may already have been written, so the
+        // rollback is recorded under its own keys
+        if (rollback) {
+            return [
+                formatOutput('rolled-back', 'true'),
+                formatOutput(
+                    'rollback',
+                    JSON.stringify(
+                        Object.fromEntries(
+                            Object.entries(changesetData).map(
+                                ([packageName, record]) => [
+                                    packageName,
+                                    record.rollback ?? [],
+                                ],
+                            ),
+                        ),
+                    ),
+                ),
+            ].join('')
+        }
+
+        const packageNames = Object.keys(changesetData).sort()
+        const tags = packageNames
+            .map((packageName) => changesetData[packageName].tag)
+            .filter((tag): tag is string => Boolean(tag))
+
+        return [
+            formatOutput('released', String(packageNames.length > 0)),
+            formatOutput('packages', JSON.stringify(packageNames)),
+            formatOutput('tags', JSON.stringify(tags)),
+            formatOutput(
+                'changeset',
+                JSON.stringify(formatChangeset({ config, changesetData })),
+            ),
+            formatOutput('summary', getReleaseSummary(changesetData).trim()),
+        ].join('')
+    },
+    append: true,
+    getAdditionalOutputs: ({ changesetData, rollback }) => {
+        const outputs = new Map<string, string>()
+        if (process.env.GITHUB_STEP_SUMMARY && !rollback) {
+            outputs.set(
+                process.env.GITHUB_STEP_SUMMARY,
+                getReleaseSummary(changesetData),
+            )
+        }
+        return outputs
+    },
+}
+
+export default githubActionsSerializer
@@ -0,0 +1,44 @@
+import type {
+    ChangesetFormat,
+    MonodeployConfiguration,
+} from '@monodeploy/types'
+
+import githubActionsSerializer from './githubActions'
+import jsonSerializer from './json'
+import markdownSerializer from './markdown'
+import type { ChangesetSerializer } from './types'
+import yamlSerializer from './yaml'
+
+const serializers: Record<ChangesetFormat, ChangesetSerializer> = {
+    json: jsonSerializer,
+    yaml: yamlSerializer,
+    markdown: markdownSerializer,
+    'github-actions': githubActionsSerializer,
+}
+
+const extensionFormats: Record<string, ChangesetFormat> = {
+    '.yml': 'yaml',
+    '.yaml': 'yaml',
+    '.md': 'markdown',
+    '.markdown': 'markdown',
+}
+
+/**
+ * Resolves the changeset format from the config, falling back to the
+ * extension of the changeset filename.
+ */
+export const getChangesetFormat = (
+    config: MonodeployConfiguration,
+): ChangesetFormat => {
+    if (config.changesetFormat) return config.changesetFormat
+
+    const extension = config.changesetFilename?.match(/\.[^./\\]+$/)?.[0]
+    return extensionFormats[extension?.toLowerCase() ?? ''] ?? 'json'
+}
+
+export const getChangesetSerializer = (
+    config: MonodeployConfiguration,
+): ChangesetSerializer => serializers[getChangesetFormat(config)]
+
+export { getReleaseSummary } from './markdown'
+export type { ChangesetSerializer, SerializeOptions } from './types'
@@ -0,0 +1,10 @@
+import formatChangeset from '../formatChangeset'
+
+import type { ChangesetSerializer } from './types'
+
+const jsonSerializer: ChangesetSerializer = {
+    serialize: ({ config, changesetData }) =>
+        JSON.stringify(formatChangeset({ config, changesetData }), null, 2),
+}
+
+export default jsonSerializer
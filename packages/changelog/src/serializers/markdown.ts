@@ -0,0 +1,53 @@
+import type { ChangesetSchema } from '@monodeploy/types'
+
+import type { ChangesetSerializer } from './types'
+
+/**
+ * Renders a human readable summary of the release, suitable for pull request
+ * comments or job summaries.
+ */
+export const getReleaseSummary = (changesetData: ChangesetSchema): string => {
+    const packageNames = Object.keys(changesetData).sort()
+    if (!packageNames.length) {
+        return '## Release Summary\n\nNo packages to release.\n'
+    }
+
+    const rows = packageNames.map((packageName) => {
+        const { version, previousVersion, strategy } =
+            changesetData[packageName]
+        const versionChange = previousVersion
+            ? `${previousVersion} → ${version}`
+            : version
+        return `| \`${packageName}\` | ${versionChange} | ${strategy ?? '-'} |`
+    })
+
+    const changelogs = packageNames
+        .filter((packageName) => changesetData[packageName].changelog)
+        .map((packageName) => {
+            const { version, changelog } = changesetData[packageName]
+            return [
+                '<details>',
+                `<summary><code>${packageName}@${version}</code></summary>`,
+                '',
+                changelog!.trim(),
+                '',
+                '</details>',
+            ].join('\n')
+        })
+
+    return [
+        '## Release Summary',
+        '',
+        '| Package | Version | Strategy |',
+        '| --- | --- | --- |',
+        ...rows,
+        ...changelogs.map((changelog) => `\n${changelog}`),
+        '',
+    ].join('\n')
+}
+
+const markdownSerializer: ChangesetSerializer = {
+    serialize: ({ changesetData }) => getReleaseSummary(changesetData),
+}
+
+export default markdownSerializer
@@ -0,0 +1,31 @@
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+} from '@monodeploy/types'
+
+export type SerializeOptions = {
+    config: MonodeployConfiguration
+    changesetData: ChangesetSchema
+    /**
+     * Whether the changeset records the rollback of a failed release, which
+     * may follow the changeset written earlier in the same run.
+     */
+    rollback?: boolean
+}
+
+export interface ChangesetSerializer {
+    /**
+     * Serializes the changeset, for writing to the changeset file or stdout.
+     */
+    serialize: (options: SerializeOptions) => string
+
+    /**
+     * Whether the changeset file is appended to, rather than overwritten.
+     */
+    append?: boolean
+
+    /**
+     * Additional files to append to, mapped to the contents to append.
+     */
+    getAdditionalOutputs?: (options: SerializeOptions) => Map<string, string>
+}
@@ -0,0 +1,12 @@
+import YAML from 'yaml'
+
+import formatChangeset from '../formatChangeset'
+
+import type { ChangesetSerializer } from './types'
+
+const yamlSerializer: ChangesetSerializer = {
+    serialize: ({ config, changesetData }) =>
+        YAML.stringify(formatChangeset({ config, changesetData })),
+}
+
+export default yamlSerializer
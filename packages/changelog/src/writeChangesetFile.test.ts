@@ -0,0 +1,516 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import {
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import {
+    ChangesetDocument,
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    YarnContext,
+} from '@monodeploy/types'
+import Ajv from 'ajv'
+import YAML from 'yaml'
+
+import {
+    getChangesetFormat,
+    getReleaseSummary,
+    writeChangesetData,
+    writeChangesetFile,
+} from '.'
+
+const versionStrategies: PackageStrategyMap = new Map([
+    [
+        'pkg-1',
+        {
+            type: 'major',
+            commits: [
+                { sha: 'sha1', body: 'feat(core)!: a breaking feature' },
+                { sha: 'sha2', body: 'fix: a fix' },
+            ],
+        },
+    ],
+    [
+        'pkg-2',
+        {
+            type: 'patch',
+            commits: [],
+            upstream: [{ name: 'pkg-1', type: 'major' }],
+        },
+    ],
+])
+
+const writeChangesetContents = async (
+    context: YarnContext,
+    overrides: Partial<MonodeployConfiguration> = {},
+): Promise<string> => {
+    const config = {
+        ...(await getMonodeployConfig({
+            cwd: context.project.cwd,
+            baseBranch: 'main',
+            commitSha: 'shashasha',
+        })),
+        changesetFilename: 'changes.json',
+        ...overrides,
+    }
+
+    await writeChangesetFile({
+        config,
+        context,
+        previousTags: new Map([
+            ['pkg-1', '1.0.0'],
+            ['pkg-2', '1.0.0'],
+        ]),
+        nextTags: new Map([
+            ['pkg-1', '2.0.0'],
+            ['pkg-2', '1.0.1'],
+        ]),
+        versionStrategies,
+        createdGitTags: new Map([
+            ['pkg-1', 'pkg-1@2.0.0'],
+            ['pkg-2', 'pkg-2@1.0.1'],
+        ]),
+        publishTimes: new Map([['pkg-1', '2021-06-01T12:00:00.000Z']]),
+    })
+
+    return await fs.readFile(
+        path.join(context.project.cwd, config.changesetFilename),
+        'utf8',
+    )
+}
+
+const writeChangeset = async (
+    context: YarnContext,
+    overrides: Partial<MonodeployConfiguration> = {},
+): Promise<unknown> =>
+    JSON.parse(await writeChangesetContents(context, overrides))
+
+describe('writeChangesetFile', () => {
+    it('writes a version 2 changeset matching the JSON schema', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': { dependencies: ['pkg-1'] },
+            },
+            async (context) => {
+                const changeset = await writeChangeset(context, {
+                    changesetSchemaVersion: 2,
+                })
+
+                const schema = JSON.parse(
+                    await fs.readFile(
+                        require.resolve(
+                            '@monodeploy/types/changeset.schema.json',
+                        ),
+                        'utf8',
+                    ),
+                )
+                const validate = new Ajv({
+                    formats: { 'date-time': true },
+                }).compile(schema)
+                expect(validate.errors).toBeNull()
+                expect(validate(changeset)).toBe(true)
+
+                expect(changeset).toEqual({
+                    schemaVersion: 2,
+                    packages: {
+                        'pkg-1': {
+                            version: '2.0.0',
+                            previousVersion: '1.0.0',
+                            changelog:
+                                expect.stringContaining('a breaking feature'),
+                            tag: 'pkg-1@2.0.0',
+                            strategy: 'major',
+                            source: 'explicit',
+                            commits: [
+                                {
+                                    sha: 'sha1',
+                                    body: 'feat(core)!: a breaking feature',
+                                    type: 'feat',
+                                    scope: 'core',
+                                    subject: 'a breaking feature',
+                                    breaking: true,
+                                },
+                                {
+                                    sha: 'sha2',
+                                    body: 'fix: a fix',
+                                    type: 'fix',
+                                    scope: null,
+                                    subject: 'a fix',
+                                    breaking: false,
+                                },
+                            ],
+                            distTag: 'latest',
+                            publishedAt: '2021-06-01T12:00:00.000Z',
+                        },
+                        'pkg-2': {
+                            version: '1.0.1',
+                            previousVersion: '1.0.0',
+                            changelog:
+                                expect.stringContaining('dependency updates'),
+                            tag: 'pkg-2@1.0.1',
+                            strategy: 'patch',
+                            source: 'implicit',
+                            commits: [],
+                            distTag: 'latest',
+                            publishedAt: null,
+                            upstream: [
+                                {
+                                    name: 'pkg-1',
+                                    version: '2.0.0',
+                                    previousVersion: '1.0.0',
+                                },
+                            ],
+                        },
+                    },
+                })
+            },
+        ))
+
+    it('parses the commits with the conventional changelog config of the package', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': { dependencies: ['pkg-1'] },
+            },
+            async (context) => {
+                // Only matches headers of the form "type: [scope] subject"
+                await fs.writeFile(
+                    path.join(context.project.cwd, 'custom-config.js'),
+                    `module.exports = {
+                        parserOpts: {
+                            headerPattern: /^(\\w*): \\[(.*)\\] (.*)$/,
+                            headerCorrespondence: ['type', 'scope', 'subject'],
+                        },
+                    }`,
+                )
+
+                const changeset = (await writeChangeset(context, {
+                    changesetSchemaVersion: 2,
+                    packages: {
+                        'pkg-1': {
+                            conventionalChangelogConfig: './custom-config.js',
+                        },
+                    },
+                })) as ChangesetDocument
+
+                expect(
+                    changeset.packages['pkg-1'].commits?.map(
+                        ({ type }) => type,
+                    ),
+                ).toEqual([null, null])
+            },
+        ))
+
+    it('writes a version 1 changeset in compatibility mode', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': { dependencies: ['pkg-1'] },
+            },
+            async (context) => {
+                const changeset = await writeChangeset(context, {
+                    changesetSchemaVersion: 1,
+                    noRegistry: true,
+                })
+
+                expect(changeset).toEqual({
+                    'pkg-1': {
+                        version: '2.0.0',
+                        previousVersion: '1.0.0',
+                        changelog:
+                            expect.stringContaining('a breaking feature'),
+                        tag: 'pkg-1@2.0.0',
+                        strategy: 'major',
+                    },
+                    'pkg-2': {
+                        version: '1.0.1',
+                        previousVersion: '1.0.0',
+                        changelog:
+                            expect.stringContaining('dependency updates'),
+                        tag: 'pkg-2@1.0.1',
+                        strategy: 'patch',
+                        upstream: [
+                            {
+                                name: 'pkg-1',
+                                version: '2.0.0',
+                                previousVersion: '1.0.0',
+                            },
+                        ],
+                    },
+                })
+            },
+        ))
+
+    it('infers the changeset format from the filename', async () => {
+        const config = await getMonodeployConfig({
+            cwd: '/tmp',
+            baseBranch: 'main',
+            commitSha: 'shashasha',
+        })
+
+        expect(
+            getChangesetFormat({ ...config, changesetFilename: '-' }),
+        ).toEqual('json')
+        expect(
+            getChangesetFormat({ ...config, changesetFilename: 'out/c.json' }),
+        ).toEqual('json')
+        expect(
+            getChangesetFormat({ ...config, changesetFilename: 'c.YAML' }),
+        ).toEqual('yaml')
+        expect(
+            getChangesetFormat({ ...config, changesetFilename: 'c.yml' }),
+        ).toEqual('yaml')
+        expect(
+            getChangesetFormat({ ...config, changesetFilename: 'c.md' }),
+        ).toEqual('markdown')
+        expect(
+            getChangesetFormat({
+                ...config,
+                changesetFilename: 'c.md',
+                changesetFormat: 'json',
+            }),
+        ).toEqual('json')
+    })
+
+    it('writes a yaml changeset', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': { dependencies: ['pkg-1'] },
+            },
+            async (context) => {
+                const contents = await writeChangesetContents(context, {
+                    changesetFilename: 'changes.yml',
+                })
+
+                expect(YAML.parse(contents)).toEqual(
+                    await writeChangeset(context),
+                )
+            },
+        ))
+
+    it('writes a markdown release summary', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': { dependencies: ['pkg-1'] },
+            },
+            async (context) => {
+                const contents = await writeChangesetContents(context, {
+                    changesetFilename: 'changes.md',
+                })
+
+                const summary = contents.replace(
+                    /\(\d{4}-\d{2}-\d{2}\)/g,
+                    '(DATE)',
+                )
+                expect(summary).toMatchInlineSnapshot(`
+                    "## Release Summary
+
+                    | Package | Version | Strategy |
+                    | --- | --- | --- |
+                    | \`pkg-1\` | 1.0.0 → 2.0.0 | major |
+                    | \`pkg-2\` | 1.0.0 → 1.0.1 | patch |
+
+                    <details>
+                    <summary><code>pkg-1@2.0.0</code></summary>
+
+                    ## 2.0.0 (DATE)
+
+                    ### Breaking Changes
+
+                    * **core:** a breaking feature (sha1)
+
+                    ### Features
+
+                    * **core:** a breaking feature (sha1)
+
+                    ### Bug Fixes
+
+                    * a fix (sha2)
+
+                    </details>
+
+                    <details>
+                    <summary><code>pkg-2@1.0.1</code></summary>
+
+                    ## 1.0.1 (DATE)
+
+                    **Note:** Version bump only due to dependency updates.
+
+                    ### Dependency Updates
+
+                    * \`pkg-1\`: 1.0.0 → 2.0.0
+
+                    </details>
+                    "
+                `)
+            },
+        ))
+
+    it('includes changelogs in the release summary', () => {
+        expect(
+            getReleaseSummary({
+                'pkg-1': {
+                    version: '1.0.0',
+                    previousVersion: null,
+                    changelog: '## 1.0.0\n\n* a feature\n',
+                    tag: null,
+                    strategy: null,
+                },
+                'pkg-2': {
+                    version: '1.0.1',
+                    previousVersion: '1.0.0',
+                    changelog: null,
+                    tag: null,
+                    strategy: 'patch',
+                },
+            }),
+        ).toMatchInlineSnapshot(`
+            "## Release Summary
+
+            | Package | Version | Strategy |
+            | --- | --- | --- |
+            | \`pkg-1\` | 1.0.0 | - |
+            | \`pkg-2\` | 1.0.0 → 1.0.1 | patch |
+
+            <details>
+            <summary><code>pkg-1@1.0.0</code></summary>
+
+            ## 1.0.0
+
+            * a feature
+
+            </details>
+            "
+        `)
+        expect(getReleaseSummary({})).toEqual(
+            '## Release Summary\n\nNo packages to release.\n',
+        )
+    })
+
+    describe('GitHub Actions', () => {
+        const env = process.env
+
+        afterEach(() => {
+            process.env = env
+        })
+
+        it('appends step outputs and a step summary', async () =>
+            withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': { dependencies: ['pkg-1'] },
+                },
+                async (context) => {
+                    const summaryFilename = path.join(
+                        context.project.cwd,
+                        'summary.md',
+                    )
+                    process.env = {
+                        ...env,
+                        GITHUB_STEP_SUMMARY: summaryFilename,
+                    }
+                    await fs.writeFile(
+                        path.join(context.project.cwd, 'outputs'),
+                        'existing=value\n',
+                    )
+
+                    const contents = await writeChangesetContents(context, {
+                        changesetFilename: 'outputs',
+                        changesetFormat: 'github-actions',
+                    })
+
+                    const lines = contents.split('\n')
+                    expect(lines.slice(0, 4)).toEqual([
+                        'existing=value',
+                        'released=true',
+                        'packages=["pkg-1","pkg-2"]',
+                        'tags=["pkg-1@2.0.0","pkg-2@1.0.1"]',
+                    ])
+                    expect(
+                        JSON.parse(lines[4].replace(/^changeset=/, '')),
+                    ).toEqual(await writeChangeset(context))
+
+                    const delimiter = lines[5].replace(/^summary<</, '')
+                    expect(delimiter).toMatch(/^ghadelimiter_/)
+                    expect(lines.slice(6, lines.indexOf(delimiter))).toEqual(
+                        (await fs.readFile(summaryFilename, 'utf8'))
+                            .trim()
+                            .split('\n'),
+                    )
+                },
+            ))
+
+        it('records a rollback under separate step outputs', async () =>
+            withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': { dependencies: ['pkg-1'] },
+                },
+                async (context) => {
+                    const summaryFilename = path.join(
+                        context.project.cwd,
+                        'summary.md',
+                    )
+                    process.env = {
+                        ...env,
+                        GITHUB_STEP_SUMMARY: summaryFilename,
+                    }
+                    const config = {
+                        ...(await getMonodeployConfig({
+                            cwd: context.project.cwd,
+                            baseBranch: 'main',
+                            commitSha: 'shashasha',
+                        })),
+                        changesetFilename: 'outputs',
+                        changesetFormat: 'github-actions' as const,
+                    }
+
+                    await writeChangesetContents(context, config)
+                    const summary = await fs.readFile(summaryFilename, 'utf8')
+
+                    await writeChangesetData({
+                        config,
+                        context,
+                        changesetData: {
+                            'pkg-1': {
+                                version: '2.0.0',
+                                changelog: null,
+                                tag: null,
+                                rollback: [
+                                    {
+                                        type: 'delete-tag',
+                                        target: 'pkg-1@2.0.0',
+                                        success: true,
+                                    },
+                                ],
+                            },
+                        },
+                        rollback: true,
+                    })
+
+                    const lines = (
+                        await fs.readFile(
+                            path.join(context.project.cwd, 'outputs'),
+                            'utf8',
+                        )
+                    ).split('\n')
+                    expect(
+                        lines.filter((line) => line.startsWith('released')),
+                    ).toEqual(['released=true'])
+                    expect(lines.slice(-3)).toEqual([
+                        'rolled-back=true',
+                        'rollback={"pkg-1":[{"type":"delete-tag","target":"pkg-1@2.0.0","success":true}]}',
+                        '',
+                    ])
+                    expect(await fs.readFile(summaryFilename, 'utf8')).toEqual(
+                        summary,
+                    )
+                },
+            ))
+    })
+})
@@ -1,6 +1,7 @@
 import { promises as fs } from 'fs'
 import path from 'path'
 
+import { getPackageConfig } from '@monodeploy/io'
 import logging from '@monodeploy/logging'
 import type {
     ChangesetSchema,
@@ -10,7 +11,21 @@ import type {
     YarnContext,
 } from '@monodeploy/types'
 
-import generateChangelogEntry from './changelog'
+import formatChangeset from './formatChangeset'
+import generateChangelogEntries, {
+    getUpstreamReleases,
+} from './generateChangelogEntries'
+import parseCommits from './parseCommits'
+import { getChangesetSerializer } from './serializers'
+
+const getDistTag = (
+    config: MonodeployConfiguration,
+    packageName: string,
+): string | null => {
+    if (config.noRegistry) return null
+    const packageConfig = getPackageConfig(config, packageName)
+    return packageConfig.prerelease ? packageConfig.prereleaseNPMTag : 'latest'
+}
 
 const writeChangesetFile = async ({
     config,
@@ -19,6 +34,8 @@ const writeChangesetFile = async ({
     nextTags,
     versionStrategies,
     createdGitTags,
+    publishTimes,
+    changelogs,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
@@ -26,38 +43,93 @@ const writeChangesetFile = async ({
     nextTags: PackageVersionMap
     versionStrategies: PackageStrategyMap
     createdGitTags?: Map<string, string>
+    publishTimes?: Map<string, string>
+    changelogs?: Map<string, string | null>
 }): Promise<ChangesetSchema> => {
     const changesetData: ChangesetSchema = {}
 
+    // The changelog entries may have been rendered ahead of time, e.g. for
+    // the tag messages
+    const changelogEntries =
+        changelogs ??
+        (await generateChangelogEntries({
+            config,
+            context,
+            previousTags,
+            nextTags,
+            versionStrategies,
+        }))
+
     for (const [packageName, newVersion] of nextTags.entries()) {
         const previousVersion = previousTags.get(packageName) ?? null
         const versionStrategy = versionStrategies.get(packageName)
-        const changelog = await generateChangelogEntry({
-            config,
-            context,
+        const upstream = getUpstreamReleases({
             packageName,
-            previousVersion,
-            newVersion,
-            commits: versionStrategy?.commits ?? [],
+            previousTags,
+            nextTags,
+            versionStrategies,
         })
         changesetData[packageName] = {
             version: newVersion,
             previousVersion: previousVersion,
-            changelog,
+            changelog: changelogEntries.get(packageName) ?? null,
             tag: createdGitTags?.get(packageName) ?? null,
             strategy: versionStrategy?.type ?? null,
+            source:
+                versionStrategy?.commits.length ||
+                versionStrategy?.intents?.length
+                    ? 'explicit'
+                    : 'implicit',
+            commits: await parseCommits({
+                config,
+                packageName,
+                commits: versionStrategy?.commits ?? [],
+            }),
+            distTag: getDistTag(config, packageName),
+            publishedAt: publishTimes?.get(packageName) ?? null,
+            ...(upstream ? { upstream } : {}),
         }
     }
 
+    await writeChangesetData({ config, context, changesetData })
+
+    return changesetData
+}
+
+/**
+ * Writes the changeset data to the configured changeset file (or stdout),
+ * using the serializer for the configured changeset format. With `rollback`,
+ * the changeset records the rollback of a failed release.
+ */
+export const writeChangesetData = async ({
+    config,
+    context,
+    changesetData,
+    rollback = false,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    changesetData: ChangesetSchema
+    rollback?: boolean
+}): Promise<void> => {
     if (!config.changesetFilename) {
         logging.debug(`[Changeset] Data`, {
-            extras: JSON.stringify(changesetData, null, 2),
+            extras: JSON.stringify(
+                formatChangeset({ config, changesetData }),
+                null,
+                2,
+            ),
             report: context.report,
         })
-        return changesetData
+        return
     }
 
-    const serializedData = JSON.stringify(changesetData, null, 2)
+    const serializer = getChangesetSerializer(config)
+    const serializedData = serializer.serialize({
+        config,
+        changesetData,
+        rollback,
+    })
 
     if (config.changesetFilename === '-') {
         console.log(serializedData)
@@ -65,15 +137,25 @@ const writeChangesetFile = async ({
         const changesetPath = path.resolve(config.cwd, config.changesetFilename)
         await fs.mkdir(path.dirname(changesetPath), { recursive: true })
 
-        await fs.writeFile(changesetPath, serializedData, {
-            encoding: 'utf8',
-        })
+        const write = serializer.append ? fs.appendFile : fs.writeFile
+        await write(changesetPath, serializedData, { encoding: 'utf8' })
         logging.info(`[Changeset] Written to: ${changesetPath}`, {
             report: context.report,
         })
     }
 
-    return changesetData
+    const additionalOutputs =
+        serializer.getAdditionalOutputs?.({
+            config,
+            changesetData,
+            rollback,
+        }) ?? []
+    for (const [filename, contents] of additionalOutputs) {
+        await fs.appendFile(filename, contents, { encoding: 'utf8' })
+        logging.info(`[Changeset] Written to: ${filename}`, {
+            report: context.report,
+        })
+    }
 }
 
 export default writeChangesetFile
@@ -2,13 +2,27 @@ import { promises as fs } from 'fs'
 import os from 'os'
 import path from 'path'
 
-import monodeploy from '@monodeploy/node'
+import monodeploy, {
+    backfillChangelog,
+    changelog,
+    preview,
+    renderChangelog,
+    version,
+} from '@monodeploy/node'
 
 const scriptPath = path.join(__dirname, 'cli.ts')
 
 jest.mock('@monodeploy/node', () => ({
     __esModule: true,
     default: jest.fn(),
+    backfillChangelog: jest.fn(),
+    changelog: jest.fn(),
+    preview: jest.fn(),
+    publish: jest.fn(),
+    renderChangelog: jest.fn(),
+    status: jest.fn(),
+    tag: jest.fn(),
+    version: jest.fn(),
 }))
 
 describe('CLI', () => {
@@ -29,6 +43,143 @@ describe('CLI', () => {
             : ['node', scriptPath]
     }
 
+    describe('Subcommands', () => {
+        it('runs only the requested part of the release', async () => {
+            const mockVersion = version as jest.MockedFunction<typeof version>
+            try {
+                setArgs('version --git-base-branch main')
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                expect(monodeploy).not.toHaveBeenCalled()
+                expect(mockVersion.mock.calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        git: expect.objectContaining({ baseBranch: 'main' }),
+                    }),
+                )
+            } finally {
+                mockVersion.mockReset()
+            }
+        })
+
+        it('backfills the changelog from the git tags', async () => {
+            const mockChangelog = changelog as jest.MockedFunction<
+                typeof changelog
+            >
+            const mockBackfillChangelog =
+                backfillChangelog as jest.MockedFunction<
+                    typeof backfillChangelog
+                >
+            try {
+                setArgs('changelog --backfill --git-base-branch main')
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                expect(mockChangelog).not.toHaveBeenCalled()
+                expect(mockBackfillChangelog.mock.calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        git: expect.objectContaining({ baseBranch: 'main' }),
+                    }),
+                )
+            } finally {
+                mockChangelog.mockReset()
+                mockBackfillChangelog.mockReset()
+            }
+        })
+
+        it('renders the changelog from the changelog store', async () => {
+            const mockRenderChangelog = renderChangelog as jest.MockedFunction<
+                typeof renderChangelog
+            >
+            try {
+                setArgs(
+                    'changelog --render --changelog-store-filename changelog.json',
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                expect(changelog).not.toHaveBeenCalled()
+                expect(mockRenderChangelog.mock.calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        changelogStoreFilename: 'changelog.json',
+                    }),
+                )
+            } finally {
+                mockRenderChangelog.mockReset()
+            }
+        })
+
+        it('rejects unknown subcommands', async () => {
+            const spyError = jest
+                .spyOn(console, 'error')
+                .mockImplementation(() => undefined)
+            const spyExit = jest
+                .spyOn(process, 'exit')
+                .mockImplementation((() => undefined) as () => never)
+            try {
+                setArgs('unknown')
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                expect(spyExit).toHaveBeenCalledWith(1)
+            } finally {
+                spyError.mockRestore()
+                spyExit.mockRestore()
+            }
+        })
+    })
+
+    describe('Preview', () => {
+        it('prints a preview of the release instead of publishing', async () => {
+            const mockPreview = preview as jest.MockedFunction<typeof preview>
+            mockPreview.mockResolvedValue({
+                packages: [
+                    {
+                        name: 'pkg-1',
+                        previousVersion: '1.0.0',
+                        version: '1.1.0',
+                        strategy: 'minor',
+                        source: 'explicit',
+                        manifestDiff: '',
+                        changelog: null,
+                    },
+                ],
+            })
+            const spyWrite = jest
+                .spyOn(process.stdout, 'write')
+                .mockImplementation(() => true)
+
+            try {
+                setArgs('preview --git-base-branch main')
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                expect(monodeploy).not.toHaveBeenCalled()
+                expect(mockPreview.mock.calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        git: expect.objectContaining({ baseBranch: 'main' }),
+                    }),
+                )
+                expect(spyWrite).toHaveBeenCalledWith(
+                    expect.stringContaining('pkg-1    1.0.0     1.1.0  minor'),
+                )
+            } finally {
+                spyWrite.mockRestore()
+                mockPreview.mockReset()
+            }
+        })
+    })
+
     describe('CLI Args', () => {
         it('passes cli flags to monodeploy', async () => {
             setArgs(
@@ -39,12 +190,14 @@ describe('CLI', () => {
                     '--push --persist-versions --access public --topological --topological-dev --jobs 6 ' +
                     '--auto-commit --auto-commit-message release --plugins plugin-a plugin-b ' +
                     '--max-concurrent-reads 3 --max-concurrent-writes 4 --no-git-tag ' +
-                    '--changeset-ignore-patterns "*.test.js" --prerelease --prerelease-id rc --prerelease-npm-tag beta',
+                    '--changeset-ignore-patterns "*.test.js" --prerelease --prerelease-id rc --prerelease-npm-tag beta ' +
+                    '--intent-files-directory .changeset',
             )
             jest.isolateModules(() => {
                 require('./cli')
             })
             await new Promise((r) => setTimeout(r))
+            // eslint-disable-next-line jest/no-large-snapshots
             expect(
                 (monodeploy as jest.MockedFunction<typeof monodeploy>).mock
                     .calls[0][0],
@@ -53,26 +206,42 @@ describe('CLI', () => {
                   "access": "public",
                   "autoCommit": true,
                   "autoCommitMessage": "release",
+                  "changelogArchiveFilename": undefined,
                   "changelogFilename": "changelog.md",
+                  "changelogMaxAge": undefined,
+                  "changelogMaxEntries": undefined,
+                  "changelogStoreFilename": undefined,
                   "changesetFilename": "changes.json",
+                  "changesetFormat": undefined,
                   "changesetIgnorePatterns": Array [
                     "*.test.js",
                   ],
+                  "changesetSchemaVersion": undefined,
                   "conventionalChangelogConfig": "@my/config",
                   "cwd": "/tmp",
+                  "dependentBumpPolicy": undefined,
                   "dryRun": true,
+                  "fixed": undefined,
                   "forceWriteChangeFiles": true,
                   "git": Object {
                     "baseBranch": "main",
+                    "baseBranchPerPackage": undefined,
                     "commitSha": "HEAD",
                     "push": true,
                     "remote": "origin",
+                    "sign": undefined,
+                    "signingFormat": undefined,
+                    "signingKey": undefined,
                     "tag": false,
                   },
+                  "intentFilesDirectory": ".changeset",
                   "jobs": 6,
+                  "journalFilename": undefined,
+                  "linked": undefined,
                   "maxConcurrentReads": 3,
                   "maxConcurrentWrites": 4,
                   "noRegistry": true,
+                  "packages": undefined,
                   "persistVersions": true,
                   "plugins": Array [
                     "plugin-a",
@@ -82,6 +251,10 @@ describe('CLI', () => {
                   "prereleaseId": "rc",
                   "prereleaseNPMTag": undefined,
                   "registryUrl": "http://example.com",
+                  "resume": undefined,
+                  "rollback": undefined,
+                  "tagMessageTemplate": undefined,
+                  "tagTemplate": undefined,
                   "topological": true,
                   "topologicalDev": true,
                 }
@@ -94,6 +267,7 @@ describe('CLI', () => {
                 require('./cli')
             })
             await new Promise((r) => setTimeout(r))
+            // eslint-disable-next-line jest/no-large-snapshots
             expect(
                 (monodeploy as jest.MockedFunction<typeof monodeploy>).mock
                     .calls[0][0],
@@ -102,30 +276,50 @@ describe('CLI', () => {
                   "access": undefined,
                   "autoCommit": undefined,
                   "autoCommitMessage": undefined,
+                  "changelogArchiveFilename": undefined,
                   "changelogFilename": undefined,
+                  "changelogMaxAge": undefined,
+                  "changelogMaxEntries": undefined,
+                  "changelogStoreFilename": undefined,
                   "changesetFilename": undefined,
+                  "changesetFormat": undefined,
                   "changesetIgnorePatterns": undefined,
+                  "changesetSchemaVersion": undefined,
                   "conventionalChangelogConfig": undefined,
                   "cwd": undefined,
+                  "dependentBumpPolicy": undefined,
                   "dryRun": undefined,
+                  "fixed": undefined,
                   "forceWriteChangeFiles": undefined,
                   "git": Object {
                     "baseBranch": undefined,
+                    "baseBranchPerPackage": undefined,
                     "commitSha": undefined,
                     "push": undefined,
                     "remote": undefined,
+                    "sign": undefined,
+                    "signingFormat": undefined,
+                    "signingKey": undefined,
                     "tag": undefined,
                   },
+                  "intentFilesDirectory": undefined,
                   "jobs": 0,
+                  "journalFilename": undefined,
+                  "linked": undefined,
                   "maxConcurrentReads": 0,
                   "maxConcurrentWrites": 0,
                   "noRegistry": undefined,
+                  "packages": undefined,
                   "persistVersions": undefined,
                   "plugins": undefined,
                   "prerelease": false,
                   "prereleaseId": undefined,
                   "prereleaseNPMTag": undefined,
                   "registryUrl": undefined,
+                  "resume": undefined,
+                  "rollback": undefined,
+                  "tagMessageTemplate": undefined,
+                  "tagTemplate": undefined,
                   "topological": undefined,
                   "topologicalDev": undefined,
                 }
@@ -267,6 +461,7 @@ describe('CLI', () => {
                     require('./cli')
                 })
                 await new Promise((r) => setTimeout(r))
+                // eslint-disable-next-line jest/no-large-snapshots
                 expect(
                     (monodeploy as jest.MockedFunction<typeof monodeploy>).mock
                         .calls[0][0],
@@ -275,24 +470,40 @@ describe('CLI', () => {
                       "access": "public",
                       "autoCommit": true,
                       "autoCommitMessage": "chore: release",
+                      "changelogArchiveFilename": undefined,
                       "changelogFilename": "from_file.changelog.md",
+                      "changelogMaxAge": undefined,
+                      "changelogMaxEntries": undefined,
+                      "changelogStoreFilename": undefined,
                       "changesetFilename": "from_file.changes.json",
+                      "changesetFormat": undefined,
                       "changesetIgnorePatterns": undefined,
+                      "changesetSchemaVersion": undefined,
                       "conventionalChangelogConfig": "@my/config-from-file",
                       "cwd": undefined,
+                      "dependentBumpPolicy": undefined,
                       "dryRun": true,
+                      "fixed": undefined,
                       "forceWriteChangeFiles": true,
                       "git": Object {
                         "baseBranch": "main",
+                        "baseBranchPerPackage": undefined,
                         "commitSha": "HEAD",
                         "push": true,
                         "remote": "origin",
+                        "sign": undefined,
+                        "signingFormat": undefined,
+                        "signingKey": undefined,
                         "tag": true,
                       },
+                      "intentFilesDirectory": undefined,
                       "jobs": 6,
+                      "journalFilename": undefined,
+                      "linked": undefined,
                       "maxConcurrentReads": 3,
                       "maxConcurrentWrites": 5,
                       "noRegistry": false,
+                      "packages": undefined,
                       "persistVersions": true,
                       "plugins": Array [
                         "plugin-a",
@@ -302,6 +513,10 @@ describe('CLI', () => {
                       "prereleaseId": "alpha",
                       "prereleaseNPMTag": "beta",
                       "registryUrl": "http://example.com",
+                      "resume": undefined,
+                      "rollback": undefined,
+                      "tagMessageTemplate": undefined,
+                      "tagTemplate": undefined,
                       "topological": true,
                       "topologicalDev": true,
                     }
@@ -354,36 +569,57 @@ describe('CLI', () => {
                 const config = (
                     monodeploy as jest.MockedFunction<typeof monodeploy>
                 ).mock.calls[0][0]
+                // eslint-disable-next-line jest/no-large-snapshots
                 expect({ ...config, cwd: config.cwd ? '/tmp/cwd' : null })
                     .toMatchInlineSnapshot(`
                     Object {
                       "access": "public",
                       "autoCommit": undefined,
                       "autoCommitMessage": undefined,
+                      "changelogArchiveFilename": undefined,
                       "changelogFilename": "from_file.changelog.md",
+                      "changelogMaxAge": undefined,
+                      "changelogMaxEntries": undefined,
+                      "changelogStoreFilename": undefined,
                       "changesetFilename": "from_file.changes.json",
+                      "changesetFormat": undefined,
                       "changesetIgnorePatterns": undefined,
+                      "changesetSchemaVersion": undefined,
                       "conventionalChangelogConfig": "@my/config-from-file",
                       "cwd": "/tmp/cwd",
+                      "dependentBumpPolicy": undefined,
                       "dryRun": true,
+                      "fixed": undefined,
                       "forceWriteChangeFiles": true,
                       "git": Object {
                         "baseBranch": "main",
+                        "baseBranchPerPackage": undefined,
                         "commitSha": "HEAD",
                         "push": true,
                         "remote": "origin",
+                        "sign": undefined,
+                        "signingFormat": undefined,
+                        "signingKey": undefined,
                         "tag": false,
                       },
+                      "intentFilesDirectory": undefined,
                       "jobs": 6,
+                      "journalFilename": undefined,
+                      "linked": undefined,
                       "maxConcurrentReads": 6,
                       "maxConcurrentWrites": 2,
                       "noRegistry": false,
+                      "packages": undefined,
                       "persistVersions": true,
                       "plugins": undefined,
                       "prerelease": false,
                       "prereleaseId": undefined,
                       "prereleaseNPMTag": "alpha",
                       "registryUrl": "http://example.com",
+                      "resume": undefined,
+                      "rollback": undefined,
+                      "tagMessageTemplate": undefined,
+                      "tagTemplate": undefined,
                       "topological": true,
                       "topologicalDev": true,
                     }
@@ -435,39 +671,60 @@ describe('CLI', () => {
                 const config = (
                     monodeploy as jest.MockedFunction<typeof monodeploy>
                 ).mock.calls[0][0]
+                // eslint-disable-next-line jest/no-large-snapshots
                 expect({ ...config, cwd: config.cwd ? '/tmp/cwd' : null })
                     .toMatchInlineSnapshot(`
                     Object {
                       "access": "public",
                       "autoCommit": undefined,
                       "autoCommitMessage": undefined,
+                      "changelogArchiveFilename": undefined,
                       "changelogFilename": "from_file.changelog.md",
+                      "changelogMaxAge": undefined,
+                      "changelogMaxEntries": undefined,
+                      "changelogStoreFilename": undefined,
                       "changesetFilename": "from_file.changes.json",
+                      "changesetFormat": undefined,
                       "changesetIgnorePatterns": Array [
                         "*.test.js",
                         "*.snap",
                       ],
+                      "changesetSchemaVersion": undefined,
                       "conventionalChangelogConfig": "@my/config-from-file",
                       "cwd": "/tmp/cwd",
+                      "dependentBumpPolicy": undefined,
                       "dryRun": true,
+                      "fixed": undefined,
                       "forceWriteChangeFiles": true,
                       "git": Object {
                         "baseBranch": "main",
+                        "baseBranchPerPackage": undefined,
                         "commitSha": "HEAD",
                         "push": true,
                         "remote": "origin",
+                        "sign": undefined,
+                        "signingFormat": undefined,
+                        "signingKey": undefined,
                         "tag": false,
                       },
+                      "intentFilesDirectory": undefined,
                       "jobs": 6,
+                      "journalFilename": undefined,
+                      "linked": undefined,
                       "maxConcurrentReads": 2,
                       "maxConcurrentWrites": 1,
                       "noRegistry": false,
+                      "packages": undefined,
                       "persistVersions": true,
                       "plugins": undefined,
                       "prerelease": false,
                       "prereleaseId": undefined,
                       "prereleaseNPMTag": undefined,
                       "registryUrl": "http://example.com",
+                      "resume": undefined,
+                      "rollback": undefined,
+                      "tagMessageTemplate": undefined,
+                      "tagTemplate": undefined,
                       "topological": true,
                       "topologicalDev": true,
                     }
@@ -477,6 +734,447 @@ describe('CLI', () => {
             }
         })
 
+        it('reads per-package overrides and version groups from the config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    packages: {
+                        '@my/*': { access: 'restricted' },
+                        '@my/pkg-1': {
+                            changesetIgnorePatterns: ['*.test.js'],
+                        },
+                    },
+                    fixed: [['@my/core', '@my/adapter-*']],
+                    linked: [['@my/plugin-*']],
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                expect(
+                    (monodeploy as jest.MockedFunction<typeof monodeploy>).mock
+                        .calls[0][0],
+                ).toEqual(
+                    expect.objectContaining({
+                        packages: {
+                            '@my/*': { access: 'restricted' },
+                            '@my/pkg-1': {
+                                changesetIgnorePatterns: ['*.test.js'],
+                            },
+                        },
+                        fixed: [['@my/core', '@my/adapter-*']],
+                        linked: [['@my/plugin-*']],
+                    }),
+                )
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the dependent bump policy from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    dependentBumpPolicy: 'mirror',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --dependent-bump-policy out-of-range`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].dependentBumpPolicy).toBe('mirror')
+                expect(calls[1][0].dependentBumpPolicy).toBe('out-of-range')
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads plugin options from the config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    plugins: [
+                        'plugin-a',
+                        ['plugin-b', { assets: true }],
+                    ],
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].plugins).toEqual([
+                    'plugin-a',
+                    ['plugin-b', { assets: true }],
+                ])
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the release journal options from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    journalFilename: '.monodeploy/journal.json',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --journal-filename journal.json --resume`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        journalFilename: '.monodeploy/journal.json',
+                        resume: undefined,
+                    }),
+                )
+                expect(calls[1][0]).toEqual(
+                    expect.objectContaining({
+                        journalFilename: 'journal.json',
+                        resume: true,
+                    }),
+                )
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the rollback mode from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    rollback: 'deprecate',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(`--config-file ${configFilename} --rollback unpublish`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].rollback).toBe('deprecate')
+                expect(calls[1][0].rollback).toBe('unpublish')
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the changeset schema version from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    changesetSchemaVersion: 1,
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --changeset-schema-version 2`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].changesetSchemaVersion).toBe(1)
+                expect(calls[1][0].changesetSchemaVersion).toBe(2)
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the changeset format from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    changesetFormat: 'yaml',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --changeset-format github-actions`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].changesetFormat).toBe('yaml')
+                expect(calls[1][0].changesetFormat).toBe('github-actions')
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the per-package base branch option from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    git: { baseBranchPerPackage: true },
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --no-git-base-branch-per-package`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].git?.baseBranchPerPackage).toBe(true)
+                expect(calls[1][0].git?.baseBranchPerPackage).toBe(false)
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the tag template from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    tagTemplate: 'v{version}',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --tag-template {unscopedName}-v{version}`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].tagTemplate).toBe('v{version}')
+                expect(calls[1][0].tagTemplate).toBe(
+                    '{unscopedName}-v{version}',
+                )
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the signing options from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    git: { sign: true, signingKey: 'ABCDEF' },
+                    tagMessageTemplate: '{tag}',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --git-signing-key key.pub --git-signing-format ssh --tag-message-template {changelog}`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0].git).toEqual(
+                    expect.objectContaining({
+                        sign: true,
+                        signingKey: 'ABCDEF',
+                        signingFormat: undefined,
+                    }),
+                )
+                expect(calls[0][0].tagMessageTemplate).toBe('{tag}')
+                expect(calls[1][0].git).toEqual(
+                    expect.objectContaining({
+                        sign: true,
+                        signingKey: 'key.pub',
+                        signingFormat: 'ssh',
+                    }),
+                )
+                expect(calls[1][0].tagMessageTemplate).toBe('{changelog}')
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
+        it('reads the changelog archive options from the cli or config file', async () => {
+            const configFileContents = `
+                module.exports = {
+                    changelogMaxEntries: 10,
+                    changelogArchiveFilename: 'archive/<year>.md',
+                }
+            `
+
+            const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'monorepo-'))
+            try {
+                const configFilename = path.resolve(
+                    path.join(dir, 'monodeploy.config.js'),
+                )
+                await fs.writeFile(configFilename, configFileContents, 'utf-8')
+                setArgs(`--config-file ${configFilename}`)
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+                setArgs(
+                    `--config-file ${configFilename} --changelog-max-entries 5 --changelog-max-age 365`,
+                )
+                jest.isolateModules(() => {
+                    require('./cli')
+                })
+                await new Promise((r) => setTimeout(r))
+
+                const calls = (
+                    monodeploy as jest.MockedFunction<typeof monodeploy>
+                ).mock.calls
+                expect(calls[0][0]).toEqual(
+                    expect.objectContaining({
+                        changelogMaxEntries: 10,
+                        changelogMaxAge: undefined,
+                        changelogArchiveFilename: 'archive/<year>.md',
+                    }),
+                )
+                expect(calls[1][0]).toEqual(
+                    expect.objectContaining({
+                        changelogMaxEntries: 5,
+                        changelogMaxAge: 365,
+                        changelogArchiveFilename: 'archive/<year>.md',
+                    }),
+                )
+            } finally {
+                await fs.rm(dir, { recursive: true, force: true })
+            }
+        })
+
         it('gives precedence to cli flags over config file', async () => {
             const configFileContents = `
             module.exports = {
@@ -521,6 +1219,7 @@ describe('CLI', () => {
                     require('./cli')
                 })
                 await new Promise((r) => setTimeout(r))
+                // eslint-disable-next-line jest/no-large-snapshots
                 expect(
                     (monodeploy as jest.MockedFunction<typeof monodeploy>).mock
                         .calls[0][0],
@@ -529,30 +1228,50 @@ describe('CLI', () => {
                       "access": "public",
                       "autoCommit": true,
                       "autoCommitMessage": "chore: release",
+                      "changelogArchiveFilename": undefined,
                       "changelogFilename": "from_file.changelog.md",
+                      "changelogMaxAge": undefined,
+                      "changelogMaxEntries": undefined,
+                      "changelogStoreFilename": undefined,
                       "changesetFilename": "from_file.changes.json",
+                      "changesetFormat": undefined,
                       "changesetIgnorePatterns": undefined,
+                      "changesetSchemaVersion": undefined,
                       "conventionalChangelogConfig": "@my/config-from-file",
                       "cwd": undefined,
+                      "dependentBumpPolicy": undefined,
                       "dryRun": true,
+                      "fixed": undefined,
                       "forceWriteChangeFiles": true,
                       "git": Object {
                         "baseBranch": "next",
+                        "baseBranchPerPackage": undefined,
                         "commitSha": "HEAD",
                         "push": true,
                         "remote": "origin",
+                        "sign": undefined,
+                        "signingFormat": undefined,
+                        "signingKey": undefined,
                         "tag": false,
                       },
+                      "intentFilesDirectory": undefined,
                       "jobs": 3,
+                      "journalFilename": undefined,
+                      "linked": undefined,
                       "maxConcurrentReads": 10,
                       "maxConcurrentWrites": 11,
                       "noRegistry": false,
+                      "packages": undefined,
                       "persistVersions": true,
                       "plugins": undefined,
                       "prerelease": false,
                       "prereleaseId": "beta",
                       "prereleaseNPMTag": undefined,
                       "registryUrl": "http://example.com",
+                      "resume": undefined,
+                      "rollback": undefined,
+                      "tagMessageTemplate": undefined,
+                      "tagTemplate": undefined,
                       "topological": true,
                       "topologicalDev": true,
                     }
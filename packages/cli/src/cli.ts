@@ -1,11 +1,40 @@
-import monodeploy from '@monodeploy/node'
+import monodeploy, {
+    backfillChangelog,
+    changelog,
+    preview,
+    publish,
+    renderChangelog,
+    status,
+    tag,
+    version,
+} from '@monodeploy/node'
 import { MonodeployConfiguration, RecursivePartial } from '@monodeploy/types'
 import yargs from 'yargs'
 
+import formatPreview, { formatStatus } from './formatPreview'
 import readConfigFile from './readConfigFile'
 import { ArgOutput, ConfigFile } from './types'
 
 const { argv } = yargs
+    .command('$0', 'Release the pending changes')
+    .command('status', 'List the pending version bumps')
+    .command(
+        'preview',
+        'Preview the pending release without modifying the working tree',
+    )
+    .command(
+        'version',
+        'Apply the pending version bumps to the package manifests',
+    )
+    .command('changelog', 'Write the changeset and changelog entries')
+    .command(
+        'publish',
+        'Publish the untagged versions declared by the package manifests',
+    )
+    .command(
+        'tag',
+        'Create git tags for the versions declared by the package manifests',
+    )
     .option('config-file', {
         type: 'string',
         description: 'Config file from which to read monodeploy options',
@@ -45,6 +74,26 @@ const { argv } = yargs
         description:
             'Whether to tag the commit with the published version using git',
     })
+    .option('git-sign', {
+        type: 'boolean',
+        description: 'Whether to sign the release tags and commits',
+    })
+    .option('git-signing-key', {
+        type: 'string',
+        description:
+            'Key to sign the release tags and commits with (defaults to the git user.signingKey)',
+    })
+    .option('git-signing-format', {
+        type: 'string',
+        choices: ['openpgp', 'x509', 'ssh'],
+        description:
+            'Format of the signatures (defaults to the git gpg.format)',
+    })
+    .option('git-base-branch-per-package', {
+        type: 'boolean',
+        description:
+            'Whether to compare each package against its own most recent release tag (defaults to true if no base branch is given)',
+    })
     .option('log-level', {
         type: 'number',
         description: 'Log level',
@@ -62,6 +111,26 @@ const { argv } = yargs
         type: 'string',
         description: 'Changelog file to prepend changelog entries',
     })
+    .option('changelog-max-entries', {
+        type: 'number',
+        description:
+            'Maximum number of entries to keep in the changelog file, older entries are moved to an archive',
+    })
+    .option('changelog-max-age', {
+        type: 'number',
+        description:
+            'Maximum age in days of the entries kept in the changelog file, older entries are moved to an archive',
+    })
+    .option('changelog-archive-filename', {
+        type: 'string',
+        description:
+            'Archive file for pruned changelog entries, relative to the changelog file (supports the <year> token)',
+    })
+    .option('changelog-store-filename', {
+        type: 'string',
+        description:
+            'JSON file to record the released versions and their changelog entries in',
+    })
     .option('force-write-change-files', {
         type: 'boolean',
         description:
@@ -130,6 +199,11 @@ const { argv } = yargs
         description:
             'Globs to use in filtering out files when determining version bumps',
     })
+    .option('intent-files-directory', {
+        type: 'string',
+        description:
+            'Directory of intent files to use in determining version strategies, instead of commit messages',
+    })
     .option('prerelease', {
         type: 'boolean',
         description: 'Whether to publish using a prerelease strategy',
@@ -143,7 +217,64 @@ const { argv } = yargs
         type: 'string',
         description: 'NPM dist tag to use for pre-release versions',
     })
-    .demandCommand(0, 0)
+    .option('dependent-bump-policy', {
+        type: 'string',
+        choices: ['patch', 'out-of-range', 'mirror'],
+        description:
+            'How to version the dependents of released packages (defaults to patch)',
+    })
+    .option('journal-filename', {
+        type: 'string',
+        description:
+            'File to record the progress of a release in, so that it can be resumed',
+    })
+    .option('resume', {
+        type: 'boolean',
+        description:
+            'Resume an interrupted release from the release journal, skipping completed steps',
+        default: false,
+    })
+    .option('rollback', {
+        type: 'string',
+        choices: ['unpublish', 'deprecate'],
+        description:
+            'Roll back a failed release by deleting its tags, and unpublishing or deprecating its published versions',
+    })
+    .option('changeset-schema-version', {
+        type: 'number',
+        choices: [1, 2],
+        description:
+            'Version of the changeset file format (defaults to 1, set to 2 for the versioned document)',
+    })
+    .option('changeset-format', {
+        type: 'string',
+        choices: ['json', 'yaml', 'markdown', 'github-actions'],
+        description:
+            'Format of the changeset file (inferred from the changeset filename if not set)',
+    })
+    .option('tag-template', {
+        type: 'string',
+        description:
+            'Template of the git release tags, with {name}, {unscopedName} and {version} placeholders (defaults to {name}@{version})',
+    })
+    .option('tag-message-template', {
+        type: 'string',
+        description:
+            'Template of the git release tag messages, with {tag}, {name}, {unscopedName}, {version} and {changelog} placeholders (defaults to {tag})',
+    })
+    .option('backfill', {
+        type: 'boolean',
+        description:
+            'With the changelog command, generate the missing changelog entries of past releases from the git tags',
+        default: false,
+    })
+    .option('render', {
+        type: 'boolean',
+        description:
+            'With the changelog command, re-render the changelog entries from the changelog store',
+        default: false,
+    })
+    .demandCommand(0, 1)
     .strict()
     .wrap(yargs.terminalWidth()) as { argv: ArgOutput }
 
@@ -186,6 +317,19 @@ if (argv.logLevel !== undefined && argv.logLevel !== null) {
                     argv.gitTag === false
                         ? argv.gitTag
                         : configFromFile?.git?.tag ?? undefined,
+                baseBranchPerPackage:
+                    argv.gitBaseBranchPerPackage ??
+                    configFromFile?.git?.baseBranchPerPackage ??
+                    undefined,
+                sign: argv.gitSign ?? configFromFile?.git?.sign ?? undefined,
+                signingKey:
+                    argv.gitSigningKey ??
+                    configFromFile?.git?.signingKey ??
+                    undefined,
+                signingFormat:
+                    argv.gitSigningFormat ??
+                    configFromFile?.git?.signingFormat ??
+                    undefined,
             },
             conventionalChangelogConfig:
                 argv.conventionalChangelogConfig ??
@@ -199,10 +343,30 @@ if (argv.logLevel !== undefined && argv.logLevel !== null) {
                 argv.changesetIgnorePatterns ??
                 configFromFile?.changesetIgnorePatterns ??
                 undefined,
+            intentFilesDirectory:
+                argv.intentFilesDirectory ??
+                configFromFile?.intentFilesDirectory ??
+                undefined,
             changelogFilename:
                 argv.prependChangelog ??
                 configFromFile?.changelogFilename ??
                 undefined,
+            changelogMaxEntries:
+                argv.changelogMaxEntries ??
+                configFromFile?.changelogMaxEntries ??
+                undefined,
+            changelogMaxAge:
+                argv.changelogMaxAge ??
+                configFromFile?.changelogMaxAge ??
+                undefined,
+            changelogArchiveFilename:
+                argv.changelogArchiveFilename ??
+                configFromFile?.changelogArchiveFilename ??
+                undefined,
+            changelogStoreFilename:
+                argv.changelogStoreFilename ??
+                configFromFile?.changelogStoreFilename ??
+                undefined,
             forceWriteChangeFiles:
                 argv.forceWriteChangeFiles ||
                 configFromFile?.forceWriteChangeFiles,
@@ -239,9 +403,53 @@ if (argv.logLevel !== undefined && argv.logLevel !== null) {
                 argv.prereleaseNPMTag ??
                 configFromFile?.prereleaseNPMTag ??
                 undefined,
+            packages: configFromFile?.packages ?? undefined,
+            fixed: configFromFile?.fixed ?? undefined,
+            linked: configFromFile?.linked ?? undefined,
+            dependentBumpPolicy:
+                argv.dependentBumpPolicy ??
+                configFromFile?.dependentBumpPolicy ??
+                undefined,
+            journalFilename:
+                argv.journalFilename ??
+                configFromFile?.journalFilename ??
+                undefined,
+            resume: argv.resume || configFromFile?.resume,
+            rollback: argv.rollback ?? configFromFile?.rollback ?? undefined,
+            changesetSchemaVersion:
+                argv.changesetSchemaVersion ??
+                configFromFile?.changesetSchemaVersion ??
+                undefined,
+            changesetFormat:
+                argv.changesetFormat ??
+                configFromFile?.changesetFormat ??
+                undefined,
+            tagTemplate:
+                argv.tagTemplate ?? configFromFile?.tagTemplate ?? undefined,
+            tagMessageTemplate:
+                argv.tagMessageTemplate ??
+                configFromFile?.tagMessageTemplate ??
+                undefined,
+        }
+
+        const commands: Record<string, () => Promise<unknown>> = {
+            status: async () =>
+                process.stdout.write(formatStatus(await status(config))),
+            preview: async () =>
+                process.stdout.write(formatPreview(await preview(config))),
+            version: () => version(config),
+            changelog: () => {
+                if (argv.backfill) return backfillChangelog(config)
+                if (argv.render) return renderChangelog(config)
+                return changelog(config)
+            },
+            publish: () => publish(config),
+            tag: () => tag(config),
         }
 
-        await monodeploy(config)
+        const command =
+            commands[String(argv._[0])] ?? (() => monodeploy(config))
+        await command()
     } catch (err) {
         console.error(err)
         process.exitCode = 1
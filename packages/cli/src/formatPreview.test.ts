@@ -0,0 +1,88 @@
+import formatPreview, { formatStatus } from './formatPreview'
+
+describe('formatPreview', () => {
+    it('renders version changes, manifest diffs and changelogs', () => {
+        const output = formatPreview({
+            packages: [
+                {
+                    name: 'pkg-1',
+                    previousVersion: '1.0.0',
+                    version: '1.1.0',
+                    strategy: 'minor',
+                    source: 'explicit',
+                    manifestDiff: [
+                        '--- a/packages/pkg-1/package.json',
+                        '+++ b/packages/pkg-1/package.json',
+                        '@@ -1,3 +1,3 @@',
+                        ' {',
+                        '-  "version": "1.0.0"',
+                        '+  "version": "1.1.0"',
+                        ' }',
+                        '',
+                    ].join('\n'),
+                    changelog: '## 1.1.0\n\n* feat: thing\n',
+                },
+                {
+                    name: 'pkg-dependent',
+                    previousVersion: null,
+                    version: '0.0.1',
+                    strategy: 'patch',
+                    source: 'implicit',
+                    manifestDiff: '',
+                    changelog: null,
+                },
+            ],
+        })
+
+        expect(output).toMatchInlineSnapshot(`
+            "Version Changes
+
+            Package        Previous  Next   Strategy  Source
+            pkg-1          1.0.0     1.1.0  minor     explicit
+            pkg-dependent  -         0.0.1  patch     implicit
+
+            Manifest Changes
+
+            --- a/packages/pkg-1/package.json
+            +++ b/packages/pkg-1/package.json
+            @@ -1,3 +1,3 @@
+             {
+            -  \\"version\\": \\"1.0.0\\"
+            +  \\"version\\": \\"1.1.0\\"
+             }
+
+            Changelog Entries
+
+            ## 1.1.0
+
+            * feat: thing
+            "
+        `)
+    })
+
+    it('reports when there is nothing to release', () => {
+        expect(formatPreview({ packages: [] })).toBe(
+            'No packages need to be updated.\n',
+        )
+    })
+
+    it('renders the pending version bumps', () => {
+        expect(
+            formatStatus([
+                {
+                    name: 'pkg-1',
+                    previousVersion: '1.0.0',
+                    version: '2.0.0',
+                    strategy: 'major',
+                    source: 'explicit',
+                },
+            ]),
+        ).toBe(
+            [
+                'Package  Previous  Next   Strategy  Source',
+                'pkg-1    1.0.0     2.0.0  major     explicit',
+                '',
+            ].join('\n'),
+        )
+    })
+})
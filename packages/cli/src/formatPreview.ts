@@ -0,0 +1,73 @@
+import type { ReleasePreview, ReleaseStatusRecord } from '@monodeploy/types'
+
+const formatTable = (rows: string[][]): string[] => {
+    const widths = rows[0].map((_, column) =>
+        Math.max(...rows.map((row) => row[column].length)),
+    )
+    return rows.map((row) =>
+        row
+            .map((cell, column) => cell.padEnd(widths[column]))
+            .join('  ')
+            .trimEnd(),
+    )
+}
+
+const formatVersionTable = (records: ReleaseStatusRecord[]): string[] =>
+    formatTable([
+        ['Package', 'Previous', 'Next', 'Strategy', 'Source'],
+        ...records.map((record) => [
+            record.name,
+            record.previousVersion ?? '-',
+            record.version,
+            record.strategy ?? '-',
+            record.source,
+        ]),
+    ])
+
+/**
+ * Renders the pending version bumps as a table.
+ */
+export const formatStatus = (records: ReleaseStatusRecord[]): string => {
+    if (!records.length) {
+        return 'No packages need to be updated.\n'
+    }
+    return `${formatVersionTable(records).join('\n')}\n`
+}
+
+/**
+ * Renders a release preview as a human readable report.
+ */
+const formatPreview = (releasePreview: ReleasePreview): string => {
+    if (!releasePreview.packages.length) {
+        return 'No packages need to be updated.\n'
+    }
+
+    const lines = [
+        'Version Changes',
+        '',
+        ...formatVersionTable(releasePreview.packages),
+    ]
+
+    const manifestDiffs = releasePreview.packages
+        .map((record) => record.manifestDiff)
+        .filter(Boolean)
+    if (manifestDiffs.length) {
+        lines.push(
+            '',
+            'Manifest Changes',
+            '',
+            manifestDiffs.join('\n').trimEnd(),
+        )
+    }
+
+    const changelogs = releasePreview.packages
+        .map((record) => record.changelog?.trim())
+        .filter(Boolean)
+    if (changelogs.length) {
+        lines.push('', 'Changelog Entries', '', changelogs.join('\n\n'))
+    }
+
+    return `${lines.join('\n')}\n`
+}
+
+export default formatPreview
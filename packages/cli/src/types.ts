@@ -1,6 +1,15 @@
-import { MonodeployConfiguration, RecursivePartial } from '@monodeploy/types'
+import {
+    ChangesetFormat,
+    ChangesetSchemaVersion,
+    DependentBumpPolicy,
+    GitSigningFormat,
+    MonodeployConfiguration,
+    RecursivePartial,
+    RollbackMode,
+} from '@monodeploy/types'
 
 export interface ArgOutput {
+    _: Array<string | number>
     configFile?: string
     registryUrl?: string
     registry?: boolean
@@ -10,6 +19,10 @@ export interface ArgOutput {
     gitCommitSha?: string
     gitRemote?: string
     gitTag?: boolean
+    gitBaseBranchPerPackage?: boolean
+    gitSign?: boolean
+    gitSigningKey?: string
+    gitSigningFormat?: GitSigningFormat
     logLevel?: number
     autoCommit?: boolean
     autoCommitMessage?: string
@@ -17,6 +30,10 @@ export interface ArgOutput {
     changesetFilename?: string
     forceWriteChangeFiles?: boolean
     prependChangelog?: string
+    changelogMaxEntries?: number
+    changelogMaxAge?: number
+    changelogArchiveFilename?: string
+    changelogStoreFilename?: string
     access?: string
     push?: boolean
     persistVersions?: boolean
@@ -27,9 +44,20 @@ export interface ArgOutput {
     maxConcurrentWrites?: number
     plugins?: Array<string>
     changesetIgnorePatterns?: Array<string>
+    intentFilesDirectory?: string
     prerelease?: boolean
     prereleaseId?: string
     prereleaseNPMTag?: string
+    dependentBumpPolicy?: DependentBumpPolicy
+    journalFilename?: string
+    resume?: boolean
+    rollback?: RollbackMode
+    changesetSchemaVersion?: ChangesetSchemaVersion
+    changesetFormat?: ChangesetFormat
+    tagTemplate?: string
+    tagMessageTemplate?: string
+    backfill?: boolean
+    render?: boolean
 }
 
 export type ConfigFile = RecursivePartial<Omit<MonodeployConfiguration, 'cwd'>>
@@ -13,11 +13,16 @@ const schema: JSONSchemaType<ConfigFile> = {
         conventionalChangelogConfig: { type: 'string', nullable: true },
         changesetFilename: { type: 'string', nullable: true },
         changelogFilename: { type: 'string', nullable: true },
+        changelogMaxEntries: { type: 'integer', nullable: true, minimum: 1 },
+        changelogMaxAge: { type: 'integer', nullable: true, minimum: 1 },
+        changelogArchiveFilename: { type: 'string', nullable: true },
+        changelogStoreFilename: { type: 'string', nullable: true },
         changesetIgnorePatterns: {
             type: 'array',
             nullable: true,
             items: { type: 'string' },
         },
+        intentFilesDirectory: { type: 'string', nullable: true },
         forceWriteChangeFiles: { type: 'boolean', nullable: true },
         access: { type: 'string', nullable: true },
         persistVersions: { type: 'boolean', nullable: true },
@@ -36,15 +41,103 @@ const schema: JSONSchemaType<ConfigFile> = {
                 remote: { type: 'string', nullable: true },
                 push: { type: 'boolean', nullable: true },
                 tag: { type: 'boolean', nullable: true },
+                baseBranchPerPackage: { type: 'boolean', nullable: true },
+                sign: { type: 'boolean', nullable: true },
+                signingKey: { type: 'string', nullable: true },
+                signingFormat: {
+                    type: 'string',
+                    nullable: true,
+                    enum: ['openpgp', 'x509', 'ssh'],
+                },
             },
             required: [],
             additionalProperties: false,
             nullable: true,
         },
-        plugins: { type: 'array', nullable: true, items: { type: 'string' } },
+        plugins: {
+            type: 'array',
+            nullable: true,
+            items: {
+                anyOf: [
+                    { type: 'string' },
+                    {
+                        type: 'array',
+                        items: [
+                            { type: 'string' },
+                            { type: 'object', required: [] },
+                        ],
+                        minItems: 2,
+                        additionalItems: false,
+                    },
+                ],
+            },
+        },
         prerelease: { type: 'boolean', nullable: true },
         prereleaseId: { type: 'string', nullable: true },
         prereleaseNPMTag: { type: 'string', nullable: true },
+        packages: {
+            type: 'object',
+            required: [],
+            additionalProperties: {
+                type: 'object',
+                properties: {
+                    access: { type: 'string', nullable: true },
+                    prerelease: { type: 'boolean', nullable: true },
+                    prereleaseNPMTag: { type: 'string', nullable: true },
+                    changelogFilename: { type: 'string', nullable: true },
+                    conventionalChangelogConfig: {
+                        type: 'string',
+                        nullable: true,
+                    },
+                    changesetIgnorePatterns: {
+                        type: 'array',
+                        nullable: true,
+                        items: { type: 'string' },
+                    },
+                },
+                required: [],
+                additionalProperties: false,
+            },
+            nullable: true,
+        },
+        fixed: {
+            type: 'array',
+            nullable: true,
+            items: { type: 'array', items: { type: 'string' } },
+        },
+        linked: {
+            type: 'array',
+            nullable: true,
+            items: { type: 'array', items: { type: 'string' } },
+        },
+        dependentBumpPolicy: {
+            type: 'string',
+            nullable: true,
+            enum: ['patch', 'out-of-range', 'mirror'],
+        },
+        journalFilename: { type: 'string', nullable: true },
+        resume: { type: 'boolean', nullable: true },
+        rollback: {
+            type: 'string',
+            nullable: true,
+            enum: ['unpublish', 'deprecate'],
+        },
+        changesetSchemaVersion: {
+            type: 'integer',
+            nullable: true,
+            enum: [1, 2],
+        },
+        changesetFormat: {
+            type: 'string',
+            nullable: true,
+            enum: ['json', 'yaml', 'markdown', 'github-actions'],
+        },
+        tagTemplate: {
+            type: 'string',
+            nullable: true,
+            pattern: '\\{version\\}',
+        },
+        tagMessageTemplate: { type: 'string', nullable: true },
     },
     required: [],
     additionalProperties: false,
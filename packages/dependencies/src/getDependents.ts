@@ -1,41 +1,13 @@
 import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
-import { Workspace, structUtils } from '@yarnpkg/core'
+
+import getDirectDependents from './getDirectDependents'
 
 const getDependents = async (
     config: MonodeployConfiguration,
     context: YarnContext,
     packageNames: Set<string>,
 ): Promise<Set<string>> => {
-    const identToWorkspace = new Map<string, Workspace>()
-
-    // Enable easy lookup of workspace name to workspace
-    for (const workspace of context.project.workspaces) {
-        if (workspace.manifest.private || !workspace.manifest.name) continue
-        const ident = structUtils.stringifyIdent(workspace.manifest.name)
-        identToWorkspace.set(ident, workspace)
-    }
-
-    // Enable O(1) lookup of Workspace -> Direct Dependents
-    const identToDirectDependents = new Map<string, Set<string>>()
-    for (const ident of identToWorkspace.keys()) {
-        const workspace = identToWorkspace.get(ident)
-        if (!workspace) continue
-        for (const key of ['dependencies', 'peerDependencies']) {
-            const dependencies = workspace.manifest.getForScope(key)
-            for (const dependency of dependencies.values()) {
-                const dependencyIdent = structUtils.stringifyIdent(dependency)
-
-                // Prune invalid workspace candidates (e.g. private)
-                if (!identToWorkspace.has(dependencyIdent)) continue
-
-                const dependents =
-                    identToDirectDependents.get(dependencyIdent) ??
-                    new Set<string>()
-                dependents.add(ident)
-                identToDirectDependents.set(dependencyIdent, dependents)
-            }
-        }
-    }
+    const identToDirectDependents = getDirectDependents(context)
 
     const allDependents = new Set<string>()
 
@@ -52,9 +24,9 @@ const getDependents = async (
         allDependents.add(pkgName)
 
         const pkgDependents = identToDirectDependents.get(pkgName)
-        if (pkgDependents?.size) {
+        if (pkgDependents?.length) {
             for (const pkgDependent of pkgDependents) {
-                queue.unshift(pkgDependent)
+                queue.unshift(pkgDependent.name)
             }
         }
     }
@@ -0,0 +1,51 @@
+import { promises as fs } from 'fs'
+
+import { setupMonorepo } from '@monodeploy/test-utils'
+import { YarnContext } from '@monodeploy/types'
+
+import { getDirectDependents } from '.'
+
+describe('getDirectDependents', () => {
+    let context: YarnContext
+
+    beforeEach(async () => {
+        context = await setupMonorepo({
+            'pkg-1': { version: '1.0.0' },
+            'pkg-2': { dependencies: [['pkg-1', 'workspace:^1.0.0']] },
+            'pkg-3': {
+                dependencies: ['pkg-2'],
+                peerDependencies: [['pkg-1', '^1.0.0']],
+            },
+            'pkg-4': { private: true, dependencies: ['pkg-1'] },
+            'pkg-5': { devDependencies: ['pkg-1'] },
+        })
+    })
+
+    afterEach(async () => {
+        try {
+            await fs.rm(context.project.cwd, { recursive: true, force: true })
+        } catch {}
+    })
+
+    it('maps packages to their direct public dependents', async () => {
+        const dependents = getDirectDependents(context)
+
+        expect(dependents.get('pkg-1')).toEqual([
+            {
+                name: 'pkg-2',
+                dependencyType: 'dependencies',
+            },
+            {
+                name: 'pkg-3',
+                dependencyType: 'peerDependencies',
+            },
+        ])
+        expect(dependents.get('pkg-2')).toEqual([
+            {
+                name: 'pkg-3',
+                dependencyType: 'dependencies',
+            },
+        ])
+        expect(dependents.has('pkg-3')).toBe(false)
+    })
+})
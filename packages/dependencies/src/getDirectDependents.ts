@@ -0,0 +1,50 @@
+import type { YarnContext } from '@monodeploy/types'
+import { Workspace, structUtils } from '@yarnpkg/core'
+
+export type DependencyType = 'dependencies' | 'peerDependencies'
+
+export type DirectDependent = {
+    name: string
+    dependencyType: DependencyType
+}
+
+const DEPENDENCY_TYPES: DependencyType[] = ['dependencies', 'peerDependencies']
+
+/**
+ * Returns a map of each public workspace to the public workspaces which
+ * directly depend on it.
+ */
+const getDirectDependents = (
+    context: YarnContext,
+): Map<string, DirectDependent[]> => {
+    const identToWorkspace = new Map<string, Workspace>()
+
+    // Enable easy lookup of workspace name to workspace
+    for (const workspace of context.project.workspaces) {
+        if (workspace.manifest.private || !workspace.manifest.name) continue
+        const ident = structUtils.stringifyIdent(workspace.manifest.name)
+        identToWorkspace.set(ident, workspace)
+    }
+
+    const identToDirectDependents = new Map<string, DirectDependent[]>()
+    for (const [ident, workspace] of identToWorkspace.entries()) {
+        for (const dependencyType of DEPENDENCY_TYPES) {
+            const dependencies = workspace.manifest.getForScope(dependencyType)
+            for (const dependency of dependencies.values()) {
+                const dependencyIdent = structUtils.stringifyIdent(dependency)
+
+                // Prune invalid workspace candidates (e.g. private)
+                if (!identToWorkspace.has(dependencyIdent)) continue
+
+                const dependents =
+                    identToDirectDependents.get(dependencyIdent) ?? []
+                dependents.push({ name: ident, dependencyType })
+                identToDirectDependents.set(dependencyIdent, dependents)
+            }
+        }
+    }
+
+    return identToDirectDependents
+}
+
+export default getDirectDependents
@@ -1,2 +1,4 @@
 export { default as getDependents } from './getDependents'
+export { default as getDirectDependents } from './getDirectDependents'
+export type { DependencyType, DirectDependent } from './getDirectDependents'
 export { default as getTopologicalSort } from './getTopologicalSort'
@@ -2,9 +2,34 @@ import childProcess from 'child_process'
 import util from 'util'
 
 import logging, { assertProduction } from '@monodeploy/logging'
-import { YarnContext } from '@monodeploy/types'
+import { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+
+import { getTagGlob } from './tagTemplate'
 
 const exec = util.promisify(childProcess.exec)
+const execFile = util.promisify(childProcess.execFile)
+
+export type GitSigningOptions = Pick<
+    MonodeployConfiguration['git'],
+    'sign' | 'signingKey' | 'signingFormat'
+>
+
+/**
+ * Runs git with the given arguments, without a shell, so that arbitrary
+ * messages can be passed as arguments.
+ */
+const execGit = async (
+    args: string[],
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<string> => {
+    logging.debug(`[Exec] git ${args.join(' ')}`, { report: context?.report })
+    return (await execFile('git', args, { encoding: 'utf8', cwd })).stdout
+}
+
+const getSigningFormatArgs = (signing?: GitSigningOptions): string[] =>
+    signing?.sign && signing.signingFormat
+        ? ['-c', `gpg.format=${signing.signingFormat}`]
+        : []
 
 export const gitResolveSha = async (
     ref: string,
@@ -17,6 +42,25 @@ export const gitResolveSha = async (
         .trim()
 }
 
+/**
+ * Resolves the root commit of the history of a ref, i.e. its oldest commit
+ * without a parent.
+ */
+export const gitRootCommit = async (
+    ref: string,
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<string> => {
+    const gitCommand = `git rev-list --max-parents=0 ${ref}`
+    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
+    const rootCommits = (
+        await exec(gitCommand, { encoding: 'utf8', cwd })
+    ).stdout
+        .toString()
+        .trim()
+        .split('\n')
+    return rootCommits[rootCommits.length - 1]
+}
+
 export const gitDiffTree = async (
     ref: string,
     { cwd, context }: { cwd: string; context?: YarnContext },
@@ -55,12 +99,100 @@ export const gitLog = async (
     ).stdout
 }
 
+/**
+ * Creates an annotated tag, signed if requested. The message defaults to the
+ * tag name.
+ */
 export const gitTag = async (
+    tag: string,
+    {
+        cwd,
+        context,
+        message,
+        signing,
+    }: {
+        cwd: string
+        context?: YarnContext
+        message?: string
+        signing?: GitSigningOptions
+    },
+): Promise<void> => {
+    assertProduction()
+
+    let signArgs = ['-a']
+    if (signing?.sign) {
+        signArgs = signing.signingKey ? ['-u', signing.signingKey] : ['-s']
+    }
+
+    // The message may contain markdown headings, which the default cleanup
+    // mode would strip as comments
+    await execGit(
+        [
+            ...getSigningFormatArgs(signing),
+            'tag',
+            ...signArgs,
+            '--cleanup=whitespace',
+            tag,
+            '-m',
+            message ?? tag,
+        ],
+        { cwd, context },
+    )
+}
+
+export const gitTagExists = async (
+    tag: string,
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<boolean> => {
+    const gitCommand = `git tag --list ${tag}`
+    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
+    const output = (await exec(gitCommand, { encoding: 'utf8', cwd })).stdout
+    return Boolean(output.toString().trim())
+}
+
+/**
+ * Lists the tags in the repository, along with their creation dates
+ * (as YYYY-MM-DD).
+ */
+export const gitListTags = async ({
+    cwd,
+    context,
+}: {
+    cwd: string
+    context?: YarnContext
+}): Promise<Array<{ tag: string; date: string }>> => {
+    const gitCommand = `git for-each-ref --format="%(refname:short) %(creatordate:short)" refs/tags`
+    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
+    return (await exec(gitCommand, { encoding: 'utf8', cwd })).stdout
+        .toString()
+        .split('\n')
+        .filter((line) => line.trim())
+        .map((line) => {
+            const [tag, date] = line.trim().split(' ')
+            return { tag, date }
+        })
+}
+
+export const gitDeleteTag = async (
     tag: string,
     { cwd, context }: { cwd: string; context?: YarnContext },
 ): Promise<void> => {
     assertProduction()
-    const gitCommand = `git tag ${tag} -m ${tag}`
+    const gitCommand = `git tag --delete ${tag}`
+    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
+    await exec(gitCommand, { encoding: 'utf8', cwd })
+}
+
+export const gitPushDeleteTag = async (
+    tag: string,
+    {
+        cwd,
+        remote,
+        context,
+    }: { cwd: string; remote: string; context?: YarnContext },
+): Promise<void> => {
+    assertProduction()
+    const gitCommand = `git push --no-verify ${remote} :refs/tags/${tag}`
     logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
     await exec(gitCommand, { encoding: 'utf8', cwd })
 }
@@ -119,27 +251,43 @@ export const gitPush = async ({
     })
 }
 
+/**
+ * Resolves the commit of the most recent release tag, optionally of a single
+ * package, falling back to the given ref if there is no such tag.
+ */
 export const gitLastTaggedCommit = async ({
     cwd,
     context,
     prerelease = false,
+    tagTemplate,
+    packageName,
+    fallback = 'HEAD',
 }: {
     cwd: string
     context?: YarnContext
     prerelease?: boolean
+    tagTemplate?: string
+    packageName?: string
+    fallback?: string
 }): Promise<string> => {
-    let mostRecentTagCommand = `git describe --abbrev=0 --match '*@*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*'`
+    let mostRecentTagCommand = `git describe --abbrev=0 --match '${getTagGlob(
+        tagTemplate,
+        { name: packageName },
+    )}'`
 
     if (!prerelease) {
         // The glob matches prerelease ranges. The 'complexity' comes from not wanting
         // to be overeager in producing a false positive for a tag such as
         // `@scope-with-hyphen/name.with.dot-and-hyphen`
-        mostRecentTagCommand = `${mostRecentTagCommand} --exclude '*@*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*-*'`
+        mostRecentTagCommand = `${mostRecentTagCommand} --exclude '${getTagGlob(
+            tagTemplate,
+            { name: packageName, prerelease: true },
+        )}'`
     }
 
     logging.debug(`[Exec] ${mostRecentTagCommand}`, { report: context?.report })
 
-    let tag = 'HEAD'
+    let tag = fallback
 
     try {
         tag = (
@@ -152,7 +300,7 @@ export const gitLastTaggedCommit = async ({
             .trim()
     } catch (err) {
         logging.warning(
-            `[Exec] Fetching most recent tag failed, falling back to HEAD`,
+            `[Exec] Fetching most recent tag failed, falling back to ${fallback}`,
             { report: context?.report },
         )
     }
@@ -169,22 +317,61 @@ export const gitLastTaggedCommit = async ({
         .trim()
 }
 
+/**
+ * Lists the new and modified files matching the given pathspecs. Unlike
+ * `git add`, pathspecs which do not match any file are ignored.
+ */
+export const gitListChangedFiles = async (
+    pathspecs: string[],
+    { cwd, context }: { cwd: string; context?: YarnContext },
+): Promise<string[]> => {
+    if (!pathspecs.length) return []
+
+    const gitCommand = `git ls-files --modified --others --exclude-standard -- ${pathspecs
+        .map((pathspec) => `"${pathspec}"`)
+        .join(' ')}`
+    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
+    const files = (await exec(gitCommand, { encoding: 'utf8', cwd })).stdout
+        .toString()
+        .split('\n')
+        .filter((line) => line.trim())
+    return [...new Set(files)]
+}
+
 export const gitAdd = async (
     paths: string[],
     { cwd, context }: { cwd: string; context?: YarnContext },
 ): Promise<void> => {
     assertProduction()
-    const gitCommand = `git add ${paths.join(' ')}`
-    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
-    await exec(gitCommand, { encoding: 'utf8', cwd })
+    await execGit(['add', ...paths], { cwd, context })
 }
 
 export const gitCommit = async (
     message: string,
-    { cwd, context }: { cwd: string; context?: YarnContext },
+    {
+        cwd,
+        context,
+        signing,
+    }: { cwd: string; context?: YarnContext; signing?: GitSigningOptions },
 ): Promise<void> => {
     assertProduction()
-    const gitCommand = `git commit -m "${message}" -n`
-    logging.debug(`[Exec] ${gitCommand}`, { report: context?.report })
-    await exec(gitCommand, { encoding: 'utf8', cwd })
+
+    let signArgs: string[] = []
+    if (signing?.sign) {
+        signArgs = [
+            signing.signingKey ? `--gpg-sign=${signing.signingKey}` : '-S',
+        ]
+    }
+
+    await execGit(
+        [
+            ...getSigningFormatArgs(signing),
+            'commit',
+            ...signArgs,
+            '-m',
+            message,
+            '-n',
+        ],
+        { cwd, context },
+    )
 }
@@ -7,7 +7,14 @@ import {
 } from '@monodeploy/test-utils'
 import { YarnContext } from '@monodeploy/types'
 
-import { gitLastTaggedCommit, gitPushTags, gitTag } from '.'
+import {
+    gitDeleteTag,
+    gitLastTaggedCommit,
+    gitPushDeleteTag,
+    gitPushTags,
+    gitTag,
+    gitTagExists,
+} from '.'
 
 jest.mock('@monodeploy/logging')
 
@@ -54,6 +61,17 @@ describe('@monodeploy/git (mocked invariants)', () => {
         expect(tagList.trim().split('\n')).toEqual([newTag])
     })
 
+    it('gitTagExists checks whether a tag exists', async () => {
+        const cwd = context.project.cwd
+        execSync('git commit -m "test: base" --allow-empty', {
+            cwd,
+        })
+        await gitTag('pkg@1.0.0', { cwd, context })
+
+        expect(await gitTagExists('pkg@1.0.0', { cwd, context })).toBe(true)
+        expect(await gitTagExists('pkg@1.0.1', { cwd, context })).toBe(false)
+    })
+
     it('gitLastTaggedCommit gets last tagged commit', async () => {
         const cwd = context.project.cwd
         execSync('git commit -m "test: base" --allow-empty', {
@@ -94,4 +112,37 @@ describe('@monodeploy/git (mocked invariants)', () => {
             expect.stringContaining(lastTaggedSha.trim()),
         )
     })
+
+    it('gitDeleteTag deletes a tag', async () => {
+        const cwd = context.project.cwd
+        execSync('git commit -m "test: base" --allow-empty', {
+            cwd,
+        })
+        await gitTag('pkg@1.0.0', { cwd, context })
+        await gitDeleteTag('pkg@1.0.0', { cwd, context })
+
+        expect(await gitTagExists('pkg@1.0.0', { cwd, context })).toBe(false)
+    })
+
+    it('gitPushDeleteTag deletes a tag from the remote', async () => {
+        const cwd = context.project.cwd
+        const upstreamContext = await setupRepo()
+
+        execSync(`git remote add local ${upstreamContext.project.cwd}`, { cwd })
+        execSync('git commit -m "test: base" --allow-empty', {
+            cwd,
+        })
+
+        await gitTag('pkg@1.0.0', { cwd, context })
+        await gitPushTags({ cwd, remote: 'local', context })
+        await gitPushDeleteTag('pkg@1.0.0', { cwd, remote: 'local', context })
+
+        const remoteTags = execSync('git ls-remote --tags local', {
+            cwd,
+            encoding: 'utf8',
+        })
+        await cleanUp([upstreamContext.project.cwd])
+
+        expect(remoteTags.trim()).toEqual('')
+    })
 })
@@ -1,4 +1,7 @@
 import childProcess from 'child_process'
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
 import util from 'util'
 
 const exec = util.promisify(childProcess.exec)
@@ -13,14 +16,18 @@ import {
 import { YarnContext } from '@monodeploy/types'
 
 import {
+    GitSigningOptions,
     getCommitMessages,
     gitAdd,
     gitCommit,
     gitDiffTree,
     gitLastTaggedCommit,
+    gitListChangedFiles,
+    gitListTags,
     gitLog,
     gitPushTags,
     gitResolveSha,
+    gitRootCommit,
     gitTag,
 } from '.'
 
@@ -95,6 +102,23 @@ describe('@monodeploy/git', () => {
         })
     })
 
+    describe('gitRootCommit', () => {
+        it('resolves the oldest commit of the history', async () => {
+            const cwd = context.project.cwd
+
+            await createFile({ filePath: 'test.txt', cwd })
+            await exec('git add . && git commit -m "test: root" -n', { cwd })
+            const rootSha = await gitResolveSha('HEAD', { cwd, context })
+
+            await createFile({ filePath: 'test1.txt', cwd })
+            await exec('git add . && git commit -m "test: child" -n', { cwd })
+
+            expect(await gitRootCommit('HEAD', { cwd, context })).toEqual(
+                rootSha,
+            )
+        })
+    })
+
     describe('gitCommitMessages', () => {
         it('gets commit messages', async () => {
             const cwd = context.project.cwd
@@ -158,6 +182,54 @@ describe('@monodeploy/git', () => {
             const { stdout } = await exec('git describe --abbrev=0', { cwd })
             expect(stdout).toEqual(expect.stringContaining('1.0.0'))
         })
+
+        it('creates a tag with the given message', async () => {
+            process.env.NODE_ENV = 'production'
+
+            const { cwd } = context.project
+
+            await exec('git commit -m "test: base" --allow-empty', {
+                cwd,
+            })
+
+            const message = 'pkg 1.0.0\n\n## 1.0.0\n\n* a "quoted" feature'
+            await gitTag('pkg@1.0.0', { cwd, context, message })
+
+            const { stdout } = await exec(
+                "git tag --list --format='%(contents)' pkg@1.0.0",
+                { cwd },
+            )
+            expect(stdout.trim()).toEqual(message)
+        })
+    })
+
+    describe('gitListTags', () => {
+        it('lists tags with their dates', async () => {
+            const { cwd } = context.project
+
+            await exec('git commit -m "test: base" --allow-empty', { cwd })
+            await exec('git tag pkg-1@1.0.0', { cwd })
+            await exec('git tag -a @scope/pkg-2@2.0.0 -m "a message"', {
+                cwd,
+            })
+
+            const tags = await gitListTags({ cwd, context })
+            expect(tags.map(({ tag }) => tag).sort()).toEqual([
+                '@scope/pkg-2@2.0.0',
+                'pkg-1@1.0.0',
+            ])
+            for (const { date } of tags) {
+                expect(date).toMatch(/^\d{4}-\d{2}-\d{2}$/)
+            }
+        })
+
+        it('returns an empty list if there are no tags', async () => {
+            const { cwd } = context.project
+
+            await exec('git commit -m "test: base" --allow-empty', { cwd })
+
+            expect(await gitListTags({ cwd, context })).toEqual([])
+        })
     })
 
     describe('gitPushTags', () => {
@@ -319,6 +391,35 @@ describe('@monodeploy/git', () => {
             expect(detectedCommit).toEqual(prereleaseTagSha)
             expect(detectedCommit).not.toEqual(releaseTagSha)
         })
+
+        it('matches the tags of the tag template', async () => {
+            process.env.NODE_ENV = 'production'
+            const cwd = context.project.cwd
+
+            await createFile({ filePath: 'test.txt', cwd })
+            await exec(
+                'git add . && git commit -m "chore: initial commit" -n',
+                {
+                    cwd,
+                },
+            )
+            const releaseTagSha = await gitResolveSha('HEAD', { cwd, context })
+            await gitTag('v0.0.1', { cwd, context })
+
+            await createFile({ filePath: 'test1.txt', cwd })
+            await exec('git add . && git commit -m "chore: second commit" -n', {
+                cwd,
+            })
+            await gitTag('test-tag@0.0.2', { cwd, context })
+
+            expect(
+                await gitLastTaggedCommit({
+                    cwd,
+                    context,
+                    tagTemplate: 'v{version}',
+                }),
+            ).toEqual(releaseTagSha)
+        })
     })
 
     describe('gitLog', () => {
@@ -397,6 +498,24 @@ describe('@monodeploy/git', () => {
         })
     })
 
+    describe('gitListChangedFiles', () => {
+        it('lists new and modified files matching the pathspecs', async () => {
+            const cwd = context.project.cwd
+            await createFile({ filePath: 'CHANGELOG.md', cwd })
+            await exec('git add . && git commit -m "test: base"', { cwd })
+
+            await createFile({ filePath: 'CHANGELOG.md', cwd, content: 'x' })
+            await createFile({ filePath: 'CHANGELOG-2020.md', cwd })
+            await createFile({ filePath: 'other.md', cwd })
+
+            const files = await gitListChangedFiles(
+                ['CHANGELOG*.md', 'archive/*.md'],
+                { cwd, context },
+            )
+            expect(files.sort()).toEqual(['CHANGELOG-2020.md', 'CHANGELOG.md'])
+        })
+    })
+
     describe('gitAdd, gitCommit', () => {
         it('adds files, commits changes', async () => {
             process.env.NODE_ENV = 'production'
@@ -428,4 +547,94 @@ describe('@monodeploy/git', () => {
             ).toEqual(expect.stringContaining('chore: initial commit'))
         })
     })
+
+    describe('signing', () => {
+        let keyDir: string
+        let allowedSignersFile: string
+        let signing: GitSigningOptions
+
+        beforeEach(async () => {
+            // A throwaway SSH key, trusted via an allowed signers file
+            keyDir = await fs.mkdtemp(path.join(os.tmpdir(), 'signing-key-'))
+            const keyFile = path.join(keyDir, 'key')
+            await exec(
+                `ssh-keygen -q -t ed25519 -N "" -C monodeploy -f "${keyFile}"`,
+            )
+            const publicKey = await fs.readFile(`${keyFile}.pub`, 'utf8')
+            allowedSignersFile = path.join(keyDir, 'allowed_signers')
+            await fs.writeFile(allowedSignersFile, `* ${publicKey}`)
+
+            signing = { sign: true, signingKey: keyFile, signingFormat: 'ssh' }
+        })
+
+        afterEach(async () => {
+            await cleanUp([keyDir])
+        })
+
+        it('creates signed tags', async () => {
+            process.env.NODE_ENV = 'production'
+
+            const { cwd } = context.project
+
+            await exec('git commit -m "test: base" --allow-empty', {
+                cwd,
+            })
+
+            await gitTag('pkg@1.0.0', {
+                cwd,
+                context,
+                message: 'pkg 1.0.0',
+                signing,
+            })
+
+            const { stdout } = await exec('git cat-file tag pkg@1.0.0', {
+                cwd,
+            })
+            expect(stdout).toEqual(
+                expect.stringContaining('-----BEGIN SSH SIGNATURE-----'),
+            )
+            await expect(
+                exec(
+                    `git -c gpg.ssh.allowedSignersFile="${allowedSignersFile}" verify-tag pkg@1.0.0`,
+                    { cwd },
+                ),
+            ).resolves.toBeDefined()
+        })
+
+        it('creates signed commits', async () => {
+            process.env.NODE_ENV = 'production'
+
+            const cwd = context.project.cwd
+            await createFile({ filePath: 'test.txt', cwd })
+            await gitAdd(['test.txt'], { cwd, context })
+            await gitCommit('chore: release', { cwd, context, signing })
+
+            const { stdout } = await exec(
+                `git -c gpg.ssh.allowedSignersFile="${allowedSignersFile}" log -1 --format="%G? %s"`,
+                { cwd },
+            )
+            expect(stdout.trim()).toEqual('G chore: release')
+        })
+
+        it('does not sign unless requested', async () => {
+            process.env.NODE_ENV = 'production'
+
+            const { cwd } = context.project
+
+            await exec('git commit -m "test: base" --allow-empty', {
+                cwd,
+            })
+
+            await gitTag('pkg@1.0.0', {
+                cwd,
+                context,
+                signing: { ...signing, sign: false },
+            })
+
+            const { stdout } = await exec('git cat-file tag pkg@1.0.0', {
+                cwd,
+            })
+            expect(stdout).not.toEqual(expect.stringContaining('SIGNATURE'))
+        })
+    })
 })
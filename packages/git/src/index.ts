@@ -1,3 +1,4 @@
 export * from './gitCommands'
 export * from './getCommitMessages'
 export * from './parseRepositoryProperty'
+export * from './tagTemplate'
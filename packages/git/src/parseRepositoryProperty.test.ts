@@ -50,6 +50,38 @@ describe('parseRepositoryProperty', () => {
             )
         }))
 
+    it('parses ssh urls', async () =>
+        withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+            const workspace = context.project.getWorkspaceByIdent(
+                structUtils.parseIdent('pkg-1'),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'ssh://git@bitbucket.example.com:7999/proj/repo.git',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://bitbucket.example.com',
+                    owner: 'proj',
+                    repository: 'repo',
+                    repoUrl: 'https://bitbucket.example.com/proj/repo',
+                }),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'ssh://gitlab.example.com/group/subgroup/project.git',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://gitlab.example.com',
+                    owner: 'group/subgroup',
+                    repository: 'project',
+                }),
+            )
+        }))
+
     it('parses repository from manifest url as object', async () =>
         withMonorepoContext({ 'pkg-1': {} }, async (context) => {
             const workspace = context.project.getWorkspaceByIdent(
@@ -71,6 +103,75 @@ describe('parseRepositoryProperty', () => {
             )
         }))
 
+    it('parses repositories in nested groups', async () =>
+        withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+            const workspace = context.project.getWorkspaceByIdent(
+                structUtils.parseIdent('pkg-1'),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'https://gitlab.example.com/group/subgroup/project.git',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://gitlab.example.com',
+                    owner: 'group/subgroup',
+                    repository: 'project',
+                    repoUrl:
+                        'https://gitlab.example.com/group/subgroup/project',
+                }),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'git@gitlab.example.com:group/subgroup/project.git',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://gitlab.example.com',
+                    owner: 'group/subgroup',
+                    repository: 'project',
+                    repoUrl:
+                        'https://gitlab.example.com/group/subgroup/project',
+                }),
+            )
+        }))
+
+    it('ignores locations within the repository', async () =>
+        withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+            const workspace = context.project.getWorkspaceByIdent(
+                structUtils.parseIdent('pkg-1'),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'https://github.com/tophat/monodeploy/tree/main/packages',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://github.com',
+                    owner: 'tophat',
+                    repository: 'monodeploy',
+                    repoUrl: 'https://github.com/tophat/monodeploy',
+                }),
+            )
+
+            workspace.manifest.setRawField(
+                'repository',
+                'https://gitlab.example.com/group/subgroup/project/-/tree/main/packages',
+            )
+            expect(await parseRepositoryProperty(workspace)).toEqual(
+                expect.objectContaining({
+                    host: 'https://gitlab.example.com',
+                    owner: 'group/subgroup',
+                    repository: 'project',
+                    repoUrl:
+                        'https://gitlab.example.com/group/subgroup/project',
+                }),
+            )
+        }))
+
     it('falls back to project root manifest', async () =>
         withMonorepoContext({ 'pkg-1': {} }, async (context) => {
             const workspace = context.project.getWorkspaceByIdent(
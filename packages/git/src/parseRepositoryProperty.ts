@@ -2,26 +2,73 @@ import { Workspace, structUtils } from '@yarnpkg/core'
 
 export type RepositoryInfo = {
     host: string | null
+    /**
+     * The owner of the repository, which may contain slashes for hosts which
+     * support nested groups (e.g. GitLab).
+     */
     owner: string | null
     repository: string | null
     repoUrl: string | null
 }
 
+/**
+ * Path segments which separate the repository from a location within it, e.g.
+ * `https://github.com/owner/repo/tree/main/packages` or
+ * `https://gitlab.com/group/project/-/tree/main`.
+ */
+const REPOSITORY_PATH_TERMINATORS = new Set(['-', 'tree', 'blob'])
+
+const parseRepositoryPath = (
+    path: string,
+): Pick<RepositoryInfo, 'owner' | 'repository'> | null => {
+    const segments: string[] = []
+    for (const segment of path.split('/')) {
+        if (REPOSITORY_PATH_TERMINATORS.has(segment)) break
+        if (segment) segments.push(segment)
+    }
+    const repository = segments.pop()?.replace(/\.git$/, '')
+    if (!repository || !segments.length) return null
+    return { owner: segments.join('/'), repository }
+}
+
 const REPOSITORY_PATTERNS: Array<
-    [RegExp, (m: RegExpMatchArray) => Partial<RepositoryInfo>]
+    [RegExp, (m: RegExpMatchArray) => Partial<RepositoryInfo> | null]
 > = [
     [
-        /((?:git\+)?(https?:\/\/[^/]+)\/([^/]+)\/([^/.]+))(?:\.git)?/,
-        (m) => ({ repoUrl: m[1], host: m[2], owner: m[3], repository: m[4] }),
+        /^((?:git\+)?(https?:\/\/[^/]+))\/([^?#]+)/,
+        (m) => {
+            const path = parseRepositoryPath(m[3])
+            if (!path) return null
+            return {
+                ...path,
+                repoUrl: `${m[1]}/${path.owner}/${path.repository}`,
+                host: m[2],
+            }
+        },
     ],
     [
-        /(?:git@)?([^:]+):([^/]+)\/([^/.]+)(?:\.git)?/,
-        (m) => ({
-            repoUrl: `https://${m[1]}/${m[2]}/${m[3]}`,
-            host: `https://${m[1]}`,
-            owner: m[2],
-            repository: m[3],
-        }),
+        /^ssh:\/\/(?:[^@/]+@)?([^:/]+)(?::\d+)?\/([^?#]+)/,
+        (m) => {
+            const path = parseRepositoryPath(m[2])
+            if (!path) return null
+            return {
+                ...path,
+                repoUrl: `https://${m[1]}/${path.owner}/${path.repository}`,
+                host: `https://${m[1]}`,
+            }
+        },
+    ],
+    [
+        /^(?:git@)?([^:/]+):([^?#]+)/,
+        (m) => {
+            const path = parseRepositoryPath(m[2])
+            if (!path) return null
+            return {
+                ...path,
+                repoUrl: `https://${m[1]}/${path.owner}/${path.repository}`,
+                host: `https://${m[1]}`,
+            }
+        },
     ],
 ]
 
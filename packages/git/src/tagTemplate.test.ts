@@ -0,0 +1,108 @@
+import {
+    formatTag,
+    formatTagMessage,
+    getTagGlob,
+    parseTag,
+} from './tagTemplate'
+
+describe('Tag Template', () => {
+    it('formats tags with the default template', () => {
+        expect(formatTag(undefined, { name: 'pkg-1', version: '1.0.0' })).toBe(
+            'pkg-1@1.0.0',
+        )
+        expect(
+            formatTag(undefined, { name: '@scope/pkg-1', version: '1.0.0' }),
+        ).toBe('@scope/pkg-1@1.0.0')
+    })
+
+    it('formats tags with a custom template', () => {
+        expect(
+            formatTag('v{version}', { name: 'pkg-1', version: '1.0.0' }),
+        ).toBe('v1.0.0')
+        expect(
+            formatTag('{unscopedName}-v{version}', {
+                name: '@scope/pkg-1',
+                version: '1.0.0-rc.1',
+            }),
+        ).toBe('pkg-1-v1.0.0-rc.1')
+    })
+
+    it('parses tags with the default template', () => {
+        expect(parseTag(undefined, '@scope/pkg-1@1.0.0')).toEqual({
+            name: '@scope/pkg-1',
+            version: '1.0.0',
+        })
+        expect(parseTag(undefined, 'pkg-1@1.0.0-rc.1')).toEqual({
+            name: 'pkg-1',
+            version: '1.0.0-rc.1',
+        })
+        expect(parseTag(undefined, 'v1.0.0')).toBeNull()
+    })
+
+    it('parses tags with a custom template', () => {
+        expect(parseTag('v{version}', 'v1.0.0')).toEqual({ version: '1.0.0' })
+        expect(parseTag('v{version}', 'pkg-1@1.0.0')).toBeNull()
+        expect(parseTag('{unscopedName}-v{version}', 'pkg-1-v1.0.0')).toEqual({
+            unscopedName: 'pkg-1',
+            version: '1.0.0',
+        })
+        expect(
+            parseTag('{name}+{unscopedName}@{version}', '@scope/a+b@1.0.0'),
+        ).toBeNull()
+    })
+
+    it('round-trips tags through the template', () => {
+        const template = 'release/{unscopedName}/{version}'
+        const tag = formatTag(template, {
+            name: '@scope/pkg-1',
+            version: '2.1.0',
+        })
+        expect(tag).toBe('release/pkg-1/2.1.0')
+        expect(parseTag(template, tag)).toEqual({
+            unscopedName: 'pkg-1',
+            version: '2.1.0',
+        })
+    })
+
+    it('builds a glob matching the tags', () => {
+        expect(getTagGlob(undefined)).toBe(
+            '*@*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*',
+        )
+        expect(getTagGlob('v{version}', { prerelease: true })).toBe(
+            'v*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*-*',
+        )
+        expect(
+            getTagGlob('{unscopedName}-v{version}', { name: '@scope/a' }),
+        ).toBe('a-v*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*')
+        expect(getTagGlob('[{name}]-{version}')).toBe(
+            '\\[*\\]-*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*',
+        )
+    })
+
+    it('formats tag messages', () => {
+        expect(
+            formatTagMessage(undefined, {
+                tag: 'pkg-1@1.0.0',
+                name: 'pkg-1',
+                version: '1.0.0',
+                changelog: '## 1.0.0\n',
+            }),
+        ).toBe('pkg-1@1.0.0')
+        expect(
+            formatTagMessage('{unscopedName} {version}\n\n{changelog}', {
+                tag: 'v1.0.0',
+                name: '@scope/pkg-1',
+                version: '1.0.0',
+                changelog: '## 1.0.0\n\n* a feature\n',
+            }),
+        ).toBe('pkg-1 1.0.0\n\n## 1.0.0\n\n* a feature')
+        expect(
+            formatTagMessage('{tag}\n\n{changelog}', {
+                tag: 'v1.0.0',
+                name: 'pkg-1',
+                version: '1.0.0',
+                changelog: null,
+            }),
+        ).toBe('v1.0.0')
+    })
+})
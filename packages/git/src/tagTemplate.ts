@@ -0,0 +1,153 @@
+export const DEFAULT_TAG_TEMPLATE = '{name}@{version}'
+
+export const DEFAULT_TAG_MESSAGE_TEMPLATE = '{tag}'
+
+export type TagParts = {
+    name?: string
+    unscopedName?: string
+    version: string
+}
+
+const PLACEHOLDERS = ['name', 'unscopedName', 'version'] as const
+type Placeholder = typeof PLACEHOLDERS[number]
+
+const PLACEHOLDER_PATTERN = /\{(name|unscopedName|version)\}/g
+
+const getUnscopedName = (name: string): string =>
+    name.startsWith('@') ? name.slice(name.indexOf('/') + 1) : name
+
+const escapeRegExp = (value: string): string =>
+    value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+const escapeGlob = (value: string): string =>
+    value.replace(/[*?[\]\\]/g, '\\$&')
+
+/**
+ * Splits the template into its literal parts and placeholders.
+ */
+const tokenize = (
+    template: string,
+): Array<{ literal: string } | { placeholder: Placeholder }> => {
+    const tokens: Array<{ literal: string } | { placeholder: Placeholder }> = []
+    let lastIndex = 0
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (match.index! > lastIndex) {
+            tokens.push({ literal: template.slice(lastIndex, match.index) })
+        }
+        tokens.push({ placeholder: match[1] as Placeholder })
+        lastIndex = match.index! + match[0].length
+    }
+    if (lastIndex < template.length) {
+        tokens.push({ literal: template.slice(lastIndex) })
+    }
+    return tokens
+}
+
+/**
+ * Renders the git tag of a package version from the tag template, e.g.
+ * `{name}@{version}` or `{unscopedName}-v{version}`.
+ */
+export const formatTag = (
+    template: string | undefined,
+    { name, version }: { name: string; version: string },
+): string =>
+    (template ?? DEFAULT_TAG_TEMPLATE).replace(
+        PLACEHOLDER_PATTERN,
+        (_, placeholder: Placeholder) => {
+            if (placeholder === 'name') return name
+            if (placeholder === 'unscopedName') return getUnscopedName(name)
+            return version
+        },
+    )
+
+/**
+ * Extracts the placeholder values from a git tag rendered with the tag
+ * template, or returns null if the tag does not follow the template.
+ */
+export const parseTag = (
+    template: string | undefined,
+    tag: string,
+): TagParts | null => {
+    const seen = new Set<Placeholder>()
+    let pattern = ''
+    for (const token of tokenize(template ?? DEFAULT_TAG_TEMPLATE)) {
+        if ('literal' in token) {
+            pattern += escapeRegExp(token.literal)
+        } else if (seen.has(token.placeholder)) {
+            pattern += `\\k<${token.placeholder}>`
+        } else {
+            seen.add(token.placeholder)
+            pattern +=
+                token.placeholder === 'unscopedName'
+                    ? `(?<${token.placeholder}>[^/]+)`
+                    : `(?<${token.placeholder}>.+)`
+        }
+    }
+
+    const groups = new RegExp(`^${pattern}$`).exec(tag)?.groups
+    if (!groups?.version) return null
+
+    const parts: TagParts = { version: groups.version }
+    for (const placeholder of PLACEHOLDERS) {
+        if (placeholder !== 'version' && groups[placeholder]) {
+            parts[placeholder] = groups[placeholder]
+        }
+    }
+    if (
+        parts.name &&
+        parts.unscopedName &&
+        getUnscopedName(parts.name) !== parts.unscopedName
+    ) {
+        return null
+    }
+    return parts
+}
+
+/**
+ * Returns the glob matching the git tags rendered with the tag template, for
+ * use with `git describe --match`. With `name`, the glob only matches the tags
+ * of the given package, and with `prerelease`, the tags of prerelease
+ * versions.
+ */
+export const getTagGlob = (
+    template: string | undefined,
+    { name, prerelease = false }: { name?: string; prerelease?: boolean } = {},
+): string => {
+    const versionGlob = `*[[:digit:]]*.[[:digit:]]*.[[:digit:]]*${
+        prerelease ? '-*' : ''
+    }`
+    return tokenize(template ?? DEFAULT_TAG_TEMPLATE)
+        .map((token) => {
+            if ('literal' in token) return escapeGlob(token.literal)
+            if (token.placeholder === 'version') return versionGlob
+            if (!name) return '*'
+            return escapeGlob(
+                token.placeholder === 'name' ? name : getUnscopedName(name),
+            )
+        })
+        .join('')
+}
+
+/**
+ * Renders the message of an annotated release tag from the tag message
+ * template, which may contain the `{tag}`, `{name}`, `{unscopedName}`,
+ * `{version}` and `{changelog}` placeholders.
+ */
+export const formatTagMessage = (
+    template: string | undefined,
+    {
+        tag,
+        name,
+        version,
+        changelog,
+    }: {
+        tag: string
+        name: string
+        version: string
+        changelog?: string | null
+    },
+): string =>
+    formatTag(template ?? DEFAULT_TAG_MESSAGE_TEMPLATE, { name, version })
+        .replace(/\{tag\}/g, () => tag)
+        .replace(/\{changelog\}/g, () => changelog?.trim() ?? '')
+        .trim()
@@ -0,0 +1,72 @@
+import { getMonodeployConfig } from '@monodeploy/test-utils'
+
+import getPackageConfig from './getPackageConfig'
+
+describe('getPackageConfig', () => {
+    it('returns the global config if there are no package overrides', async () => {
+        const config = await getMonodeployConfig({
+            cwd: '/tmp',
+            baseBranch: 'main',
+            commitSha: 'HEAD',
+        })
+        expect(getPackageConfig(config, 'pkg-1')).toBe(config)
+    })
+
+    it('applies glob overrides, followed by exact name overrides', async () => {
+        const config = {
+            ...(await getMonodeployConfig({
+                cwd: '/tmp',
+                baseBranch: 'main',
+                commitSha: 'HEAD',
+            })),
+            access: 'public',
+            changesetIgnorePatterns: ['*.md'],
+        }
+        config.packages = {
+            '@scope/private-pkg': { access: 'restricted' },
+            '@scope/*': {
+                access: 'public',
+                prerelease: true,
+                prereleaseNPMTag: 'canary',
+            },
+            'other-*': { changesetIgnorePatterns: ['*.test.js'] },
+        }
+
+        expect(getPackageConfig(config, '@scope/private-pkg')).toEqual(
+            expect.objectContaining({
+                access: 'restricted',
+                prerelease: true,
+                prereleaseNPMTag: 'canary',
+                changesetIgnorePatterns: ['*.md'],
+            }),
+        )
+        expect(getPackageConfig(config, '@scope/pkg')).toEqual(
+            expect.objectContaining({
+                access: 'public',
+                prerelease: true,
+                prereleaseNPMTag: 'canary',
+            }),
+        )
+        expect(getPackageConfig(config, 'other-pkg')).toEqual(
+            expect.objectContaining({
+                access: 'public',
+                prerelease: false,
+                changesetIgnorePatterns: ['*.test.js'],
+            }),
+        )
+    })
+
+    it('ignores undefined overrides', async () => {
+        const config = {
+            ...(await getMonodeployConfig({
+                cwd: '/tmp',
+                baseBranch: 'main',
+                commitSha: 'HEAD',
+            })),
+            access: 'restricted',
+        }
+        config.packages = { 'pkg-1': { access: undefined } }
+
+        expect(getPackageConfig(config, 'pkg-1').access).toEqual('restricted')
+    })
+})
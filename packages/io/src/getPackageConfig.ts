@@ -0,0 +1,46 @@
+import type {
+    MonodeployConfiguration,
+    PackageConfiguration,
+} from '@monodeploy/types'
+import micromatch from 'micromatch'
+
+const withoutUndefined = (
+    overrides: PackageConfiguration,
+): PackageConfiguration =>
+    Object.fromEntries(
+        Object.entries(overrides).filter(([, value]) => value !== undefined),
+    )
+
+/**
+ * Returns the configuration for a single package, with any matching entries
+ * of the "packages" configuration applied. Glob patterns are applied in order
+ * of declaration, followed by an exact match on the package name.
+ */
+const getPackageConfig = (
+    config: MonodeployConfiguration,
+    packageName: string,
+): MonodeployConfiguration => {
+    if (!config.packages) return config
+
+    let packageConfig: MonodeployConfiguration = config
+    for (const [pattern, overrides] of Object.entries(config.packages)) {
+        if (
+            pattern !== packageName &&
+            micromatch.isMatch(packageName, pattern)
+        ) {
+            packageConfig = { ...packageConfig, ...withoutUndefined(overrides) }
+        }
+    }
+
+    const exactOverrides = config.packages[packageName]
+    if (exactOverrides) {
+        packageConfig = {
+            ...packageConfig,
+            ...withoutUndefined(exactOverrides),
+        }
+    }
+
+    return packageConfig
+}
+
+export default getPackageConfig
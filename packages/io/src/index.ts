@@ -1,7 +1,9 @@
 export * from './stream'
 export * from './executeLifecycleScript'
 export * from './backupPackage'
+export * from './releaseJournal'
 
+import getPackageConfig from './getPackageConfig'
 import patchPackageJsons from './patchPackageJsons'
 
-export { patchPackageJsons }
+export { getPackageConfig, patchPackageJsons }
@@ -282,4 +282,43 @@ describe('Patch Package Manifests', () => {
                 ).toEqual('workspace:^2.0.0')
             },
         ))
+
+    it('returns the patched manifests without writing them if write is disabled', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': { dependencies: ['pkg-2'] },
+                'pkg-2': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+
+                const workspace1 = identToWorkspace(context, 'pkg-1')
+                const workspace2 = identToWorkspace(context, 'pkg-2')
+
+                const manifests = await patchPackageJsons(
+                    config,
+                    context,
+                    new Set([workspace1, workspace2]),
+                    new Map([
+                        ['pkg-1', '1.0.0'],
+                        ['pkg-2', '2.0.0'],
+                    ]),
+                    { write: false },
+                )
+
+                expect(JSON.parse(manifests.get('pkg-1')!)).toEqual(
+                    expect.objectContaining({
+                        version: '1.0.0',
+                        dependencies: { 'pkg-2': '^2.0.0' },
+                    }),
+                )
+
+                const manifest1 = await loadManifest(context, 'pkg-1')
+                expect(manifest1.version).toEqual('0.0.0')
+            },
+        ))
 })
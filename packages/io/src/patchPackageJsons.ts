@@ -11,7 +11,10 @@ const patchPackageJsons = async (
     context: YarnContext,
     workspaces: Set<Workspace>,
     registryTags: PackageVersionMap,
-): Promise<void> => {
+    { write = true }: { write?: boolean } = {},
+): Promise<Map<string, string>> => {
+    const manifests = new Map<string, string>()
+
     const regenerateManifestRaw = async (
         workspace: Workspace,
     ): Promise<void> => {
@@ -107,6 +110,9 @@ const patchPackageJsons = async (
             null,
             workspace.manifest.indent,
         )}\n`
+        manifests.set(pkgName, content)
+
+        if (!write) return
 
         await xfs.changeFilePromise(path, content, {
             automaticNewlines: true,
@@ -114,6 +120,8 @@ const patchPackageJsons = async (
     }
 
     await Promise.all([...workspaces].map(patchWorkspace))
+
+    return manifests
 }
 
 export default patchPackageJsons
@@ -0,0 +1,52 @@
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+
+import { getMonodeployConfig } from '@monodeploy/test-utils'
+import type { ReleaseJournal } from '@monodeploy/types'
+
+import {
+    readReleaseJournal,
+    removeReleaseJournal,
+    writeReleaseJournal,
+} from '.'
+
+describe('Release Journal', () => {
+    let cwd: string
+
+    beforeEach(async () => {
+        cwd = await fs.mkdtemp(path.join(os.tmpdir(), 'journal-'))
+    })
+
+    afterEach(async () => {
+        await fs.rm(cwd, { recursive: true, force: true })
+    })
+
+    it('persists and removes the journal', async () => {
+        const config = {
+            ...(await getMonodeployConfig({
+                cwd,
+                baseBranch: 'main',
+                commitSha: 'shashasha',
+            })),
+            journalFilename: '.monodeploy/journal.json',
+        }
+        const journal: ReleaseJournal = {
+            previousVersions: { 'pkg-1': '1.0.0' },
+            newVersions: { 'pkg-1': '1.1.0' },
+            versionStrategies: { 'pkg-1': { type: 'minor', commits: [] } },
+            published: ['pkg-1'],
+            tags: {},
+            changeset: null,
+            committed: false,
+        }
+
+        expect(await readReleaseJournal({ config })).toBeNull()
+
+        await writeReleaseJournal({ config, journal })
+        expect(await readReleaseJournal({ config })).toEqual(journal)
+
+        await removeReleaseJournal({ config })
+        expect(await readReleaseJournal({ config })).toBeNull()
+    })
+})
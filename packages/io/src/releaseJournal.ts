@@ -0,0 +1,53 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import type { MonodeployConfiguration, ReleaseJournal } from '@monodeploy/types'
+
+const getJournalPath = (config: MonodeployConfiguration): string => {
+    if (!config.journalFilename) {
+        throw new Error('No release journal filename configured.')
+    }
+    return path.resolve(config.cwd, config.journalFilename)
+}
+
+export const readReleaseJournal = async ({
+    config,
+}: {
+    config: MonodeployConfiguration
+}): Promise<ReleaseJournal | null> => {
+    try {
+        return JSON.parse(
+            await fs.readFile(getJournalPath(config), { encoding: 'utf8' }),
+        )
+    } catch (err) {
+        if (err?.code === 'ENOENT') return null
+        throw err
+    }
+}
+
+export const writeReleaseJournal = async ({
+    config,
+    journal,
+}: {
+    config: MonodeployConfiguration
+    journal: ReleaseJournal
+}): Promise<void> => {
+    const journalPath = getJournalPath(config)
+    await fs.mkdir(path.dirname(journalPath), { recursive: true })
+
+    // Write to a temporary file first, so an interrupted write can't corrupt
+    // the journal
+    const tmpPath = `${journalPath}.tmp`
+    await fs.writeFile(tmpPath, JSON.stringify(journal, null, 2), {
+        encoding: 'utf8',
+    })
+    await fs.rename(tmpPath, journalPath)
+}
+
+export const removeReleaseJournal = async ({
+    config,
+}: {
+    config: MonodeployConfiguration
+}): Promise<void> => {
+    await fs.rm(getJournalPath(config), { force: true })
+}
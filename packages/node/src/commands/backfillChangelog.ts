@@ -0,0 +1,185 @@
+import {
+    ChangelogEntry,
+    generateChangelogEntry,
+    mergeChangelogFile,
+    parseCommits,
+    readChangelogStoreEntries,
+    updateChangelogStore,
+} from '@monodeploy/changelog'
+import { getCommitMessages, gitRootCommit } from '@monodeploy/git'
+import { getPackageConfig } from '@monodeploy/io'
+import logging from '@monodeploy/logging'
+import type {
+    ChangelogStoreEntry,
+    CommitMessage,
+    MonodeployConfiguration,
+    RecursivePartial,
+} from '@monodeploy/types'
+import { getModifiedPackages, getTaggedVersions } from '@monodeploy/versions'
+
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Generates the missing changelog entries of previously released versions
+ * from the release git tags (see `tagTemplate`). Each tag of a package yields
+ * an entry, rendered from the commits since the previous tag (or since the
+ * root commit, for the first tag) which modified the package. Versions which
+ * already have an entry in the changelog are left as they are. The releases
+ * are also recorded in the changelog store, if configured, unless they have
+ * been recorded already.
+ */
+const backfillChangelog = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<ChangelogEntry[]> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(config, async (context) => {
+        logging.setDryRun(config.dryRun)
+
+        const taggedVersions = await getTaggedVersions({ config, context })
+
+        // A commit is usually part of the history of several packages
+        const modifiedPackages = new Map<string, string[]>()
+        const getCommitPackages = async (commit: CommitMessage) => {
+            let packageNames = modifiedPackages.get(commit.sha)
+            if (!packageNames) {
+                packageNames = await getModifiedPackages({
+                    config,
+                    context,
+                    commitSha: commit.sha,
+                })
+                modifiedPackages.set(commit.sha, packageNames)
+            }
+            return packageNames
+        }
+
+        const entries: Array<ChangelogEntry & { date: string }> = []
+        const storeEntries: ChangelogStoreEntry[] = []
+        for (const [packageName, versions] of taggedVersions) {
+            // Newest versions first, as they appear in the changelog
+            for (let index = versions.length - 1; index >= 0; index--) {
+                const previous = index > 0 ? versions[index - 1] : null
+                const current = versions[index]
+
+                const getCommitsInRange = (
+                    baseBranch: string,
+                    commitSha: string,
+                ) =>
+                    getCommitMessages(
+                        {
+                            ...config,
+                            git: { ...config.git, baseBranch, commitSha },
+                        },
+                        context,
+                    )
+
+                let commitsInRange: CommitMessage[]
+                if (previous) {
+                    commitsInRange = await getCommitsInRange(
+                        previous.tag,
+                        current.tag,
+                    )
+                } else {
+                    // The range excludes its base, so the root commit is
+                    // added separately
+                    const rootCommit = await gitRootCommit(current.tag, {
+                        cwd: config.cwd,
+                        context,
+                    })
+                    commitsInRange = [
+                        ...(await getCommitsInRange(rootCommit, current.tag)),
+                        ...(await getCommitsInRange(rootCommit, rootCommit)),
+                    ]
+                }
+
+                // Oldest commits first, as in the regular changelog entries
+                const commits: CommitMessage[] = []
+                for (const commit of commitsInRange) {
+                    const packageNames = await getCommitPackages(commit)
+                    if (packageNames.includes(packageName)) {
+                        commits.unshift(commit)
+                    }
+                }
+
+                const changelog = await generateChangelogEntry({
+                    config: getPackageConfig(config, packageName),
+                    context,
+                    packageName,
+                    previousVersion: previous?.version ?? null,
+                    newVersion: current.version,
+                    commits,
+                    date: current.date,
+                })
+
+                if (config.changelogStoreFilename) {
+                    storeEntries.push({
+                        name: packageName,
+                        version: current.version,
+                        previousVersion: previous?.version ?? null,
+                        date: current.date,
+                        strategy: null,
+                        tag: current.tag,
+                        commits: await parseCommits({
+                            config,
+                            packageName,
+                            commits,
+                        }),
+                        changelog,
+                    })
+                }
+
+                if (!changelog) continue
+
+                entries.push({
+                    packageName,
+                    version: current.version,
+                    changelog,
+                    date: current.date,
+                })
+            }
+        }
+
+        // Entries sharing a changelog file are ordered by release date. The
+        // sort is stable, so the versions of a package stay in order.
+        entries.sort(
+            (a, b) =>
+                b.date.localeCompare(a.date) ||
+                a.packageName.localeCompare(b.packageName),
+        )
+
+        const workspaces = new Set(context.project.workspaces)
+        await mergeChangelogFile({ config, context, entries, workspaces })
+
+        // Releases which are already recorded in the store are left as they are
+        const recordedVersions = new Set(
+            (
+                await readChangelogStoreEntries({ config, context, workspaces })
+            ).map(({ name, version }) => `${name}@${version}`),
+        )
+        await updateChangelogStore({
+            config,
+            context,
+            entries: storeEntries
+                .filter(
+                    ({ name, version }) =>
+                        !recordedVersions.has(`${name}@${version}`),
+                )
+                .sort((a, b) => b.date.localeCompare(a.date)),
+            workspaces,
+        })
+
+        logging.info(
+            `[Changelog] Backfilled ${entries.length} changelog entries`,
+            { report: context.report },
+        )
+
+        return entries.map(({ packageName, version, changelog }) => ({
+            packageName,
+            version,
+            changelog,
+        }))
+    })
+}
+
+export default backfillChangelog
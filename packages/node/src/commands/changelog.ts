@@ -0,0 +1,61 @@
+import {
+    prependChangelogFile,
+    recordChangelogStore,
+    writeChangesetFile,
+} from '@monodeploy/changelog'
+import logging from '@monodeploy/logging'
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    RecursivePartial,
+} from '@monodeploy/types'
+
+import { getReleasePlan } from '../utils/getReleasePlan'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Writes the changeset and changelog entries of the pending release, without
+ * modifying the package manifests.
+ */
+const changelog = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<ChangesetSchema> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(
+        config,
+        async (context) => {
+            logging.setDryRun(config.dryRun)
+
+            const plan = await getReleasePlan({ config, context })
+
+            const changeset = await writeChangesetFile({
+                config,
+                context,
+                previousTags: plan.previousVersions,
+                nextTags: plan.newVersions,
+                versionStrategies: plan.versionStrategies,
+            })
+
+            await recordChangelogStore({
+                config,
+                context,
+                changeset,
+                versionStrategies: plan.versionStrategies,
+                workspaces: plan.workspaces,
+            })
+            await prependChangelogFile({
+                config,
+                context,
+                changeset,
+                workspaces: plan.workspaces,
+            })
+
+            return changeset
+        },
+        { quiet: config.changesetFilename === '-' },
+    )
+}
+
+export default changelog
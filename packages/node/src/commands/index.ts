@@ -0,0 +1,8 @@
+export { default as backfillChangelog } from './backfillChangelog'
+export { default as changelog } from './changelog'
+export { default as preview } from './preview'
+export { default as publish } from './publish'
+export { default as renderChangelog } from './renderChangelog'
+export { default as status } from './status'
+export { default as tag } from './tag'
+export { default as version } from './version'
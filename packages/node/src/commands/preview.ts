@@ -0,0 +1,100 @@
+import { writeChangesetFile } from '@monodeploy/changelog'
+import { patchPackageJsons } from '@monodeploy/io'
+import type {
+    MonodeployConfiguration,
+    RecursivePartial,
+    ReleasePreview,
+} from '@monodeploy/types'
+import { Manifest, structUtils } from '@yarnpkg/core'
+import { ppath, xfs } from '@yarnpkg/fslib'
+
+import createUnifiedDiff from '../utils/createUnifiedDiff'
+import { getReleasePlan, getReleaseStatus } from '../utils/getReleasePlan'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Determines the pending release, without publishing, tagging, or modifying
+ * the working tree.
+ */
+const preview = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<ReleasePreview> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(
+        config,
+        async (context) => {
+            const plan = await getReleasePlan({ config, context })
+
+            // Read the manifests before they're patched in memory
+            const previousManifests = new Map<
+                string,
+                { filename: string; contents: string }
+            >()
+            for (const workspace of plan.workspaces) {
+                const manifestPath = ppath.join(
+                    workspace.cwd,
+                    Manifest.fileName,
+                )
+                previousManifests.set(
+                    structUtils.stringifyIdent(workspace.manifest.name!),
+                    {
+                        filename: ppath.relative(
+                            context.project.cwd,
+                            manifestPath,
+                        ),
+                        contents: await xfs.readFilePromise(
+                            manifestPath,
+                            'utf8',
+                        ),
+                    },
+                )
+            }
+
+            const manifests = await patchPackageJsons(
+                config,
+                context,
+                plan.workspaces,
+                new Map([
+                    ...plan.previousVersions.entries(),
+                    ...plan.newVersions.entries(),
+                ]),
+                { write: false },
+            )
+
+            // Without a changeset filename, the changeset is only generated
+            // in memory
+            const changeset = await writeChangesetFile({
+                config: { ...config, changesetFilename: undefined },
+                context,
+                previousTags: plan.previousVersions,
+                nextTags: plan.newVersions,
+                versionStrategies: plan.versionStrategies,
+            })
+
+            return {
+                packages: getReleaseStatus(plan).map((record) => {
+                    const previousManifest = previousManifests.get(record.name)
+                    const manifest = manifests.get(record.name)
+
+                    return {
+                        ...record,
+                        manifestDiff:
+                            previousManifest && manifest
+                                ? createUnifiedDiff(
+                                      previousManifest.filename,
+                                      previousManifest.contents,
+                                      manifest,
+                                  )
+                                : '',
+                        changelog: changeset[record.name]?.changelog ?? null,
+                    }
+                }),
+            }
+        },
+        { quiet: true },
+    )
+}
+
+export default preview
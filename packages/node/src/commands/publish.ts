@@ -0,0 +1,90 @@
+import { patchPackageJsons } from '@monodeploy/io'
+import logging from '@monodeploy/logging'
+import { publishPackages } from '@monodeploy/publish'
+import type {
+    MonodeployConfiguration,
+    PackageVersionMap,
+    RecursivePartial,
+} from '@monodeploy/types'
+import { getTaggedVersions } from '@monodeploy/versions'
+import { Workspace } from '@yarnpkg/core'
+import * as semver from 'semver'
+
+import getPublicWorkspaces, {
+    getUntaggedWorkspaces,
+} from '../utils/getPublicWorkspaces'
+import { getPublishRegistryUrl } from '../utils/getRegistryUrl'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Publishes the versions currently declared by the package manifests which
+ * have not yet been tagged. Versions which are not newer than the most recent
+ * release tag of their package (e.g. if the manifests were not versioned) are
+ * skipped with a warning.
+ */
+const publish = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<PackageVersionMap> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(config, async (context) => {
+        logging.setDryRun(config.dryRun)
+
+        const manifestVersions: PackageVersionMap = new Map()
+        for (const [pkgName, workspace] of getPublicWorkspaces(context)) {
+            manifestVersions.set(pkgName, workspace.manifest.version!)
+        }
+
+        const taggedVersions = await getTaggedVersions({ config, context })
+
+        const publishedVersions: PackageVersionMap = new Map()
+        const workspacesToPublish = new Set<Workspace>()
+        for (const [pkgName, workspace] of await getUntaggedWorkspaces({
+            config,
+            context,
+        })) {
+            const latestTag = taggedVersions.get(pkgName)?.slice(-1)[0]
+            if (
+                latestTag &&
+                !semver.gt(workspace.manifest.version!, latestTag.version)
+            ) {
+                logging.warning(
+                    `Skipping ${pkgName}@${workspace.manifest.version}, as it is not newer than the release tag ${latestTag.tag}.`,
+                    { report: context.report },
+                )
+                continue
+            }
+
+            publishedVersions.set(pkgName, workspace.manifest.version!)
+            workspacesToPublish.add(workspace)
+        }
+
+        if (!workspacesToPublish.size) {
+            logging.warning('No packages need to be published.', {
+                report: context.report,
+            })
+            return publishedVersions
+        }
+
+        // Replace the workspace dependencies with their declared versions
+        await patchPackageJsons(
+            config,
+            context,
+            workspacesToPublish,
+            manifestVersions,
+            { write: false },
+        )
+
+        await publishPackages({
+            config,
+            context,
+            workspacesToPublish,
+            registryUrl: await getPublishRegistryUrl({ config, context }),
+        })
+
+        return publishedVersions
+    })
+}
+
+export default publish
@@ -0,0 +1,84 @@
+import {
+    ChangelogEntry,
+    mergeChangelogFile,
+    readChangelogStoreEntries,
+    renderChangelogStoreEntry,
+    updateChangelogStore,
+} from '@monodeploy/changelog'
+import logging from '@monodeploy/logging'
+import type {
+    ChangelogStoreEntry,
+    MonodeployConfiguration,
+    RecursivePartial,
+} from '@monodeploy/types'
+
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Re-renders the changelog entries recorded in the changelog store, e.g. after
+ * changing the changelog preset, and replaces their entries in the changelog
+ * files. Entries of versions which are not in the store are kept.
+ */
+const renderChangelog = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<ChangelogEntry[]> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    if (!config.changelogStoreFilename) {
+        throw new Error(
+            'Unable to render the changelog without a changelog store.',
+        )
+    }
+
+    return await runWithContext(config, async (context) => {
+        logging.setDryRun(config.dryRun)
+
+        const workspaces = new Set(context.project.workspaces)
+        const storeEntries = await readChangelogStoreEntries({
+            config,
+            context,
+            workspaces,
+        })
+
+        const renderedEntries: ChangelogStoreEntry[] = []
+        for (const entry of storeEntries) {
+            const changelog = await renderChangelogStoreEntry({
+                config,
+                context,
+                entry,
+            })
+            renderedEntries.push({ ...entry, changelog })
+        }
+
+        await updateChangelogStore({
+            config,
+            context,
+            entries: renderedEntries,
+            workspaces,
+        })
+
+        const entries: ChangelogEntry[] = []
+        for (const { name, version, changelog } of renderedEntries) {
+            if (!changelog) continue
+            entries.push({ packageName: name, version, changelog })
+        }
+
+        await mergeChangelogFile({
+            config,
+            context,
+            entries,
+            workspaces,
+            replace: true,
+        })
+
+        logging.info(
+            `[Changelog] Rendered ${entries.length} changelog entries`,
+            { report: context.report },
+        )
+
+        return entries
+    })
+}
+
+export default renderChangelog
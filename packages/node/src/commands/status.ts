@@ -0,0 +1,27 @@
+import type {
+    MonodeployConfiguration,
+    RecursivePartial,
+    ReleaseStatusRecord,
+} from '@monodeploy/types'
+
+import { getReleasePlan, getReleaseStatus } from '../utils/getReleasePlan'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Lists the pending version bumps.
+ */
+const status = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<ReleaseStatusRecord[]> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(
+        config,
+        async (context) =>
+            getReleaseStatus(await getReleasePlan({ config, context })),
+        { quiet: true },
+    )
+}
+
+export default status
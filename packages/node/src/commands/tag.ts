@@ -0,0 +1,82 @@
+import { readChangelogStoreEntries } from '@monodeploy/changelog'
+import { gitPushTags } from '@monodeploy/git'
+import logging from '@monodeploy/logging'
+import { createReleaseGitTags } from '@monodeploy/publish'
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    PackageVersionMap,
+    RecursivePartial,
+} from '@monodeploy/types'
+
+import { getUntaggedWorkspaces } from '../utils/getPublicWorkspaces'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Creates git tags for the versions currently declared by the package
+ * manifests, skipping the tags which already exist. The changelog entries for
+ * the tag messages are read from the changelog store, if configured. Once
+ * tagged, the release is announced to the onReleaseAvailable hook.
+ */
+const tag = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<Map<string, string>> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(config, async (context, hooks) => {
+        logging.setDryRun(config.dryRun)
+
+        const versions: PackageVersionMap = new Map()
+        const untaggedWorkspaces = await getUntaggedWorkspaces({
+            config,
+            context,
+        })
+        for (const [pkgName, workspace] of untaggedWorkspaces) {
+            versions.set(pkgName, workspace.manifest.version!)
+        }
+
+        const changelogs = new Map<string, string | null>()
+        for (const entry of await readChangelogStoreEntries({
+            config,
+            context,
+            workspaces: new Set(untaggedWorkspaces.values()),
+        })) {
+            if (versions.get(entry.name) === entry.version) {
+                changelogs.set(entry.name, entry.changelog)
+            }
+        }
+
+        const createdGitTags = await createReleaseGitTags({
+            config,
+            context,
+            versions,
+            changelogs,
+        })
+        await hooks.onGitTagsCreated.promise(context, config, createdGitTags)
+
+        if (config.git.push && createdGitTags.size && !config.dryRun) {
+            await gitPushTags({
+                cwd: config.cwd,
+                remote: config.git.remote,
+                context,
+            })
+        }
+
+        const changeset: ChangesetSchema = {}
+        for (const [pkgName, gitTag] of createdGitTags) {
+            changeset[pkgName] = {
+                version: versions.get(pkgName)!,
+                changelog: changelogs.get(pkgName) ?? null,
+                tag: gitTag,
+            }
+        }
+        if (createdGitTags.size) {
+            await hooks.onReleaseAvailable.promise(context, config, changeset)
+        }
+
+        return createdGitTags
+    })
+}
+
+export default tag
@@ -0,0 +1,48 @@
+import { patchPackageJsons } from '@monodeploy/io'
+import logging from '@monodeploy/logging'
+import type {
+    MonodeployConfiguration,
+    PackageVersionMap,
+    RecursivePartial,
+} from '@monodeploy/types'
+
+import { getReleasePlan } from '../utils/getReleasePlan'
+import mergeDefaultConfig from '../utils/mergeDefaultConfig'
+import runWithContext from '../utils/runWithContext'
+
+/**
+ * Applies the pending version bumps to the package manifests, without
+ * publishing, tagging, or writing change files.
+ */
+const version = async (
+    baseConfig: RecursivePartial<MonodeployConfiguration>,
+): Promise<PackageVersionMap> => {
+    const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
+
+    return await runWithContext(config, async (context) => {
+        logging.setDryRun(config.dryRun)
+
+        const plan = await getReleasePlan({ config, context })
+        if (!plan.newVersions.size) {
+            logging.warning('No packages need to be updated.', {
+                report: context.report,
+            })
+        }
+
+        // The manifests are persisted, so we preserve the workspace protocols
+        await patchPackageJsons(
+            { ...config, persistVersions: true },
+            context,
+            plan.workspaces,
+            new Map([
+                ...plan.previousVersions.entries(),
+                ...plan.newVersions.entries(),
+            ]),
+            { write: !config.dryRun },
+        )
+
+        return plan.newVersions
+    })
+}
+
+export default version
@@ -1,10 +1,18 @@
-import path from 'path'
-
-import { prependChangelogFile, writeChangesetFile } from '@monodeploy/changelog'
+import {
+    generateChangelogEntries,
+    prependChangelogFile,
+    recordChangelogStore,
+    writeChangesetData,
+    writeChangesetFile,
+} from '@monodeploy/changelog'
 import {
     backupPackageJsons,
     clearBackupCache,
+    patchPackageJsons,
+    readReleaseJournal,
+    removeReleaseJournal,
     restorePackageJsons,
+    writeReleaseJournal,
 } from '@monodeploy/io'
 import logging from '@monodeploy/logging'
 import {
@@ -12,6 +20,7 @@ import {
     createReleaseGitTags,
     getWorkspacesToPublish,
     publishPackages,
+    rollbackRelease,
 } from '@monodeploy/publish'
 import type {
     ChangesetSchema,
@@ -20,79 +29,39 @@ import type {
     PackageVersionMap,
     PluginHooks,
     RecursivePartial,
+    ReleaseJournal,
     YarnContext,
 } from '@monodeploy/types'
-import {
-    applyReleases,
-    getExplicitVersionStrategies,
-    getImplicitVersionStrategies,
-    getLatestPackageTags,
-} from '@monodeploy/versions'
-import { Configuration, Project, StreamReport, Workspace } from '@yarnpkg/core'
-import { npath } from '@yarnpkg/fslib'
-import { AsyncSeriesHook } from 'tapable'
+import { applyReleases, getLatestPackageTags } from '@monodeploy/versions'
+import { Workspace, structUtils } from '@yarnpkg/core'
 
 import { convertTagMapToVersions } from './utils/convert'
-import getCompatiblePluginConfiguration from './utils/getCompatiblePluginConfiguration'
 import {
     getFetchRegistryUrl,
     getPublishRegistryUrl,
 } from './utils/getRegistryUrl'
+import getVersionStrategies from './utils/getVersionStrategies'
 import mergeDefaultConfig from './utils/mergeDefaultConfig'
+import runWithContext from './utils/runWithContext'
 
 const monodeploy = async (
     baseConfig: RecursivePartial<MonodeployConfiguration>,
 ): Promise<ChangesetSchema> => {
     const config: MonodeployConfiguration = await mergeDefaultConfig(baseConfig)
 
-    if (config.cwd === typeof undefined) {
-        throw new Error('Invalid cwd.')
-    }
-
     /**
      * In plumbing mode, we don't want to print out any unusable logs,
      * as it would interfere with the data intended for piping into other programs.
      */
     const plumbingMode = config.changesetFilename === '-'
 
-    const cwd = npath.toPortablePath(path.resolve(process.cwd(), config.cwd))
-    const configuration = await Configuration.find(
-        cwd,
-        getCompatiblePluginConfiguration(),
-    )
-    const { project, workspace } = await Project.find(configuration, cwd)
-    await project.restoreInstallState()
-
-    /* Initialize plugins */
-    const hooks: PluginHooks = {
-        onReleaseAvailable: new AsyncSeriesHook([
-            'context',
-            'config',
-            'changeset',
-        ]),
-    }
-
-    if (config.plugins?.length) {
-        for (const plugin of config.plugins) {
-            // eslint-disable-next-line @typescript-eslint/no-var-requires
-            const pluginModule = require(require.resolve(plugin, {
-                paths: [cwd],
-            }))
-            const pluginConstructor = pluginModule?.default ?? pluginModule
-            pluginConstructor(hooks)
-        }
-    }
-
     let result: ChangesetSchema = {}
 
-    const pipeline = async (report: StreamReport): Promise<void> => {
-        const context: YarnContext = {
-            configuration,
-            project,
-            workspace: workspace as Workspace,
-            report,
-            hooks,
-        }
+    const pipeline = async (
+        context: YarnContext,
+        hooks: PluginHooks,
+    ): Promise<void> => {
+        const report = context.report
 
         logging.setDryRun(config.dryRun)
 
@@ -125,23 +94,57 @@ const monodeploy = async (
             registryUrl: defaultFetchRegistryUrl,
         })
 
-        // Determine version bumps via commit messages
-        const intentionalStrategies = await getExplicitVersionStrategies({
-            config,
-            context,
-        })
+        // Resume a previously interrupted release, if requested
+        let journal: ReleaseJournal | null = null
+        if (config.resume) {
+            if (!config.journalFilename) {
+                throw new Error(
+                    'Unable to resume release: no journal filename configured.',
+                )
+            }
+            journal = await readReleaseJournal({ config })
+            if (journal) {
+                logging.info(
+                    `[Journal] Resuming release from ${config.journalFilename}`,
+                    { report },
+                )
+            } else {
+                logging.warning(
+                    `[Journal] No release journal found at ${config.journalFilename}, starting a new release.`,
+                    { report },
+                )
+            }
+        }
 
-        // Determine version bumps to dependent packages
-        const implicitVersionStrategies = await getImplicitVersionStrategies({
-            config,
-            context,
-            intentionalStrategies,
-        })
+        // Journal updates are serialized, as packages may be published
+        // concurrently
+        let pendingJournalWrite: Promise<void> = Promise.resolve()
+        const updateJournal = (
+            update: (journal: ReleaseJournal) => void,
+        ): Promise<void> => {
+            pendingJournalWrite = pendingJournalWrite.then(async () => {
+                if (!journal) return
+                update(journal)
+                if (config.journalFilename && !config.dryRun) {
+                    await writeReleaseJournal({ config, journal })
+                }
+            })
+            return pendingJournalWrite
+        }
+
+        const previousVersions: PackageVersionMap = journal
+            ? new Map(Object.entries(journal.previousVersions))
+            : convertTagMapToVersions(registryTags, { tag: 'latest' })
 
-        const versionStrategies: PackageStrategyMap = new Map([
-            ...intentionalStrategies.entries(),
-            ...implicitVersionStrategies.entries(),
-        ])
+        const versionStrategies: PackageStrategyMap = journal
+            ? new Map(Object.entries(journal.versionStrategies))
+            : (
+                  await getVersionStrategies({
+                      config,
+                      context,
+                      registryTags,
+                  })
+              ).versionStrategies
 
         if (!versionStrategies.size) {
             logging.warning('No packages need to be updated.', { report })
@@ -153,6 +156,22 @@ const monodeploy = async (
             report,
         })
 
+        let newVersions: PackageVersionMap = new Map()
+        let createdGitTags: Map<string, string> | undefined
+        let changelogs: Map<string, string | null> | undefined
+        const publishedVersions: PackageVersionMap = new Map()
+        const publishTimes = new Map<string, string>()
+        let pushedGitTags = false
+        if (journal) {
+            // The packages published before resuming are part of the release
+            // which is rolled back on failure
+            for (const pkgName of journal.published) {
+                publishedVersions.set(pkgName, journal.newVersions[pkgName])
+            }
+            pushedGitTags =
+                journal.committed && config.git.push && config.git.tag
+        }
+
         try {
             let workspacesToPublish: Set<Workspace>
 
@@ -167,12 +186,27 @@ const monodeploy = async (
                 },
             )
 
-            let newVersions: PackageVersionMap
-
             await report.startTimerPromise(
                 'Patching Package Manifests',
                 { skipIfEmpty: false },
                 async () => {
+                    if (journal) {
+                        // Re-apply the versions planned by the journal
+                        newVersions = new Map(
+                            Object.entries(journal.newVersions),
+                        )
+                        await patchPackageJsons(
+                            config,
+                            context,
+                            workspacesToPublish,
+                            new Map([
+                                ...previousVersions.entries(),
+                                ...newVersions.entries(),
+                            ]),
+                        )
+                        return
+                    }
+
                     // Apply releases, and update package.jsons
                     newVersions = await applyReleases({
                         config,
@@ -181,30 +215,124 @@ const monodeploy = async (
                         registryTags,
                         versionStrategies,
                     })
+
+                    if (config.journalFilename) {
+                        journal = {
+                            previousVersions: Object.fromEntries(
+                                previousVersions.entries(),
+                            ),
+                            newVersions: Object.fromEntries(
+                                newVersions.entries(),
+                            ),
+                            versionStrategies: Object.fromEntries(
+                                versionStrategies.entries(),
+                            ),
+                            published: [],
+                            tags: {},
+                            changeset: null,
+                            committed: false,
+                        }
+                        await updateJournal(() => undefined)
+                    }
                 },
             )
 
-            let createdGitTags: Map<string, string> | undefined
-
             await report.startTimerPromise(
                 'Publishing Packages',
                 { skipIfEmpty: false },
                 async () => {
+                    const publishedPackages = new Set(journal?.published)
+                    const getPackageName = (workspace: Workspace): string =>
+                        structUtils.stringifyIdent(workspace.manifest.name!)
+
+                    for (const workspace of workspacesToPublish) {
+                        if (publishedPackages.has(getPackageName(workspace))) {
+                            logging.info(
+                                `[Journal] Skipping published package ${getPackageName(
+                                    workspace,
+                                )}`,
+                                { report },
+                            )
+                        }
+                    }
+
                     // Publish (+ Git Tags)
                     await publishPackages({
                         config,
                         context,
-                        workspacesToPublish,
+                        workspacesToPublish: new Set(
+                            [...workspacesToPublish].filter(
+                                (workspace) =>
+                                    !publishedPackages.has(
+                                        getPackageName(workspace),
+                                    ),
+                            ),
+                        ),
                         registryUrl: defaultPublishRegistryUrl,
+                        onWorkspacePublished: async (workspace) => {
+                            publishedVersions.set(
+                                getPackageName(workspace),
+                                workspace.manifest.version!,
+                            )
+                            if (
+                                defaultPublishRegistryUrl &&
+                                !config.noRegistry &&
+                                !config.dryRun
+                            ) {
+                                publishTimes.set(
+                                    getPackageName(workspace),
+                                    new Date().toISOString(),
+                                )
+                            }
+                            await updateJournal((journal) => {
+                                journal.published.push(
+                                    getPackageName(workspace),
+                                )
+                            })
+                        },
                     })
 
                     if (config.git.tag) {
+                        const journaledTags = new Map(
+                            Object.entries(journal?.tags ?? {}),
+                        )
+
+                        // The changelog entries are rendered ahead of the
+                        // changeset, as the tag messages may include them
+                        changelogs = await generateChangelogEntries({
+                            config,
+                            context,
+                            previousTags: previousVersions,
+                            nextTags: newVersions,
+                            versionStrategies,
+                        })
+
                         // Create tags
-                        createdGitTags = await createReleaseGitTags({
+                        const newGitTags = await createReleaseGitTags({
                             config,
                             context,
-                            versions: newVersions,
+                            versions: new Map(
+                                [...newVersions.entries()].filter(
+                                    ([pkgName]) => !journaledTags.has(pkgName),
+                                ),
+                            ),
+                            changelogs,
+                        })
+                        createdGitTags = new Map([
+                            ...journaledTags.entries(),
+                            ...newGitTags.entries(),
+                        ])
+                        await updateJournal((journal) => {
+                            Object.assign(
+                                journal.tags,
+                                Object.fromEntries(newGitTags.entries()),
+                            )
                         })
+                        await hooks.onGitTagsCreated.promise(
+                            context,
+                            config,
+                            newGitTags,
+                        )
                     }
                 },
             )
@@ -213,24 +341,46 @@ const monodeploy = async (
                 'Updating Change Files',
                 { skipIfEmpty: false },
                 async () => {
+                    if (journal?.changeset) {
+                        logging.info(
+                            '[Journal] Skipping written changeset and changelog',
+                            { report },
+                        )
+                        result = journal.changeset
+                        return
+                    }
+
                     // Write changeset
                     result = await writeChangesetFile({
                         config,
                         context,
-                        previousTags: convertTagMapToVersions(registryTags, {
-                            tag: 'latest',
-                        }), // old versions
+                        previousTags: previousVersions,
                         nextTags: newVersions,
                         versionStrategies,
                         createdGitTags,
+                        publishTimes,
+                        changelogs,
                     })
 
+                    // The Markdown entries are rendered from the changelog
+                    // store, if configured
+                    await recordChangelogStore({
+                        config,
+                        context,
+                        changeset: result,
+                        versionStrategies,
+                        workspaces: workspacesToPublish,
+                    })
                     await prependChangelogFile({
                         config,
                         context,
                         changeset: result,
                         workspaces: workspacesToPublish,
                     })
+
+                    await updateJournal((journal) => {
+                        journal.changeset = result
+                    })
                 },
             )
 
@@ -238,12 +388,34 @@ const monodeploy = async (
                 'Committing Changes',
                 { skipIfEmpty: true },
                 async () => {
+                    if (journal?.committed) {
+                        logging.info('[Journal] Skipping committed changes', {
+                            report,
+                        })
+                        return
+                    }
+
                     if (versionStrategies.size) {
+                        const intentFiles = new Set<string>()
+                        for (const { intents } of versionStrategies.values()) {
+                            for (const intent of intents ?? []) {
+                                intentFiles.add(intent.filename)
+                            }
+                        }
+
                         await commitPublishChanges({
                             config,
                             context,
+                            intentFiles: [...intentFiles],
+                            onGitTagsPushed: () => {
+                                pushedGitTags = true
+                            },
                         })
                     }
+
+                    await updateJournal((journal) => {
+                        journal.committed = true
+                    })
                 },
             )
 
@@ -258,7 +430,69 @@ const monodeploy = async (
                     ),
             )
 
+            if (journal && config.journalFilename && !config.dryRun) {
+                await removeReleaseJournal({ config })
+            }
+
             logging.info(`Monodeploy completed successfully`, { report })
+        } catch (err) {
+            if (config.rollback) {
+                // A failing rollback must not mask the error of the release
+                try {
+                    await report.startTimerPromise(
+                        'Rolling Back Release',
+                        { skipIfEmpty: false },
+                        async () => {
+                            const rollbackActions = await rollbackRelease({
+                                config,
+                                context,
+                                registryUrl: defaultPublishRegistryUrl,
+                                previousVersions,
+                                publishedVersions,
+                                createdGitTags: createdGitTags ?? new Map(),
+                                pushedGitTags,
+                            })
+
+                            // Record the rollback in place of the release
+                            result = {}
+                            for (const [pkgName, version] of newVersions) {
+                                result[pkgName] = {
+                                    version,
+                                    previousVersion:
+                                        previousVersions.get(pkgName) ?? null,
+                                    changelog: null,
+                                    tag: null,
+                                    strategy:
+                                        versionStrategies.get(pkgName)?.type ??
+                                        null,
+                                    rollback:
+                                        rollbackActions.get(pkgName) ?? [],
+                                }
+                            }
+                            await writeChangesetData({
+                                config,
+                                context,
+                                changesetData: result,
+                                rollback: true,
+                            })
+
+                            // The journal no longer reflects the release
+                            if (config.journalFilename && !config.dryRun) {
+                                await removeReleaseJournal({ config })
+                            }
+                        },
+                    )
+                } catch (rollbackErr) {
+                    logging.error(
+                        '[Rollback] Failed to roll back the release',
+                        {
+                            report,
+                        },
+                    )
+                    logging.error(rollbackErr, { report })
+                }
+            }
+            throw err
         } finally {
             await report.startTimerPromise(
                 'Cleaning Up',
@@ -278,23 +512,29 @@ const monodeploy = async (
         }
     }
 
-    const report = await StreamReport.start(
-        {
-            configuration,
-            stdout: process.stdout,
-            includeLogs: !plumbingMode,
-            includeInfos: !plumbingMode,
-            includeWarnings: !plumbingMode,
-            includeFooter: !plumbingMode,
+    await runWithContext(
+        config,
+        async (context, hooks) => {
+            try {
+                await pipeline(context, hooks)
+            } catch (err) {
+                // A failing hook must not mask the error of the release
+                try {
+                    await hooks.onReleaseFailed.promise(context, config, err)
+                } catch (hookErr) {
+                    logging.error('[Hooks] onReleaseFailed failed', {
+                        report: context.report,
+                    })
+                    logging.error(hookErr, { report: context.report })
+                }
+                throw err
+            }
         },
-        pipeline,
+        { quiet: plumbingMode },
     )
 
-    if (report.hasErrors()) {
-        throw new Error('Monodeploy failed')
-    }
-
     return result
 }
 
 export default monodeploy
+export * from './commands'
@@ -0,0 +1,282 @@
+import { execSync } from 'child_process'
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import {
+    cleanUp,
+    createCommit,
+    createFile,
+    setupTestRepository,
+} from '@monodeploy/test-utils'
+import type { ChangelogStore } from '@monodeploy/types'
+
+// Skipping the git mock as we use a temp repository for these tests.
+jest.mock('@monodeploy/git', () => jest.requireActual('@monodeploy/git'))
+
+import { backfillChangelog } from '..'
+
+const stripVolatile = (changelog: string): string =>
+    changelog
+        .replace(/\(\d{4}-\d{2}-\d{2}\)/g, '(DATE)')
+        .replace(/\([0-9a-f]{7}\)/g, '(SHA)')
+
+describe('Monodeploy (Changelog Backfill)', () => {
+    let cwd: string
+
+    beforeEach(async () => {
+        cwd = await setupTestRepository({
+            'pkg-1': {},
+            'pkg-2': {},
+            'pkg-3': { private: true },
+        })
+        await fs.writeFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            [
+                '# Changelog',
+                '',
+                'All notable changes.',
+                '',
+                '<!-- MONODEPLOY:BELOW -->',
+                '',
+                '## Outdated entry',
+                '',
+            ].join('\n'),
+        )
+        await createCommit('chore: initial commit', cwd)
+        execSync('git tag pkg-1@1.0.0 && git tag pkg-2@1.0.0', { cwd })
+    })
+
+    afterEach(async () => {
+        await cleanUp([cwd])
+    })
+
+    it('backfills the changelog entries from the release tags', async () => {
+        await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+        await createCommit('feat: a feature', cwd)
+        execSync('git tag pkg-1@1.1.0', { cwd })
+
+        await createFile({ filePath: 'packages/pkg-1/fix.js', cwd })
+        await createFile({ filePath: 'packages/pkg-2/fix.js', cwd })
+        await createCommit('fix: a shared fix', cwd)
+        await createFile({ filePath: 'packages/pkg-3/fix.js', cwd })
+        await createCommit('fix: a private fix', cwd)
+        execSync('git tag pkg-1@1.1.1 && git tag pkg-2@1.0.1', { cwd })
+
+        const entries = await backfillChangelog({
+            cwd,
+            changelogFilename: 'CHANGELOG.md',
+        })
+
+        expect(entries.map(({ packageName }) => packageName)).toEqual([
+            'pkg-1',
+            'pkg-1',
+            'pkg-2',
+        ])
+
+        const changelog = await fs.readFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            'utf8',
+        )
+        expect(stripVolatile(changelog)).toMatchInlineSnapshot(`
+            "# Changelog
+
+            All notable changes.
+
+            <!-- MONODEPLOY:BELOW -->
+
+            ## Outdated entry
+
+            ## 1.1.1 (DATE)
+
+            ### Bug Fixes
+
+            * a shared fix (SHA)
+
+            ## 1.1.0 (DATE)
+
+            ### Features
+
+            * a feature (SHA)
+
+            ## 1.0.1 (DATE)
+
+            ### Bug Fixes
+
+            * a shared fix (SHA)
+            "
+        `)
+    })
+
+    it('keeps the existing changelog entries', async () => {
+        execSync('git tag -d pkg-1@1.0.0', { cwd })
+        await createFile({ filePath: 'packages/pkg-1/first.js', cwd })
+        await createCommit('feat: a first feature', cwd)
+        execSync('git tag pkg-1@1.0.0', { cwd })
+
+        await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+        await createCommit('feat: a feature', cwd)
+        execSync('git tag pkg-1@1.1.0', { cwd })
+
+        await createFile({ filePath: 'packages/pkg-1/fix.js', cwd })
+        await createCommit('fix: a fix', cwd)
+        execSync('git tag pkg-1@1.1.1', { cwd })
+
+        const date = execSync(
+            'git for-each-ref --format="%(creatordate:short)" refs/tags/pkg-1@1.1.0',
+            { cwd, encoding: 'utf8' },
+        ).trim()
+        await fs.writeFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            [
+                '# Changelog',
+                '',
+                '<!-- MONODEPLOY:BELOW -->',
+                '',
+                `## 1.1.0 (${date})`,
+                '',
+                '* Hand-written notes',
+                '',
+                '## 0.1.0 (2020-01-01)',
+                '',
+                '* A release of an untagged package',
+                '',
+            ].join('\n'),
+        )
+
+        await backfillChangelog({
+            cwd,
+            changelogFilename: 'CHANGELOG.md',
+        })
+
+        const changelog = await fs.readFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            'utf8',
+        )
+        expect(stripVolatile(changelog)).toMatchInlineSnapshot(`
+            "# Changelog
+
+            <!-- MONODEPLOY:BELOW -->
+
+            ## 1.1.1 (DATE)
+
+            ### Bug Fixes
+
+            * a fix (SHA)
+
+            ## 1.1.0 (DATE)
+
+            * Hand-written notes
+
+            ## 1.0.0 (DATE)
+
+            ### Features
+
+            * a first feature (SHA)
+
+            ## 0.1.0 (DATE)
+
+            * A release of an untagged package
+            "
+        `)
+    })
+
+    it('reads the release tags via the tag template', async () => {
+        execSync('git tag pkg-1-v1.0.0', { cwd })
+        await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+        await createCommit('feat: a feature', cwd)
+        // Tags of the default template are ignored
+        execSync('git tag pkg-1-v1.1.0 && git tag pkg-2@1.0.1', { cwd })
+
+        const entries = await backfillChangelog({
+            cwd,
+            changelogFilename: 'CHANGELOG.md',
+            tagTemplate: '{unscopedName}-v{version}',
+        })
+
+        expect(
+            entries.map(
+                ({ packageName, version }) => `${packageName}@${version}`,
+            ),
+        ).toEqual(['pkg-1@1.1.0'])
+    })
+
+    it('records the backfilled entries in the changelog store', async () => {
+        await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+        await createCommit('feat: a feature', cwd)
+        await createFile({ filePath: 'packages/pkg-2/chore.js', cwd })
+        await createCommit('chore: a chore', cwd)
+        execSync('git tag pkg-1@1.1.0 && git tag pkg-2@1.0.1', { cwd })
+
+        await backfillChangelog({
+            cwd,
+            changelogFilename: 'CHANGELOG.md',
+            changelogStoreFilename: '<packageDir>/changelog.json',
+        })
+
+        const store: ChangelogStore = JSON.parse(
+            await fs.readFile(
+                path.join(cwd, 'packages', 'pkg-1', 'changelog.json'),
+                'utf8',
+            ),
+        )
+        expect(store.entries).toEqual([
+            expect.objectContaining({
+                name: 'pkg-1',
+                version: '1.1.0',
+                previousVersion: '1.0.0',
+                tag: 'pkg-1@1.1.0',
+                commits: [
+                    expect.objectContaining({
+                        type: 'feat',
+                        subject: 'a feature',
+                    }),
+                ],
+                changelog: expect.stringContaining('* a feature'),
+            }),
+            // The first tagged version is rendered from the initial commits
+            expect.objectContaining({
+                name: 'pkg-1',
+                version: '1.0.0',
+                previousVersion: null,
+                commits: [expect.objectContaining({ type: 'chore' })],
+                changelog: null,
+            }),
+        ])
+
+        // Versions without notable changes are recorded without an entry
+        const dependentStore: ChangelogStore = JSON.parse(
+            await fs.readFile(
+                path.join(cwd, 'packages', 'pkg-2', 'changelog.json'),
+                'utf8',
+            ),
+        )
+        expect(dependentStore.entries).toEqual([
+            expect.objectContaining({
+                name: 'pkg-2',
+                version: '1.0.1',
+                commits: [expect.objectContaining({ type: 'chore' })],
+                changelog: null,
+            }),
+            expect.objectContaining({ name: 'pkg-2', version: '1.0.0' }),
+        ])
+    })
+
+    it('does not write the changelog in dry run mode', async () => {
+        await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+        await createCommit('feat: a feature', cwd)
+        execSync('git tag pkg-1@1.1.0', { cwd })
+
+        const entries = await backfillChangelog({
+            cwd,
+            dryRun: true,
+            changelogFilename: 'CHANGELOG.md',
+        })
+
+        expect(entries).toHaveLength(1)
+        const changelog = await fs.readFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            'utf8',
+        )
+        expect(changelog).toContain('## Outdated entry')
+    })
+})
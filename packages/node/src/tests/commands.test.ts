@@ -0,0 +1,322 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import * as git from '@monodeploy/git'
+import { LOG_LEVELS } from '@monodeploy/logging'
+import { setupMonorepo } from '@monodeploy/test-utils'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import * as npm from '@yarnpkg/plugin-npm'
+
+import { changelog, publish, status, tag, version } from '..'
+
+jest.mock('@yarnpkg/plugin-npm')
+jest.mock('@monodeploy/git')
+
+const mockGit = git as jest.Mocked<
+    typeof git & {
+        _reset_: () => void
+        _commitFiles_: (sha: string, commit: string, files: string[]) => void
+        _getPushedTags_: () => string[]
+        _getTags_: () => string[]
+        _getRegistry_: () => { tagMessages: Map<string, string> }
+    }
+>
+const mockNPM = npm as jest.Mocked<
+    typeof npm & {
+        _reset_: () => void
+        _setTag_: (pkgName: string, tagValue: string, tagKey?: string) => void
+        _setVersion_: (
+            pkgName: string,
+            version: string,
+            dist: { integrity?: string; shasum?: string },
+        ) => void
+    }
+>
+
+const setupExampleMonorepo = async (): Promise<YarnContext> => {
+    const context = await setupMonorepo(
+        {
+            'pkg-1': { version: '0.0.1' },
+            'pkg-2': { version: '0.0.1', dependencies: ['pkg-1'] },
+            'pkg-3': { version: '0.0.1' },
+        },
+        {
+            root: {
+                dependencies: {
+                    '@tophat/conventional-changelog-config': '^0.5.0',
+                },
+            },
+        },
+    )
+    return context
+}
+
+const readManifest = async (
+    cwd: string,
+    pkgName: string,
+): Promise<Record<string, unknown>> =>
+    JSON.parse(
+        await fs.readFile(
+            path.join(cwd, 'packages', pkgName, 'package.json'),
+            'utf8',
+        ),
+    )
+
+describe('Monodeploy (Subcommands)', () => {
+    const monodeployConfig: MonodeployConfiguration = {
+        cwd: '/tmp/to-be-overwritten-by-before-each',
+        dryRun: false,
+        noRegistry: false,
+        autoCommit: false,
+        autoCommitMessage: 'chore: release [skip ci]',
+        git: {
+            baseBranch: 'main',
+            commitSha: 'HEAD',
+            remote: 'origin',
+            push: true,
+            tag: true,
+        },
+        conventionalChangelogConfig: '@tophat/conventional-changelog-config',
+        changelogFilename: 'CHANGELOG.md',
+        access: 'public',
+        persistVersions: false,
+        topological: false,
+        topologicalDev: false,
+        jobs: 0,
+        forceWriteChangeFiles: false,
+        maxConcurrentReads: 2,
+        maxConcurrentWrites: 0,
+        prerelease: false,
+        prereleaseId: 'rc',
+        prereleaseNPMTag: 'next',
+    }
+
+    beforeAll(async () => {
+        process.env.MONODEPLOY_LOG_LEVEL = String(LOG_LEVELS.ERROR)
+    })
+
+    beforeEach(async () => {
+        const context = await setupExampleMonorepo()
+        monodeployConfig.cwd = context.project.cwd
+
+        // The current versions have previously been released
+        for (const pkgName of ['pkg-1', 'pkg-2', 'pkg-3']) {
+            mockNPM._setTag_(pkgName, '0.0.1')
+            await mockGit.gitTag(`${pkgName}@0.0.1`, {
+                cwd: context.project.cwd,
+                context,
+            })
+        }
+    })
+
+    afterEach(async () => {
+        mockGit._reset_()
+        mockNPM._reset_()
+        try {
+            await fs.rm(monodeployConfig.cwd, { recursive: true, force: true })
+        } catch {}
+    })
+
+    afterAll(() => {
+        delete process.env.MONODEPLOY_LOG_LEVEL
+    })
+
+    it('releases in separate steps', async () => {
+        const cwd = monodeployConfig.cwd
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        expect(await status(monodeployConfig)).toEqual([
+            {
+                name: 'pkg-1',
+                previousVersion: '0.0.1',
+                version: '0.1.0',
+                strategy: 'minor',
+                source: 'explicit',
+            },
+            {
+                name: 'pkg-2',
+                previousVersion: '0.0.1',
+                version: '0.0.2',
+                strategy: 'patch',
+                source: 'implicit',
+            },
+        ])
+
+        // Versioning persists the manifests, preserving workspace protocols
+        await version(monodeployConfig)
+        expect(await readManifest(cwd, 'pkg-1')).toEqual(
+            expect.objectContaining({ version: '0.1.0' }),
+        )
+        expect(await readManifest(cwd, 'pkg-2')).toEqual(
+            expect.objectContaining({
+                version: '0.0.2',
+                dependencies: { 'pkg-1': 'workspace:^0.1.0' },
+            }),
+        )
+
+        const changeset = await changelog(monodeployConfig)
+        expect(changeset['pkg-1'].version).toEqual('0.1.0')
+        expect(
+            await fs.readFile(path.join(cwd, 'CHANGELOG.md'), 'utf8'),
+        ).toEqual(expect.stringContaining('some new feature'))
+        expect(mockGit._getTags_()).not.toContain('pkg-1@0.1.0')
+
+        // Only the untagged versions are published
+        expect(await publish(monodeployConfig)).toEqual(
+            new Map([
+                ['pkg-1', '0.1.0'],
+                ['pkg-2', '0.0.2'],
+            ]),
+        )
+
+        expect(await tag(monodeployConfig)).toEqual(
+            new Map([
+                ['pkg-1', 'pkg-1@0.1.0'],
+                ['pkg-2', 'pkg-2@0.0.2'],
+            ]),
+        )
+        expect(mockGit._getPushedTags_()).toEqual(
+            expect.arrayContaining(['pkg-1@0.1.0', 'pkg-2@0.0.2']),
+        )
+
+        // Once tagged, there is nothing left to publish or tag
+        expect(await publish(monodeployConfig)).toEqual(new Map())
+        expect(await tag(monodeployConfig)).toEqual(new Map())
+    })
+
+    it('reads the changelogs of the tag messages from the changelog store', async () => {
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+        const config = {
+            ...monodeployConfig,
+            changelogStoreFilename: 'changelog.json',
+            tagMessageTemplate: '{tag}\n\n{changelog}',
+        }
+
+        await version(config)
+        const changeset = await changelog(config)
+        await tag(config)
+
+        const tagMessages = mockGit._getRegistry_().tagMessages
+        expect(tagMessages.get('pkg-1@0.1.0')).toEqual(
+            `pkg-1@0.1.0\n\n${changeset['pkg-1'].changelog!.trim()}`,
+        )
+        expect(tagMessages.get('pkg-1@0.1.0')).toEqual(
+            expect.stringContaining('some new feature'),
+        )
+    })
+
+    it('executes the onReleaseAvailable plugin once tagged', async () => {
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+        await fs.writeFile(
+            path.join(monodeployConfig.cwd, 'onReleaseAvailable.plugin.js'),
+            `
+                const fs = require('fs');
+                const path = require('path');
+                module.exports = ({ onReleaseAvailable }) => {
+                    onReleaseAvailable.tapPromise('CustomPlugin', async (context, config, changeset) => {
+                        fs.writeFileSync(path.resolve(config.cwd, 'changeset.json'), JSON.stringify(changeset));
+                    })
+                }
+            `,
+        )
+        const config = {
+            ...monodeployConfig,
+            plugins: ['./onReleaseAvailable.plugin.js'],
+        }
+
+        await version(config)
+        await publish(config)
+        await tag(config)
+
+        const changeset = JSON.parse(
+            await fs.readFile(
+                path.join(monodeployConfig.cwd, 'changeset.json'),
+                'utf8',
+            ),
+        )
+        expect(changeset).toEqual({
+            'pkg-1': { version: '0.1.0', changelog: null, tag: 'pkg-1@0.1.0' },
+            'pkg-2': { version: '0.0.2', changelog: null, tag: 'pkg-2@0.0.2' },
+        })
+    })
+
+    it('skips versions which have already been published', async () => {
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+        await version(monodeployConfig)
+
+        const spyPut = jest.spyOn(npm.npmHttpUtils, 'put')
+
+        // The versions remain untagged, e.g. if tagging failed
+        await publish(monodeployConfig)
+        await publish(monodeployConfig)
+
+        expect(
+            spyPut.mock.calls.map(
+                ([, body]) => (body as { name: string }).name,
+            ),
+        ).toEqual(['pkg-1', 'pkg-2'])
+        spyPut.mockRestore()
+    })
+
+    it('skips versions which are not newer than the latest release tag', async () => {
+        // The manifest declares a version older than the latest release tag
+        const manifestFilename = path.join(
+            monodeployConfig.cwd,
+            'packages',
+            'pkg-3',
+            'package.json',
+        )
+        await fs.writeFile(
+            manifestFilename,
+            JSON.stringify({
+                ...(await readManifest(monodeployConfig.cwd, 'pkg-3')),
+                version: '0.0.0',
+            }),
+        )
+        const spyPut = jest.spyOn(npm.npmHttpUtils, 'put')
+
+        expect(await publish(monodeployConfig)).toEqual(new Map())
+        expect(spyPut).not.toHaveBeenCalled()
+        spyPut.mockRestore()
+    })
+
+    it('throws an error if a version has been published with different contents', async () => {
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+        await version(monodeployConfig)
+        mockNPM._setVersion_('pkg-1', '0.1.0', {
+            integrity: 'sha512-somethingelse',
+        })
+        const spyPut = jest.spyOn(npm.npmHttpUtils, 'put')
+
+        await expect(publish(monodeployConfig)).rejects.toThrow()
+        expect(
+            spyPut.mock.calls.map(
+                ([, body]) => (body as { name: string }).name,
+            ),
+        ).not.toContain('pkg-1')
+        spyPut.mockRestore()
+    })
+
+    it('does not modify the manifests when versioning in dry run mode', async () => {
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const versions = await version({ ...monodeployConfig, dryRun: true })
+
+        expect(versions.get('pkg-1')).toEqual('0.1.0')
+        expect(await readManifest(monodeployConfig.cwd, 'pkg-1')).toEqual(
+            expect.objectContaining({ version: '0.0.1' }),
+        )
+    })
+})
@@ -256,6 +256,7 @@ describe('Monodeploy (Dry Run)', () => {
                 ...monodeployConfig,
                 changelogFilename,
                 changesetFilename,
+                changesetSchemaVersion: 2,
                 forceWriteChangeFiles: true,
             })
 
@@ -282,11 +283,12 @@ describe('Monodeploy (Dry Run)', () => {
                 }),
             )
 
-            expect(changeset).toEqual(
+            expect(changeset.packages).toEqual(
                 expect.objectContaining({
                     'pkg-1': expect.objectContaining({
                         version: '0.1.0',
                         changelog: expect.stringContaining('some new feature'),
+                        publishedAt: null,
                     }),
                 }),
             )
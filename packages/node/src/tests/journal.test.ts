@@ -0,0 +1,184 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import * as git from '@monodeploy/git'
+import { LOG_LEVELS } from '@monodeploy/logging'
+import { setupMonorepo } from '@monodeploy/test-utils'
+import type {
+    MonodeployConfiguration,
+    ReleaseJournal,
+    YarnContext,
+} from '@monodeploy/types'
+import * as npm from '@yarnpkg/plugin-npm'
+
+import monodeploy from '..'
+
+jest.mock('@yarnpkg/plugin-npm')
+jest.mock('@monodeploy/git')
+
+const mockGit = git as jest.Mocked<
+    typeof git & {
+        _reset_: () => void
+        _commitFiles_: (sha: string, commit: string, files: string[]) => void
+        _getPushedTags_: () => string[]
+        _getTags_: () => string[]
+    }
+>
+const mockNPM = npm as jest.Mocked<
+    typeof npm & {
+        _reset_: () => void
+        _setTag_: (pkgName: string, tagValue: string, tagKey?: string) => void
+    }
+>
+
+const setupExampleMonorepo = async (): Promise<YarnContext> => {
+    const context = await setupMonorepo(
+        {
+            'pkg-1': { version: '0.0.1' },
+            'pkg-2': { version: '0.0.1', dependencies: ['pkg-1'] },
+            'pkg-3': { version: '0.0.1' },
+        },
+        {
+            root: {
+                dependencies: {
+                    '@tophat/conventional-changelog-config': '^0.5.0',
+                },
+            },
+        },
+    )
+    return context
+}
+
+describe('Monodeploy (Release Journal)', () => {
+    const journalFilename = '.monodeploy/journal.json'
+    const monodeployConfig: MonodeployConfiguration = {
+        cwd: '/tmp/to-be-overwritten-by-before-each',
+        dryRun: false,
+        noRegistry: false,
+        autoCommit: false,
+        autoCommitMessage: 'chore: release [skip ci]',
+        git: {
+            baseBranch: 'main',
+            commitSha: 'HEAD',
+            remote: 'origin',
+            push: true,
+            tag: true,
+        },
+        conventionalChangelogConfig: '@tophat/conventional-changelog-config',
+        access: 'public',
+        persistVersions: false,
+        topological: true,
+        topologicalDev: false,
+        jobs: 0,
+        forceWriteChangeFiles: false,
+        maxConcurrentReads: 2,
+        maxConcurrentWrites: 0,
+        prerelease: false,
+        prereleaseId: 'rc',
+        prereleaseNPMTag: 'next',
+        journalFilename,
+    }
+
+    const readJournal = async (): Promise<ReleaseJournal> =>
+        JSON.parse(
+            await fs.readFile(
+                path.join(monodeployConfig.cwd, journalFilename),
+                'utf8',
+            ),
+        )
+
+    beforeAll(async () => {
+        process.env.MONODEPLOY_LOG_LEVEL = String(LOG_LEVELS.ERROR)
+    })
+
+    beforeEach(async () => {
+        const context = await setupExampleMonorepo()
+        monodeployConfig.cwd = context.project.cwd
+
+        for (const pkgName of ['pkg-1', 'pkg-2', 'pkg-3']) {
+            mockNPM._setTag_(pkgName, '0.0.1')
+        }
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+    })
+
+    afterEach(async () => {
+        jest.restoreAllMocks()
+        mockGit._reset_()
+        mockNPM._reset_()
+        try {
+            await fs.rm(monodeployConfig.cwd, { recursive: true, force: true })
+        } catch {}
+    })
+
+    afterAll(() => {
+        delete process.env.MONODEPLOY_LOG_LEVEL
+    })
+
+    it('removes the journal once the release completes', async () => {
+        await monodeploy(monodeployConfig)
+
+        await expect(readJournal()).rejects.toThrow(/ENOENT/)
+    })
+
+    it('resumes a release which failed while publishing', async () => {
+        const put = npm.npmHttpUtils.put
+        const spyPut = jest
+            .spyOn(npm.npmHttpUtils, 'put')
+            .mockImplementation(async (identUrl, body, options) => {
+                if ((body as { name: string }).name === 'pkg-2') {
+                    throw new Error('Registry outage')
+                }
+                return put(identUrl, body, options)
+            })
+
+        await expect(monodeploy(monodeployConfig)).rejects.toThrow()
+
+        const journal = await readJournal()
+        expect(journal.newVersions).toEqual({
+            'pkg-1': '0.1.0',
+            'pkg-2': '0.0.2',
+        })
+        expect(journal.published).toEqual(['pkg-1'])
+        expect(journal.tags).toEqual({})
+        expect(journal.changeset).toBeNull()
+
+        spyPut.mockRestore()
+        const spyResumedPut = jest.spyOn(npm.npmHttpUtils, 'put')
+
+        const result = await monodeploy({ ...monodeployConfig, resume: true })
+
+        // Only the remaining package is published, with the planned versions
+        expect(
+            spyResumedPut.mock.calls.map(
+                ([, body]) => (body as { name: string }).name,
+            ),
+        ).toEqual(['pkg-2'])
+        expect(result['pkg-1'].version).toEqual('0.1.0')
+        expect(result['pkg-1'].previousVersion).toEqual('0.0.1')
+        expect(result['pkg-2'].version).toEqual('0.0.2')
+        expect(mockGit._getPushedTags_()).toEqual(
+            expect.arrayContaining(['pkg-1@0.1.0', 'pkg-2@0.0.2']),
+        )
+        await expect(readJournal()).rejects.toThrow(/ENOENT/)
+    })
+
+    it('starts a new release when resuming without a journal', async () => {
+        const result = await monodeploy({ ...monodeployConfig, resume: true })
+
+        expect(result['pkg-1'].version).toEqual('0.1.0')
+        expect(result['pkg-2'].version).toEqual('0.0.2')
+    })
+
+    it('throws an error when resuming without a journal filename', async () => {
+        await expect(
+            monodeploy({
+                ...monodeployConfig,
+                journalFilename: undefined,
+                resume: true,
+            }),
+        ).rejects.toThrow()
+        expect(mockGit._getPushedTags_()).toHaveLength(0)
+    })
+})
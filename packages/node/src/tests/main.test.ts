@@ -31,10 +31,12 @@ const mockGit = git as jest.Mocked<
         _commitFiles_: (sha: string, commit: string, files: string[]) => void
         _getPushedTags_: () => string[]
         _getTags_: () => string[]
+        _setChangedFiles_: (files: string[]) => void
         _getRegistry_: () => {
             commits: CommitMessage[]
             filesModified: Map<string, string[]>
             tags: string[]
+            tagMessages: Map<string, string>
             pushedTags: string[]
             lastTaggedCommit?: string
             pushedCommits: string[]
@@ -224,6 +226,25 @@ describe('Monodeploy', () => {
         expect(mockGit._getPushedTags_()).toEqual([])
     })
 
+    it('includes the changelog in the tag messages', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const result = await monodeploy({
+            ...monodeployConfig,
+            tagMessageTemplate: '{name} {version}\n\n{changelog}',
+        })
+
+        expect(mockGit._getRegistry_().tagMessages.get('pkg-1@0.1.0')).toEqual(
+            `pkg-1 0.1.0\n\n${result['pkg-1'].changelog!.trim()}`,
+        )
+        expect(result['pkg-1'].changelog).toEqual(
+            expect.stringContaining('some new feature'),
+        )
+    })
+
     it('does not create tags if git tag mode disabled', async () => {
         mockNPM._setTag_('pkg-1', '0.0.1')
         mockNPM._setTag_('pkg-2', '0.0.1')
@@ -269,11 +290,15 @@ describe('Monodeploy', () => {
 
         // pkg-3 depends on pkg-2, and is updated as dependent
         expect(result['pkg-3'].version).toEqual('0.0.2')
-        expect(result['pkg-3'].changelog).toBeNull()
+        expect(result['pkg-3'].changelog).toEqual(
+            expect.stringContaining('`pkg-2`: 0.0.1 → 1.0.0'),
+        )
 
         // pkg-6 depends on pkg-3, and is updated as a transitive dependent
         expect(result['pkg-6'].version).toEqual('0.0.2')
-        expect(result['pkg-6'].changelog).toBeNull()
+        expect(result['pkg-6'].changelog).toEqual(
+            expect.stringContaining('`pkg-3`: 0.0.1 → 0.0.2'),
+        )
 
         // Not tags pushed in dry run
         expect(mockGit._getPushedTags_()).toEqual([
@@ -283,6 +308,46 @@ describe('Monodeploy', () => {
         ])
     })
 
+    it('adds dependency updates to the changelogs of dependents', async () => {
+        mockNPM._setTag_('pkg-2', '0.0.1')
+        mockNPM._setTag_('pkg-3', '0.0.1')
+        mockNPM._setTag_('pkg-6', '0.0.1')
+        mockGit._commitFiles_('sha1', 'fix: a fix', [
+            './packages/pkg-2/README.md',
+        ])
+
+        await monodeploy({
+            ...monodeployConfig,
+            changelogFilename: 'CHANGELOG.md',
+            packages: {
+                'pkg-6': { changelogFilename: '<packageDir>/CHANGELOG.md' },
+            },
+        })
+
+        const readChangelog = async (filename: string): Promise<string> =>
+            await fs.readFile(path.join(monodeployConfig.cwd, filename), {
+                encoding: 'utf-8',
+            })
+
+        const rootChangelog = await readChangelog('CHANGELOG.md')
+        expect(rootChangelog).toEqual(expect.stringContaining('a fix'))
+        expect(rootChangelog).toEqual(
+            expect.stringContaining(
+                '### Dependency Updates\n\n* `pkg-2`: 0.0.1 → 0.0.2',
+            ),
+        )
+        expect(rootChangelog).not.toEqual(expect.stringContaining('`pkg-3`'))
+
+        const packageChangelog = await readChangelog(
+            'packages/pkg-6/CHANGELOG.md',
+        )
+        expect(packageChangelog).toEqual(
+            expect.stringContaining(
+                '### Dependency Updates\n\n* `pkg-3`: 0.0.1 → 0.0.2',
+            ),
+        )
+    })
+
     it('publishes changed workspaces with distinct version stategies and commits', async () => {
         mockNPM._setTag_('pkg-1', '0.0.1')
         mockNPM._setTag_('pkg-2', '0.0.1')
@@ -314,11 +379,15 @@ describe('Monodeploy', () => {
 
         // pkg-3 depends on pkg-2
         expect(result['pkg-3'].version).toEqual('0.0.2')
-        expect(result['pkg-3'].changelog).toBeNull()
+        expect(result['pkg-3'].changelog).toEqual(
+            expect.stringContaining('Dependency Updates'),
+        )
 
         // pkg-6 depends on pkg-3, and is updated as a transitive dependent
         expect(result['pkg-6'].version).toEqual('0.0.2')
-        expect(result['pkg-6'].changelog).toBeNull()
+        expect(result['pkg-6'].changelog).toEqual(
+            expect.stringContaining('Dependency Updates'),
+        )
 
         expect(mockGit._getPushedTags_()).toEqual([
             'pkg-1@0.1.0',
@@ -356,6 +425,7 @@ describe('Monodeploy', () => {
                 ...monodeployConfig,
                 changelogFilename,
                 changesetFilename,
+                changesetSchemaVersion: 2,
             })
 
             // pkg-1 is explicitly updated with minor bump
@@ -381,13 +451,24 @@ describe('Monodeploy', () => {
                 }),
             )
 
-            expect(changeset).toEqual(
+            expect(changeset.schemaVersion).toEqual(2)
+            expect(changeset.packages).toEqual(
                 expect.objectContaining({
                     'pkg-1': expect.objectContaining({
                         version: '0.1.0',
                         changelog: expect.stringContaining('some new feature'),
                         strategy: 'minor',
                         previousVersion: '0.0.1',
+                        source: 'explicit',
+                        commits: [
+                            expect.objectContaining({
+                                sha: 'sha1',
+                                body: 'feat: some new feature!',
+                                type: 'feat',
+                            }),
+                        ],
+                        distTag: 'latest',
+                        publishedAt: expect.any(String),
                     }),
                 }),
             )
@@ -416,6 +497,7 @@ describe('Monodeploy', () => {
             const result = await monodeploy({
                 ...monodeployConfig,
                 changesetFilename: '-',
+                changesetSchemaVersion: 2,
             })
 
             // pkg-1 is explicitly updated with minor bump
@@ -425,7 +507,10 @@ describe('Monodeploy', () => {
             await expect(fs.stat(changesetFilename)).rejects.toThrow()
 
             // assert stdout is equal to the returned result
-            expect(JSON.parse(spyConsoleLog.mock.calls[0][0])).toEqual(result)
+            expect(JSON.parse(spyConsoleLog.mock.calls[0][0])).toEqual({
+                schemaVersion: 2,
+                packages: result,
+            })
 
             expect(result).toEqual(
                 expect.objectContaining({
@@ -558,10 +643,7 @@ describe('Monodeploy', () => {
                 ._getRegistry_()
                 .filesModified.get(autoCommit.sha)
             expect(autoCommitFiles).toEqual(
-                expect.arrayContaining([
-                    changelogFilename,
-                    '"**/package.json"',
-                ]),
+                expect.arrayContaining([changelogFilename, '**/package.json']),
             )
 
             // assert commit pushed
@@ -620,10 +702,7 @@ describe('Monodeploy', () => {
                 ._getRegistry_()
                 .filesModified.get(autoCommit.sha)
             expect(autoCommitFiles).toEqual(
-                expect.arrayContaining([
-                    changelogFilename,
-                    '"**/package.json"',
-                ]),
+                expect.arrayContaining([changelogFilename, '**/package.json']),
             )
 
             // assert commit pushed
@@ -638,6 +717,103 @@ describe('Monodeploy', () => {
         }
     })
 
+    it('adds the changelog archives to the autocommit', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'changelog-'))
+        const changelogFilename = path.join(tempDir, 'changelog.md')
+        const archiveFilename = path.join(tempDir, 'changelog-2020.md')
+        mockGit._setChangedFiles_([archiveFilename])
+        const listChangedFilesSpy = jest.spyOn(mockGit, 'gitListChangedFiles')
+
+        try {
+            await monodeploy({
+                ...monodeployConfig,
+                changelogFilename,
+                changelogMaxEntries: 1,
+                autoCommit: true,
+                autoCommitMessage: 'chore: some unique message',
+            })
+
+            expect(listChangedFilesSpy).toHaveBeenCalledWith(
+                [path.join(tempDir, 'changelog-*.md')],
+                expect.anything(),
+            )
+
+            const autoCommit =
+                mockGit._getRegistry_().commits[
+                    mockGit._getRegistry_().commits.length - 1
+                ]
+            expect(
+                mockGit._getRegistry_().filesModified.get(autoCommit.sha),
+            ).toEqual(
+                expect.arrayContaining([changelogFilename, archiveFilename]),
+            )
+        } finally {
+            listChangedFilesSpy.mockRestore()
+            await fs.rm(tempDir, { recursive: true, force: true })
+        }
+    })
+
+    it('uses intent files to determine versions and consumes them on autocommit', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+        mockNPM._setTag_('pkg-4', '1.0.0')
+        mockGit._commitFiles_('sha1', 'feat: ignored in intent mode', [
+            './packages/pkg-2/README.md',
+        ])
+
+        const intentFilesDirectory = path.join(
+            monodeployConfig.cwd,
+            '.changeset',
+        )
+        await fs.mkdir(intentFilesDirectory, { recursive: true })
+        await fs.writeFile(
+            path.join(intentFilesDirectory, 'brave-cats.md'),
+            '---\n"pkg-1": minor\n"pkg-4": patch\n---\n\nAdd a new feature.\n',
+        )
+        await fs.writeFile(
+            path.join(intentFilesDirectory, 'README.md'),
+            'Not an intent file.',
+        )
+
+        const result = await monodeploy({
+            ...monodeployConfig,
+            intentFilesDirectory: '.changeset',
+            autoCommit: true,
+            autoCommitMessage: 'chore: some unique message',
+        })
+
+        expect(result['pkg-1'].version).toEqual('0.1.0')
+        expect(result['pkg-1'].changelog).toEqual(
+            expect.stringContaining(
+                '### Minor Changes\n\n* Add a new feature.',
+            ),
+        )
+        // pkg-5 depends on pkg-4
+        expect(result['pkg-4'].version).toEqual('1.0.1')
+        expect(result['pkg-5'].version).toEqual('0.0.1')
+        // pkg-2 was modified, but has no intent file
+        expect(result['pkg-2']).toBeUndefined()
+
+        // assert the intent file is removed in the autocommit
+        await expect(
+            fs.access(path.join(intentFilesDirectory, 'brave-cats.md')),
+        ).rejects.toThrow()
+        await expect(
+            fs.access(path.join(intentFilesDirectory, 'README.md')),
+        ).resolves.toBeUndefined()
+        const autoCommit =
+            mockGit._getRegistry_().commits[
+                mockGit._getRegistry_().commits.length - 1
+            ]
+        expect(
+            mockGit._getRegistry_().filesModified.get(autoCommit.sha),
+        ).toEqual(expect.arrayContaining(['.changeset/brave-cats.md']))
+    })
+
     it('supports prereleases', async () => {
         mockNPM._setTag_('pkg-1', '1.0.1', 'latest')
         mockNPM._setTag_('pkg-2', '2.3.0', 'latest')
@@ -668,11 +844,15 @@ describe('Monodeploy', () => {
 
         // pkg-3 depends on pkg-2, and is updated as dependent
         expect(result['pkg-3'].version).toEqual('7.0.0-alpha.1')
-        expect(result['pkg-3'].changelog).toBeNull()
+        expect(result['pkg-3'].changelog).toEqual(
+            expect.stringContaining('`pkg-2`: 2.3.0 → 2.4.0-alpha.4'),
+        )
 
         // pkg-6 depends on pkg-3, and is updated as a transitive dependent
         expect(result['pkg-6'].version).toEqual('0.0.5-alpha.0')
-        expect(result['pkg-6'].changelog).toBeNull()
+        expect(result['pkg-6'].changelog).toEqual(
+            expect.stringContaining('Dependency Updates'),
+        )
 
         expect(mockGit._getPushedTags_()).toEqual([
             'pkg-2@2.4.0-alpha.4',
@@ -680,4 +860,59 @@ describe('Monodeploy', () => {
             'pkg-6@0.0.5-alpha.0',
         ])
     })
+
+    it('applies per-package configuration overrides', async () => {
+        mockNPM._setTag_('pkg-2', '2.3.0')
+        mockNPM._setTag_('pkg-3', '6.0.0')
+        mockNPM._setTag_('pkg-6', '0.0.4')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-2/README.md',
+        ])
+
+        const spyMakePublishBody = jest.spyOn(
+            mockNPM.npmPublishUtils,
+            'makePublishBody',
+        )
+
+        try {
+            const result = await monodeploy({
+                ...monodeployConfig,
+                packages: {
+                    'pkg-[36]': {
+                        prerelease: true,
+                        prereleaseNPMTag: 'canary',
+                    },
+                    'pkg-6': { access: 'restricted' },
+                },
+            })
+
+            expect(result['pkg-2'].version).toEqual('2.4.0')
+            expect(result['pkg-3'].version).toEqual('6.0.1-rc.0')
+            expect(result['pkg-6'].version).toEqual('0.0.5-rc.0')
+
+            const publishOptions = Object.fromEntries(
+                spyMakePublishBody.mock.calls.map(([workspace, , options]) => [
+                    workspace.manifest.name?.name,
+                    options,
+                ]),
+            )
+            expect(publishOptions).toEqual({
+                'pkg-2': expect.objectContaining({
+                    access: 'public',
+                    tag: 'latest',
+                }),
+                'pkg-3': expect.objectContaining({
+                    access: 'public',
+                    tag: 'canary',
+                }),
+                'pkg-6': expect.objectContaining({
+                    access: 'restricted',
+                    tag: 'canary',
+                }),
+            })
+        } finally {
+            spyMakePublishBody.mockRestore()
+        }
+    })
 })
@@ -9,6 +9,7 @@ import type {
     MonodeployConfiguration,
     YarnContext,
 } from '@monodeploy/types'
+import { StreamReport } from '@yarnpkg/core'
 import * as npm from '@yarnpkg/plugin-npm'
 
 import monodeploy from '..'
@@ -154,4 +155,275 @@ describe('Monodeploy Plugins', () => {
             ),
         ).toBe(true)
     })
+
+    it('passes the configured options to the plugin', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'options.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                const fs = require('fs');
+                const path = require('path');
+                module.exports = ({ onReleaseAvailable }, options) => {
+                    onReleaseAvailable.tapPromise('CustomPlugin', async (context, config) => {
+                        fs.writeFileSync(path.resolve(config.cwd, 'plugin-options.json'), JSON.stringify(options));
+                    })
+                }
+            `,
+        )
+
+        await monodeploy({
+            ...monodeployConfig,
+            plugins: [['./options.plugin.js', { message: 'hello' }]],
+        })
+
+        expect(
+            JSON.parse(
+                await fs.promises.readFile(
+                    path.resolve(monodeployConfig.cwd, 'plugin-options.json'),
+                    'utf-8',
+                ),
+            ),
+        ).toEqual({ message: 'hello' })
+    })
+
+    it('executes the lifecycle hooks in order', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'lifecycle.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                const fs = require('fs');
+                const path = require('path');
+                module.exports = (hooks) => {
+                    const record = (config, entry) => fs.appendFileSync(
+                        path.resolve(config.cwd, 'hooks.txt'),
+                        entry + '\\n',
+                    );
+                    hooks.onBeforeVersionStrategies.tapPromise('CustomPlugin', async (context, config) => {
+                        record(config, 'onBeforeVersionStrategies');
+                    });
+                    hooks.onVersionStrategies.tapPromise('CustomPlugin', async (strategies, context, config) => {
+                        record(config, 'onVersionStrategies');
+                        return strategies;
+                    });
+                    hooks.onNewVersions.tapPromise('CustomPlugin', async (versions, context, config) => {
+                        record(config, 'onNewVersions');
+                        return versions;
+                    });
+                    hooks.onBeforePublishWorkspace.tapPromise('CustomPlugin', async (context, config, workspace) => {
+                        record(config, 'onBeforePublishWorkspace:' + workspace.manifest.name.name);
+                    });
+                    hooks.onWorkspacePacked.tapPromise('CustomPlugin', async (context, config, workspace, tarball) => {
+                        record(config, 'onWorkspacePacked:' + workspace.manifest.name.name + ':' + Buffer.isBuffer(tarball));
+                    });
+                    hooks.onAfterPublishWorkspace.tapPromise('CustomPlugin', async (context, config, workspace) => {
+                        record(config, 'onAfterPublishWorkspace:' + workspace.manifest.name.name);
+                    });
+                    hooks.onGitTagsCreated.tapPromise('CustomPlugin', async (context, config, tags) => {
+                        record(config, 'onGitTagsCreated:' + [...tags.values()].join(','));
+                    });
+                    hooks.onReleaseAvailable.tapPromise('CustomPlugin', async (context, config) => {
+                        record(config, 'onReleaseAvailable');
+                    });
+                }
+            `,
+        )
+
+        await monodeploy({
+            ...monodeployConfig,
+            plugins: ['./lifecycle.plugin.js'],
+        })
+
+        const hooksExecuted = (
+            await fs.promises.readFile(
+                path.resolve(monodeployConfig.cwd, 'hooks.txt'),
+                'utf-8',
+            )
+        )
+            .trim()
+            .split('\n')
+        expect(hooksExecuted).toEqual([
+            'onBeforeVersionStrategies',
+            'onVersionStrategies',
+            'onNewVersions',
+            'onBeforePublishWorkspace:pkg-1',
+            'onWorkspacePacked:pkg-1:true',
+            'onAfterPublishWorkspace:pkg-1',
+            'onGitTagsCreated:pkg-1@0.1.0',
+            'onReleaseAvailable',
+        ])
+    })
+
+    it('allows plugins to modify the version strategies', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+        mockNPM._setTag_('pkg-7', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'strategies.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                module.exports = ({ onVersionStrategies }) => {
+                    onVersionStrategies.tapPromise('CustomPlugin', async (strategies) => {
+                        strategies.delete('pkg-1');
+                        strategies.set('pkg-7', { type: 'major', commits: [] });
+                        return strategies;
+                    })
+                }
+            `,
+        )
+
+        const result = await monodeploy({
+            ...monodeployConfig,
+            plugins: ['./strategies.plugin.js'],
+        })
+
+        expect(result['pkg-1']).toBeUndefined()
+        expect(result['pkg-7'].version).toEqual('1.0.0')
+        expect(result['pkg-7'].strategy).toEqual('major')
+    })
+
+    it('allows plugins to modify the new versions', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'versions.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                module.exports = ({ onNewVersions }) => {
+                    onNewVersions.tapPromise('CustomPlugin', async (versions) => {
+                        return new Map([...versions.entries()].map(([name]) => [name, '5.0.0']));
+                    })
+                }
+            `,
+        )
+
+        const result = await monodeploy({
+            ...monodeployConfig,
+            plugins: ['./versions.plugin.js'],
+        })
+
+        expect(result['pkg-1'].version).toEqual('5.0.0')
+        expect(mockGit._getTags_()).toEqual(['pkg-1@5.0.0'])
+    })
+
+    it('executes the onReleaseFailed plugin on error', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'failure.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                const fs = require('fs');
+                const path = require('path');
+                module.exports = ({ onBeforePublishWorkspace, onReleaseFailed }) => {
+                    onBeforePublishWorkspace.tapPromise('CustomPlugin', async () => {
+                        throw new Error('Publish interrupted');
+                    })
+                    onReleaseFailed.tapPromise('CustomPlugin', async (context, config, error) => {
+                        fs.writeFileSync(path.resolve(config.cwd, 'plugin-failure.txt'), error.message);
+                    })
+                }
+            `,
+        )
+
+        await expect(
+            monodeploy({
+                ...monodeployConfig,
+                plugins: ['./failure.plugin.js'],
+            }),
+        ).rejects.toThrow('Monodeploy failed')
+
+        expect(
+            await fs.promises.readFile(
+                path.resolve(monodeployConfig.cwd, 'plugin-failure.txt'),
+                'utf-8',
+            ),
+        ).toEqual('Publish interrupted')
+    })
+
+    it('reports the release error if the onReleaseFailed plugin fails', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        const pluginFilename = path.resolve(
+            monodeployConfig.cwd,
+            'failure.plugin.js',
+        )
+        await fs.promises.writeFile(
+            pluginFilename,
+            `
+                module.exports = ({ onBeforePublishWorkspace, onReleaseFailed }) => {
+                    onBeforePublishWorkspace.tapPromise('CustomPlugin', async () => {
+                        throw new Error('Publish interrupted');
+                    })
+                    onReleaseFailed.tapPromise('CustomPlugin', async () => {
+                        throw new Error('Hook failed');
+                    })
+                }
+            `,
+        )
+
+        const spyException = jest.spyOn(
+            StreamReport.prototype,
+            'reportExceptionOnce',
+        )
+        try {
+            await expect(
+                monodeploy({
+                    ...monodeployConfig,
+                    plugins: ['./failure.plugin.js'],
+                }),
+            ).rejects.toThrow('Monodeploy failed')
+
+            const messages = spyException.mock.calls.map(
+                ([error]) => error.message,
+            )
+            expect(messages).toEqual(
+                expect.arrayContaining(['Hook failed', 'Publish interrupted']),
+            )
+        } finally {
+            spyException.mockRestore()
+        }
+    })
 })
@@ -0,0 +1,152 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import * as git from '@monodeploy/git'
+import { LOG_LEVELS } from '@monodeploy/logging'
+import { setupMonorepo } from '@monodeploy/test-utils'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import * as npm from '@yarnpkg/plugin-npm'
+
+import { preview } from '..'
+
+jest.mock('@yarnpkg/plugin-npm')
+jest.mock('@monodeploy/git')
+
+const mockGit = git as jest.Mocked<
+    typeof git & {
+        _reset_: () => void
+        _commitFiles_: (sha: string, commit: string, files: string[]) => void
+        _getPushedTags_: () => string[]
+        _getTags_: () => string[]
+    }
+>
+const mockNPM = npm as jest.Mocked<
+    typeof npm & {
+        _reset_: () => void
+        _setTag_: (pkgName: string, tagValue: string, tagKey?: string) => void
+    }
+>
+
+const setupExampleMonorepo = async (): Promise<YarnContext> => {
+    const context = await setupMonorepo(
+        {
+            'pkg-1': {},
+            'pkg-2': {},
+            'pkg-3': { dependencies: ['pkg-2'] },
+        },
+        {
+            root: {
+                dependencies: {
+                    '@tophat/conventional-changelog-config': '^0.5.0',
+                },
+            },
+        },
+    )
+    return context
+}
+
+describe('Monodeploy (Preview)', () => {
+    const monodeployConfig: MonodeployConfiguration = {
+        cwd: '/tmp/to-be-overwritten-by-before-each',
+        dryRun: false,
+        noRegistry: false,
+        autoCommit: true,
+        autoCommitMessage: 'chore: release [skip ci]',
+        git: {
+            baseBranch: 'main',
+            commitSha: 'HEAD',
+            remote: 'origin',
+            push: true,
+            tag: true,
+        },
+        conventionalChangelogConfig: '@tophat/conventional-changelog-config',
+        changesetFilename: 'changes.json',
+        changelogFilename: 'CHANGELOG.md',
+        access: 'public',
+        persistVersions: true,
+        topological: false,
+        topologicalDev: false,
+        jobs: 0,
+        forceWriteChangeFiles: true,
+        maxConcurrentReads: 2,
+        maxConcurrentWrites: 0,
+        prerelease: false,
+        prereleaseId: 'rc',
+        prereleaseNPMTag: 'next',
+    }
+
+    beforeAll(async () => {
+        process.env.MONODEPLOY_LOG_LEVEL = String(LOG_LEVELS.ERROR)
+    })
+
+    beforeEach(async () => {
+        const context = await setupExampleMonorepo()
+        monodeployConfig.cwd = context.project.cwd
+    })
+
+    afterEach(async () => {
+        mockGit._reset_()
+        mockNPM._reset_()
+        try {
+            await fs.rm(monodeployConfig.cwd, { recursive: true, force: true })
+        } catch {}
+    })
+
+    afterAll(() => {
+        delete process.env.MONODEPLOY_LOG_LEVEL
+    })
+
+    it('previews the release without modifying the working tree', async () => {
+        mockNPM._setTag_('pkg-1', '0.0.1')
+        mockNPM._setTag_('pkg-2', '0.0.1')
+        mockNPM._setTag_('pkg-3', '0.0.1')
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-2/README.md',
+        ])
+
+        const manifestPath = path.join(
+            monodeployConfig.cwd,
+            'packages',
+            'pkg-3',
+            'package.json',
+        )
+        const manifest = await fs.readFile(manifestPath, 'utf8')
+
+        const result = await preview(monodeployConfig)
+
+        expect(result.packages).toEqual([
+            expect.objectContaining({
+                name: 'pkg-2',
+                previousVersion: '0.0.1',
+                version: '0.1.0',
+                strategy: 'minor',
+                source: 'explicit',
+                changelog: expect.stringContaining('some new feature'),
+            }),
+            expect.objectContaining({
+                name: 'pkg-3',
+                previousVersion: '0.0.1',
+                version: '0.0.2',
+                strategy: 'patch',
+                source: 'implicit',
+            }),
+        ])
+        expect(result.packages[1].manifestDiff).toEqual(
+            expect.stringContaining('+  "version": "0.0.2"'),
+        )
+        expect(result.packages[1].manifestDiff).toEqual(
+            expect.stringContaining('--- a/packages/pkg-3/package.json'),
+        )
+
+        // Nothing is written or tagged
+        expect(await fs.readFile(manifestPath, 'utf8')).toEqual(manifest)
+        await expect(
+            fs.stat(path.join(monodeployConfig.cwd, 'changes.json')),
+        ).rejects.toThrow()
+        await expect(
+            fs.stat(path.join(monodeployConfig.cwd, 'CHANGELOG.md')),
+        ).rejects.toThrow()
+        expect(mockGit._getTags_()).toHaveLength(0)
+        expect(mockGit._getPushedTags_()).toHaveLength(0)
+    })
+})
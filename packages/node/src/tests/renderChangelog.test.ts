@@ -0,0 +1,165 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import { cleanUp, setupTestRepository } from '@monodeploy/test-utils'
+import type { ChangelogStore } from '@monodeploy/types'
+
+// Skipping the git mock as we use a temp repository for these tests.
+jest.mock('@monodeploy/git', () => jest.requireActual('@monodeploy/git'))
+
+import { renderChangelog } from '..'
+
+const commit = (sha: string, body: string) => ({
+    sha,
+    body,
+    type: null,
+    scope: null,
+    subject: null,
+    breaking: false,
+})
+
+describe('Monodeploy (Changelog Render)', () => {
+    let cwd: string
+
+    beforeEach(async () => {
+        cwd = await setupTestRepository({ 'pkg-1': {}, 'pkg-2': {} })
+    })
+
+    afterEach(async () => {
+        await cleanUp([cwd])
+    })
+
+    it('re-renders the changelog from the changelog store', async () => {
+        const store: ChangelogStore = {
+            schemaVersion: 1,
+            entries: [
+                {
+                    name: 'pkg-2',
+                    version: '1.0.1',
+                    previousVersion: '1.0.0',
+                    date: '2021-02-01',
+                    strategy: 'patch',
+                    tag: 'pkg-2@1.0.1',
+                    commits: [],
+                    upstream: [
+                        {
+                            name: 'pkg-1',
+                            version: '1.1.0',
+                            previousVersion: '1.0.0',
+                        },
+                    ],
+                    changelog: 'outdated',
+                },
+                {
+                    name: 'pkg-1',
+                    version: '1.1.0',
+                    previousVersion: '1.0.0',
+                    date: '2021-02-01',
+                    strategy: 'minor',
+                    tag: 'pkg-1@1.1.0',
+                    commits: [
+                        commit('0123456789abcdef', 'feat: a feature'),
+                        commit('1123456789abcdef', 'chore: ignored'),
+                    ],
+                    changelog: 'outdated',
+                },
+                {
+                    name: 'pkg-1',
+                    version: '1.0.0',
+                    previousVersion: null,
+                    date: '2021-01-01',
+                    strategy: 'major',
+                    tag: 'pkg-1@1.0.0',
+                    commits: [commit('2123456789abcdef', 'chore: ignored')],
+                    changelog: 'outdated',
+                },
+            ],
+        }
+        await fs.writeFile(
+            path.join(cwd, 'changelog.json'),
+            JSON.stringify(store),
+        )
+        await fs.writeFile(
+            path.join(cwd, 'CHANGELOG.md'),
+            [
+                '# Changelog',
+                '',
+                '<!-- MONODEPLOY:BELOW -->',
+                '',
+                '## 1.1.0 (2021-02-01)',
+                '',
+                'outdated',
+                '',
+                '## 0.1.0 (2020-01-01)',
+                '',
+                '* Not recorded in the store',
+                '',
+            ].join('\n'),
+        )
+
+        const entries = await renderChangelog({
+            cwd,
+            git: { baseBranch: 'main', commitSha: 'HEAD' },
+            changelogFilename: 'CHANGELOG.md',
+            changelogStoreFilename: 'changelog.json',
+        })
+
+        expect(
+            entries.map(
+                ({ packageName, version }) => `${packageName}@${version}`,
+            ),
+        ).toEqual(['pkg-1@1.1.0', 'pkg-2@1.0.1'])
+
+        expect(await fs.readFile(path.join(cwd, 'CHANGELOG.md'), 'utf8'))
+            .toMatchInlineSnapshot(`
+            "# Changelog
+
+            <!-- MONODEPLOY:BELOW -->
+
+            ## 1.1.0 (2021-02-01)
+
+            ### Features
+
+            * a feature (0123456)
+
+            ## 1.0.1 (2021-02-01)
+
+            **Note:** Version bump only due to dependency updates.
+
+            ### Dependency Updates
+
+            * \`pkg-1\`: 1.0.0 → 1.1.0
+
+            ## 0.1.0 (2020-01-01)
+
+            * Not recorded in the store
+            "
+        `)
+
+        const renderedStore: ChangelogStore = JSON.parse(
+            await fs.readFile(path.join(cwd, 'changelog.json'), 'utf8'),
+        )
+        expect(
+            renderedStore.entries.map(({ name, version, changelog }) => [
+                `${name}@${version}`,
+                changelog,
+            ]),
+        ).toEqual([
+            ['pkg-1@1.1.0', entries[0].changelog],
+            ['pkg-2@1.0.1', entries[1].changelog],
+            ['pkg-1@1.0.0', null],
+        ])
+    })
+
+    it('throws if there is no changelog store', async () => {
+        await expect(
+            renderChangelog({
+                cwd,
+                git: { baseBranch: 'main', commitSha: 'HEAD' },
+                changelogFilename: 'CHANGELOG.md',
+            }),
+        ).rejects.toThrow(
+            'Unable to render the changelog without a changelog store.',
+        )
+    })
+})
@@ -0,0 +1,303 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import * as git from '@monodeploy/git'
+import { LOG_LEVELS } from '@monodeploy/logging'
+import { setupMonorepo } from '@monodeploy/test-utils'
+import type {
+    ChangesetDocument,
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+import { StreamReport, structUtils } from '@yarnpkg/core'
+import * as npm from '@yarnpkg/plugin-npm'
+
+import monodeploy from '..'
+
+jest.mock('@yarnpkg/plugin-npm')
+jest.mock('@monodeploy/git')
+
+const mockGit = git as jest.Mocked<
+    typeof git & {
+        _reset_: () => void
+        _commitFiles_: (sha: string, commit: string, files: string[]) => void
+        _getPushedTags_: () => string[]
+        _getTags_: () => string[]
+    }
+>
+const mockNPM = npm as jest.Mocked<
+    typeof npm & {
+        _reset_: () => void
+        _setTag_: (pkgName: string, tagValue: string, tagKey?: string) => void
+        _setVersion_: (
+            pkgName: string,
+            version: string,
+            dist: { integrity?: string; shasum?: string },
+        ) => void
+        _getVersions_: (
+            pkgName: string,
+        ) => Record<string, { deprecated?: string }>
+    }
+>
+
+const setupExampleMonorepo = async (): Promise<YarnContext> => {
+    const context = await setupMonorepo(
+        {
+            'pkg-1': { version: '0.0.1' },
+            'pkg-2': { version: '0.0.1', dependencies: ['pkg-1'] },
+            'pkg-3': { version: '0.0.1' },
+        },
+        {
+            root: {
+                dependencies: {
+                    '@tophat/conventional-changelog-config': '^0.5.0',
+                },
+            },
+        },
+    )
+    return context
+}
+
+describe('Monodeploy (Rollback)', () => {
+    const changesetFilename = 'changes.json'
+    const monodeployConfig: MonodeployConfiguration = {
+        cwd: '/tmp/to-be-overwritten-by-before-each',
+        dryRun: false,
+        noRegistry: false,
+        autoCommit: true,
+        autoCommitMessage: 'chore: release [skip ci]',
+        git: {
+            baseBranch: 'main',
+            commitSha: 'HEAD',
+            remote: 'origin',
+            push: true,
+            tag: true,
+        },
+        conventionalChangelogConfig: '@tophat/conventional-changelog-config',
+        changesetFilename,
+        changesetSchemaVersion: 2,
+        access: 'public',
+        persistVersions: false,
+        topological: false,
+        topologicalDev: false,
+        jobs: 0,
+        forceWriteChangeFiles: false,
+        maxConcurrentReads: 2,
+        maxConcurrentWrites: 0,
+        prerelease: false,
+        prereleaseId: 'rc',
+        prereleaseNPMTag: 'next',
+    }
+
+    const readChangeset = async (): Promise<ChangesetSchema> =>
+        (
+            JSON.parse(
+                await fs.readFile(
+                    path.join(monodeployConfig.cwd, changesetFilename),
+                    'utf8',
+                ),
+            ) as ChangesetDocument
+        ).packages
+
+    const getDistTags = async (
+        pkgName: string,
+    ): Promise<Record<string, string>> =>
+        await npm.npmHttpUtils.get('/-/package/dist-tags', {
+            ident: structUtils.parseIdent(pkgName),
+        } as Parameters<typeof npm.npmHttpUtils.get>[1])
+
+    beforeAll(async () => {
+        process.env.MONODEPLOY_LOG_LEVEL = String(LOG_LEVELS.ERROR)
+    })
+
+    beforeEach(async () => {
+        const context = await setupExampleMonorepo()
+        monodeployConfig.cwd = context.project.cwd
+
+        for (const pkgName of ['pkg-1', 'pkg-2', 'pkg-3']) {
+            mockNPM._setTag_(pkgName, '0.0.1')
+            mockNPM._setVersion_(pkgName, '0.0.1', {})
+        }
+        mockGit._commitFiles_('sha1', 'feat: some new feature!', [
+            './packages/pkg-1/README.md',
+        ])
+
+        // Fail once the tags have been pushed
+        jest.spyOn(mockGit, 'gitPush').mockRejectedValue(
+            new Error('Artificially induced error in a test! Ignore this.'),
+        )
+    })
+
+    afterEach(async () => {
+        jest.restoreAllMocks()
+        mockGit._reset_()
+        mockNPM._reset_()
+        try {
+            await fs.rm(monodeployConfig.cwd, { recursive: true, force: true })
+        } catch {}
+    })
+
+    afterAll(() => {
+        delete process.env.MONODEPLOY_LOG_LEVEL
+    })
+
+    it('does not roll back by default', async () => {
+        await expect(monodeploy(monodeployConfig)).rejects.toThrow()
+
+        expect(mockGit._getPushedTags_()).toEqual(
+            expect.arrayContaining(['pkg-1@0.1.0', 'pkg-2@0.0.2']),
+        )
+        expect(Object.keys(mockNPM._getVersions_('pkg-1'))).toEqual([
+            '0.0.1',
+            '0.1.0',
+        ])
+    })
+
+    it('deletes tags and unpublishes versions', async () => {
+        await expect(
+            monodeploy({ ...monodeployConfig, rollback: 'unpublish' }),
+        ).rejects.toThrow()
+
+        expect(mockGit._getTags_()).toHaveLength(0)
+        expect(mockGit._getPushedTags_()).toHaveLength(0)
+        expect(Object.keys(mockNPM._getVersions_('pkg-1'))).toEqual(['0.0.1'])
+        expect(await getDistTags('pkg-1')).toEqual({ latest: '0.0.1' })
+
+        const changeset = await readChangeset()
+        expect(changeset['pkg-1']).toEqual({
+            version: '0.1.0',
+            previousVersion: '0.0.1',
+            changelog: null,
+            tag: null,
+            strategy: 'minor',
+            rollback: [
+                {
+                    type: 'delete-remote-tag',
+                    target: 'pkg-1@0.1.0',
+                    success: true,
+                },
+                { type: 'delete-tag', target: 'pkg-1@0.1.0', success: true },
+                { type: 'unpublish', target: 'pkg-1@0.1.0', success: true },
+            ],
+        })
+    })
+
+    it('deprecates versions which cannot be unpublished', async () => {
+        // The registry refuses to unpublish the versions
+        const put = npm.npmHttpUtils.put
+        jest.spyOn(npm.npmHttpUtils, 'put').mockImplementation(
+            async (url, body, options) => {
+                if (url.includes('/-rev/')) {
+                    throw new Error('Unpublish window has passed')
+                }
+                return put(url, body, options)
+            },
+        )
+
+        await expect(
+            monodeploy({ ...monodeployConfig, rollback: 'unpublish' }),
+        ).rejects.toThrow()
+
+        expect(mockNPM._getVersions_('pkg-2')['0.0.2'].deprecated).toEqual(
+            expect.any(String),
+        )
+        const changeset = await readChangeset()
+        expect(changeset['pkg-2'].rollback).toEqual(
+            expect.arrayContaining([
+                {
+                    type: 'unpublish',
+                    target: 'pkg-2@0.0.2',
+                    success: false,
+                    error: 'Unpublish window has passed',
+                },
+                { type: 'deprecate', target: 'pkg-2@0.0.2', success: true },
+            ]),
+        )
+    })
+
+    it('deprecates versions', async () => {
+        await expect(
+            monodeploy({ ...monodeployConfig, rollback: 'deprecate' }),
+        ).rejects.toThrow()
+
+        expect(mockNPM._getVersions_('pkg-1')['0.1.0'].deprecated).toEqual(
+            expect.any(String),
+        )
+        expect(
+            mockNPM._getVersions_('pkg-1')['0.0.1'].deprecated,
+        ).toBeUndefined()
+        expect(mockGit._getTags_()).toHaveLength(0)
+    })
+
+    it('does not delete remote tags which failed to be pushed', async () => {
+        jest.spyOn(mockGit, 'gitPushTags').mockRejectedValue(
+            new Error('Artificially induced error in a test! Ignore this.'),
+        )
+
+        await expect(
+            monodeploy({ ...monodeployConfig, rollback: 'unpublish' }),
+        ).rejects.toThrow()
+
+        expect(mockGit._getTags_()).toHaveLength(0)
+        const changeset = await readChangeset()
+        expect(changeset['pkg-1'].rollback).toEqual([
+            { type: 'delete-tag', target: 'pkg-1@0.1.0', success: true },
+            { type: 'unpublish', target: 'pkg-1@0.1.0', success: true },
+        ])
+    })
+
+    it('rolls back the versions published before resuming', async () => {
+        const config = {
+            ...monodeployConfig,
+            journalFilename: '.monodeploy/journal.json',
+        }
+        const put = npm.npmHttpUtils.put
+        const spyPut = jest
+            .spyOn(npm.npmHttpUtils, 'put')
+            .mockImplementation(async (identUrl, body, options) => {
+                if ((body as { name: string }).name === 'pkg-2') {
+                    throw new Error('Registry outage')
+                }
+                return put(identUrl, body, options)
+            })
+        await expect(monodeploy(config)).rejects.toThrow()
+        spyPut.mockRestore()
+
+        // The resumed release fails while pushing the release commit
+        await expect(
+            monodeploy({ ...config, resume: true, rollback: 'unpublish' }),
+        ).rejects.toThrow()
+
+        expect(Object.keys(mockNPM._getVersions_('pkg-1'))).toEqual(['0.0.1'])
+        expect(Object.keys(mockNPM._getVersions_('pkg-2'))).toEqual(['0.0.1'])
+    })
+
+    it('reports the release error if the rollback fails', async () => {
+        // The rollback record cannot be written
+        jest.spyOn(mockGit, 'gitPush').mockImplementation(async () => {
+            const filename = path.join(monodeployConfig.cwd, changesetFilename)
+            await fs.rm(filename)
+            await fs.mkdir(filename)
+            throw new Error(
+                'Artificially induced error in a test! Ignore this.',
+            )
+        })
+        const spyException = jest.spyOn(
+            StreamReport.prototype,
+            'reportExceptionOnce',
+        )
+
+        await expect(
+            monodeploy({ ...monodeployConfig, rollback: 'unpublish' }),
+        ).rejects.toThrow('Monodeploy failed')
+
+        const messages = spyException.mock.calls.map(([error]) => error.message)
+        expect(messages).toEqual(
+            expect.arrayContaining([
+                'Artificially induced error in a test! Ignore this.',
+            ]),
+        )
+        expect(mockGit._getTags_()).toHaveLength(0)
+    })
+})
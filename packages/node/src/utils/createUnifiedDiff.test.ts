@@ -0,0 +1,37 @@
+import createUnifiedDiff from './createUnifiedDiff'
+
+describe('createUnifiedDiff', () => {
+    it('returns an empty string for unchanged contents', () => {
+        expect(createUnifiedDiff('file.json', 'a\nb\n', 'a\nb\n')).toBe('')
+    })
+
+    it('groups changes and their context into hunks', () => {
+        const before = ['1', '2', '3', '4', '5', '6', '7', '8', '9', '10', '']
+        const after = [...before]
+        after[1] = 'two'
+        after.splice(9, 0, 'nine and a half')
+
+        expect(
+            createUnifiedDiff('file.txt', before.join('\n'), after.join('\n')),
+        ).toBe(
+            [
+                '--- a/file.txt',
+                '+++ b/file.txt',
+                '@@ -1,5 +1,5 @@',
+                ' 1',
+                '-2',
+                '+two',
+                ' 3',
+                ' 4',
+                ' 5',
+                '@@ -7,4 +7,5 @@',
+                ' 7',
+                ' 8',
+                ' 9',
+                '+nine and a half',
+                ' 10',
+                '',
+            ].join('\n'),
+        )
+    })
+})
@@ -0,0 +1,100 @@
+const CONTEXT_LINES = 3
+
+type DiffLine = {
+    type: ' ' | '-' | '+'
+    line: string
+    oldLine: number
+    newLine: number
+}
+
+/**
+ * Produces a line diff of two files, using the longest common subsequence of
+ * their lines.
+ */
+const diffLines = (before: string[], after: string[]): DiffLine[] => {
+    const lengths: number[][] = Array.from({ length: before.length + 1 }, () =>
+        new Array<number>(after.length + 1).fill(0),
+    )
+    for (let i = before.length - 1; i >= 0; i--) {
+        for (let j = after.length - 1; j >= 0; j--) {
+            lengths[i][j] =
+                before[i] === after[j]
+                    ? lengths[i + 1][j + 1] + 1
+                    : Math.max(lengths[i + 1][j], lengths[i][j + 1])
+        }
+    }
+
+    const lines: DiffLine[] = []
+    let i = 0
+    let j = 0
+    while (i < before.length || j < after.length) {
+        if (i < before.length && j < after.length && before[i] === after[j]) {
+            lines.push({ type: ' ', line: before[i], oldLine: i, newLine: j })
+            i++
+            j++
+        } else if (
+            j >= after.length ||
+            (i < before.length && lengths[i + 1][j] >= lengths[i][j + 1])
+        ) {
+            lines.push({ type: '-', line: before[i], oldLine: i, newLine: j })
+            i++
+        } else {
+            lines.push({ type: '+', line: after[j], oldLine: i, newLine: j })
+            j++
+        }
+    }
+    return lines
+}
+
+const toLines = (contents: string): string[] => {
+    const lines = contents.split('\n')
+    if (lines[lines.length - 1] === '') lines.pop()
+    return lines
+}
+
+/**
+ * Creates a unified diff of a file's contents, or an empty string if the
+ * contents are unchanged.
+ */
+const createUnifiedDiff = (
+    filename: string,
+    before: string,
+    after: string,
+): string => {
+    if (before === after) return ''
+
+    const lines = diffLines(toLines(before), toLines(after))
+
+    // Group the changes, along with their surrounding context, into hunks
+    const hunks: Array<{ start: number; end: number }> = []
+    lines.forEach((line, index) => {
+        if (line.type === ' ') return
+
+        const start = Math.max(0, index - CONTEXT_LINES)
+        const end = Math.min(lines.length, index + CONTEXT_LINES + 1)
+        const previousHunk = hunks[hunks.length - 1]
+        if (previousHunk && start <= previousHunk.end) {
+            previousHunk.end = end
+        } else {
+            hunks.push({ start, end })
+        }
+    })
+
+    const output = [`--- a/${filename}`, `+++ b/${filename}`]
+    for (const { start, end } of hunks) {
+        const hunkLines = lines.slice(start, end)
+        const oldCount = hunkLines.filter((line) => line.type !== '+').length
+        const newCount = hunkLines.filter((line) => line.type !== '-').length
+        const oldStart = hunkLines[0].oldLine + (oldCount ? 1 : 0)
+        const newStart = hunkLines[0].newLine + (newCount ? 1 : 0)
+
+        output.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`)
+        for (const { type, line } of hunkLines) {
+            output.push(`${type}${line}`)
+        }
+    }
+
+    return `${output.join('\n')}\n`
+}
+
+export default createUnifiedDiff
@@ -0,0 +1,41 @@
+import { formatTag, gitTagExists } from '@monodeploy/git'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { Workspace, structUtils } from '@yarnpkg/core'
+
+/**
+ * Returns the public workspaces which declare a version, keyed by package name.
+ */
+const getPublicWorkspaces = (context: YarnContext): Map<string, Workspace> => {
+    const workspaces = new Map<string, Workspace>()
+    for (const workspace of context.project.workspaces) {
+        const ident = workspace.manifest.name
+        if (workspace.manifest.private || !ident || !workspace.manifest.version)
+            continue
+        workspaces.set(structUtils.stringifyIdent(ident), workspace)
+    }
+    return workspaces
+}
+
+/**
+ * Returns the public workspaces whose declared version has not been tagged.
+ */
+export const getUntaggedWorkspaces = async ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): Promise<Map<string, Workspace>> => {
+    const workspaces = new Map<string, Workspace>()
+    for (const [pkgName, workspace] of getPublicWorkspaces(context)) {
+        const tag = formatTag(config.tagTemplate, {
+            name: pkgName,
+            version: workspace.manifest.version!,
+        })
+        if (await gitTagExists(tag, { cwd: config.cwd, context })) continue
+        workspaces.set(pkgName, workspace)
+    }
+    return workspaces
+}
+
+export default getPublicWorkspaces
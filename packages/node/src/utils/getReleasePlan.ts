@@ -0,0 +1,80 @@
+import { getWorkspacesToPublish } from '@monodeploy/publish'
+import type {
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    PackageTagMap,
+    PackageVersionMap,
+    ReleaseStatusRecord,
+    YarnContext,
+} from '@monodeploy/types'
+import { getLatestPackageTags, getReleaseVersions } from '@monodeploy/versions'
+import { Workspace } from '@yarnpkg/core'
+
+import { convertTagMapToVersions } from './convert'
+import { getFetchRegistryUrl } from './getRegistryUrl'
+import getVersionStrategies from './getVersionStrategies'
+
+export type ReleasePlan = {
+    registryTags: PackageTagMap
+    intentionalStrategies: PackageStrategyMap
+    versionStrategies: PackageStrategyMap
+    workspaces: Set<Workspace>
+    previousVersions: PackageVersionMap
+    newVersions: PackageVersionMap
+}
+
+/**
+ * Determines the pending release, without modifying any package manifests.
+ */
+export const getReleasePlan = async ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): Promise<ReleasePlan> => {
+    const registryTags = await getLatestPackageTags({
+        config,
+        context,
+        registryUrl: await getFetchRegistryUrl({ config, context }),
+    })
+
+    const { intentionalStrategies, versionStrategies } =
+        await getVersionStrategies({ config, context, registryTags })
+
+    const workspaces = await getWorkspacesToPublish({
+        context,
+        versionStrategies,
+    })
+
+    const newVersions = await getReleaseVersions({
+        config,
+        context,
+        registryTags,
+        versionStrategies,
+    })
+
+    return {
+        registryTags,
+        intentionalStrategies,
+        versionStrategies,
+        workspaces,
+        previousVersions: convertTagMapToVersions(registryTags, {
+            tag: 'latest',
+        }),
+        newVersions,
+    }
+}
+
+export const getReleaseStatus = (plan: ReleasePlan): ReleaseStatusRecord[] =>
+    [...plan.newVersions.entries()]
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([name, version]) => ({
+            name,
+            previousVersion: plan.previousVersions.get(name) ?? null,
+            version,
+            strategy: plan.versionStrategies.get(name)?.type ?? null,
+            source: plan.intentionalStrategies.has(name)
+                ? 'explicit'
+                : 'implicit',
+        }))
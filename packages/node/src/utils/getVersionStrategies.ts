@@ -0,0 +1,56 @@
+import type {
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    PackageTagMap,
+    YarnContext,
+} from '@monodeploy/types'
+import {
+    getExplicitVersionStrategies,
+    getImplicitVersionStrategies,
+} from '@monodeploy/versions'
+
+const getVersionStrategies = async ({
+    config,
+    context,
+    registryTags,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    registryTags: PackageTagMap
+}): Promise<{
+    intentionalStrategies: PackageStrategyMap
+    versionStrategies: PackageStrategyMap
+}> => {
+    await context.hooks?.onBeforeVersionStrategies.promise(context, config)
+
+    // Determine version bumps via commit messages
+    const intentionalStrategies = await getExplicitVersionStrategies({
+        config,
+        context,
+    })
+
+    // Determine version bumps to dependent packages
+    const implicitVersionStrategies = await getImplicitVersionStrategies({
+        config,
+        context,
+        intentionalStrategies,
+        registryTags,
+    })
+
+    const versionStrategies = new Map([
+        ...intentionalStrategies.entries(),
+        ...implicitVersionStrategies.entries(),
+    ])
+
+    return {
+        intentionalStrategies,
+        versionStrategies:
+            (await context.hooks?.onVersionStrategies.promise(
+                versionStrategies,
+                context,
+                config,
+            )) ?? versionStrategies,
+    }
+}
+
+export default getVersionStrategies
@@ -0,0 +1,65 @@
+import type { MonodeployConfiguration, PluginHooks } from '@monodeploy/types'
+import { PortablePath } from '@yarnpkg/fslib'
+import { AsyncSeriesHook, AsyncSeriesWaterfallHook } from 'tapable'
+
+const loadPlugins = ({
+    config,
+    cwd,
+}: {
+    config: MonodeployConfiguration
+    cwd: PortablePath
+}): PluginHooks => {
+    const hooks: PluginHooks = {
+        onBeforeVersionStrategies: new AsyncSeriesHook(['context', 'config']),
+        onVersionStrategies: new AsyncSeriesWaterfallHook([
+            'versionStrategies',
+            'context',
+            'config',
+        ]),
+        onNewVersions: new AsyncSeriesWaterfallHook([
+            'versions',
+            'context',
+            'config',
+        ]),
+        onBeforePublishWorkspace: new AsyncSeriesHook([
+            'context',
+            'config',
+            'workspace',
+        ]),
+        onWorkspacePacked: new AsyncSeriesHook([
+            'context',
+            'config',
+            'workspace',
+            'tarball',
+        ]),
+        onAfterPublishWorkspace: new AsyncSeriesHook([
+            'context',
+            'config',
+            'workspace',
+        ]),
+        onGitTagsCreated: new AsyncSeriesHook(['context', 'config', 'tags']),
+        onReleaseFailed: new AsyncSeriesHook(['context', 'config', 'error']),
+        onReleaseAvailable: new AsyncSeriesHook([
+            'context',
+            'config',
+            'changeset',
+        ]),
+    }
+
+    if (config.plugins?.length) {
+        for (const plugin of config.plugins) {
+            const [pluginName, pluginOptions] =
+                typeof plugin === 'string' ? [plugin, {}] : plugin
+            // eslint-disable-next-line @typescript-eslint/no-var-requires
+            const pluginModule = require(require.resolve(pluginName, {
+                paths: [cwd],
+            }))
+            const pluginConstructor = pluginModule?.default ?? pluginModule
+            pluginConstructor(hooks, pluginOptions)
+        }
+    }
+
+    return hooks
+}
+
+export default loadPlugins
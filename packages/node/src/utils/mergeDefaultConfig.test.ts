@@ -59,12 +59,15 @@ describe('Config Merging', () => {
                 remote: 'origin',
                 push: true,
                 tag: true,
+                baseBranchPerPackage: false,
+                sign: false,
             },
             conventionalChangelogConfig:
                 '@tophat/conventional-changelog-config',
             changesetFilename: '/tmp/changeset.json',
             changelogFilename: '/tmp/changelog.md',
             changesetIgnorePatterns: ['*.md'],
+            intentFilesDirectory: '.changeset',
             forceWriteChangeFiles: false,
             access: 'public',
             persistVersions: true,
@@ -79,6 +82,13 @@ describe('Config Merging', () => {
             prerelease: true,
             prereleaseId: 'rc',
             prereleaseNPMTag: 'beta',
+            fixed: [['pkg-1', 'pkg-2']],
+            linked: [],
+            dependentBumpPolicy: 'mirror',
+            journalFilename: '.monodeploy/journal.json',
+            resume: true,
+            changesetSchemaVersion: 2,
+            tagTemplate: 'v{version}',
         }
 
         const merged = await mergeDefaultConfig(config)
@@ -1,4 +1,8 @@
-import { gitLastTaggedCommit, gitResolveSha } from '@monodeploy/git'
+import {
+    DEFAULT_TAG_TEMPLATE,
+    gitLastTaggedCommit,
+    gitResolveSha,
+} from '@monodeploy/git'
 import type {
     MonodeployConfiguration,
     RecursivePartial,
@@ -9,6 +13,7 @@ const mergeDefaultConfig = async (
 ): Promise<MonodeployConfiguration> => {
     const cwd = baseConfig.cwd ?? process.cwd()
     const prerelease = baseConfig.prerelease ?? false
+    const tagTemplate = baseConfig.tagTemplate ?? DEFAULT_TAG_TEMPLATE
 
     return {
         registryUrl: baseConfig.registryUrl ?? undefined,
@@ -18,19 +23,33 @@ const mergeDefaultConfig = async (
         git: {
             baseBranch:
                 baseConfig.git?.baseBranch ??
-                (await gitLastTaggedCommit({ cwd, prerelease })),
+                (await gitLastTaggedCommit({ cwd, prerelease, tagTemplate })),
             commitSha:
                 baseConfig.git?.commitSha ??
                 (await gitResolveSha('HEAD', { cwd })),
             remote: baseConfig.git?.remote ?? 'origin',
             push: baseConfig.git?.push ?? false,
             tag: baseConfig.git?.tag ?? true,
+            // Packages are compared against their own release tags, unless
+            // a base branch is given
+            baseBranchPerPackage:
+                baseConfig.git?.baseBranchPerPackage ??
+                baseConfig.git?.baseBranch === undefined,
+            sign: baseConfig.git?.sign ?? false,
+            signingKey: baseConfig.git?.signingKey ?? undefined,
+            signingFormat: baseConfig.git?.signingFormat ?? undefined,
         },
         conventionalChangelogConfig:
             baseConfig.conventionalChangelogConfig ?? undefined,
         changesetFilename: baseConfig.changesetFilename ?? undefined,
         changelogFilename: baseConfig.changelogFilename ?? undefined,
+        changelogMaxEntries: baseConfig.changelogMaxEntries ?? undefined,
+        changelogMaxAge: baseConfig.changelogMaxAge ?? undefined,
+        changelogArchiveFilename:
+            baseConfig.changelogArchiveFilename ?? undefined,
+        changelogStoreFilename: baseConfig.changelogStoreFilename ?? undefined,
         changesetIgnorePatterns: baseConfig.changesetIgnorePatterns ?? [],
+        intentFilesDirectory: baseConfig.intentFilesDirectory ?? undefined,
         forceWriteChangeFiles: baseConfig.forceWriteChangeFiles ?? false,
         access: baseConfig.access ?? 'public',
         persistVersions: baseConfig.persistVersions ?? false,
@@ -46,6 +65,17 @@ const mergeDefaultConfig = async (
         prerelease,
         prereleaseId: baseConfig.prereleaseId ?? 'rc',
         prereleaseNPMTag: baseConfig.prereleaseNPMTag ?? 'next',
+        packages: baseConfig.packages ?? undefined,
+        fixed: baseConfig.fixed ?? [],
+        linked: baseConfig.linked ?? [],
+        dependentBumpPolicy: baseConfig.dependentBumpPolicy ?? 'patch',
+        journalFilename: baseConfig.journalFilename ?? undefined,
+        resume: baseConfig.resume ?? false,
+        rollback: baseConfig.rollback ?? undefined,
+        changesetSchemaVersion: baseConfig.changesetSchemaVersion ?? 1,
+        changesetFormat: baseConfig.changesetFormat ?? undefined,
+        tagTemplate,
+        tagMessageTemplate: baseConfig.tagMessageTemplate ?? undefined,
     }
 }
 
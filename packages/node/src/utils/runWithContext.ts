@@ -0,0 +1,69 @@
+import path from 'path'
+
+import type {
+    MonodeployConfiguration,
+    PluginHooks,
+    YarnContext,
+} from '@monodeploy/types'
+import { Configuration, Project, StreamReport, Workspace } from '@yarnpkg/core'
+import { npath } from '@yarnpkg/fslib'
+
+import getCompatiblePluginConfiguration from './getCompatiblePluginConfiguration'
+import loadPlugins from './loadPlugins'
+
+/**
+ * Sets up the project, plugins and report for the configured working
+ * directory, and invokes the callback with the resulting context.
+ */
+const runWithContext = async <T>(
+    config: MonodeployConfiguration,
+    callback: (context: YarnContext, hooks: PluginHooks) => Promise<T>,
+    { quiet = false }: { quiet?: boolean } = {},
+): Promise<T> => {
+    if (config.cwd === typeof undefined) {
+        throw new Error('Invalid cwd.')
+    }
+
+    const cwd = npath.toPortablePath(path.resolve(process.cwd(), config.cwd))
+    const configuration = await Configuration.find(
+        cwd,
+        getCompatiblePluginConfiguration(),
+    )
+    const { project, workspace } = await Project.find(configuration, cwd)
+    await project.restoreInstallState()
+
+    /* Initialize plugins */
+    const hooks = loadPlugins({ config, cwd })
+
+    let result: T | undefined
+
+    const report = await StreamReport.start(
+        {
+            configuration,
+            stdout: process.stdout,
+            includeLogs: !quiet,
+            includeInfos: !quiet,
+            includeWarnings: !quiet,
+            includeFooter: !quiet,
+        },
+        async (report: StreamReport) => {
+            const context: YarnContext = {
+                configuration,
+                project,
+                workspace: workspace as Workspace,
+                report,
+                hooks,
+            }
+
+            result = await callback(context, hooks)
+        },
+    )
+
+    if (report.hasErrors()) {
+        throw new Error('Monodeploy failed')
+    }
+
+    return result as T
+}
+
+export default runWithContext
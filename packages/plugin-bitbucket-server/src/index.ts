@@ -0,0 +1,10 @@
+import { PluginHooks } from '@monodeploy/types'
+
+export const PluginName = 'Bitbucket Server Plugin'
+import { PluginInternals } from './plugin'
+
+export default function BitbucketServerPlugin({
+    onReleaseAvailable,
+}: Pick<PluginHooks, 'onReleaseAvailable'>): void {
+    onReleaseAvailable.tapPromise(PluginName, PluginInternals)
+}
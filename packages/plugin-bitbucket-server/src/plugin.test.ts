@@ -0,0 +1,229 @@
+import {
+    createMockHttpServer,
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetSchema, PluginHooks } from '@monodeploy/types'
+import { AsyncSeriesHook } from 'tapable'
+
+import { PluginInternals } from './plugin'
+
+import BitbucketServerPlugin, { PluginName } from '.'
+
+jest.mock('@monodeploy/git')
+
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+    },
+}
+
+describe('Bitbucket Server Plugin', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env }
+        delete process.env.BITBUCKET_PROJECT_KEY
+        delete process.env.BITBUCKET_TOKEN
+        delete process.env.BITBUCKET_URL
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    it('registers on the onReleaseAvailable hook', async () => {
+        const hooks: Pick<PluginHooks, 'onReleaseAvailable'> = {
+            onReleaseAvailable: new AsyncSeriesHook(),
+        }
+
+        const info: Record<string, unknown> = await new Promise((r) => {
+            hooks.onReleaseAvailable.intercept({
+                register: (tapInfo) => {
+                    r(tapInfo as unknown as Record<string, unknown>)
+                    return tapInfo
+                },
+            })
+
+            BitbucketServerPlugin(hooks)
+        })
+
+        expect(info.type).toEqual('promise')
+        expect(info.name).toEqual(PluginName)
+    })
+
+    it('throws an error if missing auth token', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(/Missing Bitbucket Server Access Token/)
+            },
+        ))
+
+    it('throws an error if cannot determine bitbucket project', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+                process.env.BITBUCKET_TOKEN = 'abc'
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(
+                    /Cannot determine Bitbucket Server project or repository/,
+                )
+            },
+            { root: { repository: 'something corrupted' } },
+        ))
+
+    it('creates an annotated tag with the release notes', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 200 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.BITBUCKET_TOKEN = 'abc'
+                    process.env.BITBUCKET_URL = server.url
+
+                    await PluginInternals(context, config, changeset)
+
+                    // Releases without a changelog are skipped
+                    const tagsUrl =
+                        '/rest/git/1.0/projects/proj/repos/repo/tags'
+                    expect(
+                        server.requests.map(({ method, url, body }) => ({
+                            method,
+                            url,
+                            body,
+                        })),
+                    ).toEqual([
+                        {
+                            method: 'POST',
+                            url: tagsUrl,
+                            body: {
+                                name: 'pkg-1@1.0.0',
+                                startPoint: 'sha:pkg-1@1.0.0',
+                                message: 'a new feature',
+                            },
+                        },
+                    ])
+                    expect(server.requests[0].headers.authorization).toEqual(
+                        'Bearer abc',
+                    )
+                },
+                {
+                    root: {
+                        repository:
+                            'https://bitbucket.example.com/scm/proj/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not modify tags which already exist', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 409 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.BITBUCKET_TOKEN = 'abc'
+                    process.env.BITBUCKET_URL = server.url
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests.map(({ method }) => method)).toEqual(
+                        ['POST'],
+                    )
+                },
+                {
+                    root: {
+                        repository:
+                            'ssh://git@bitbucket.example.com:7999/proj/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('uses the project key if provided', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 404 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.BITBUCKET_TOKEN = 'abc'
+                    process.env.BITBUCKET_URL = server.url
+                    process.env.BITBUCKET_PROJECT_KEY = 'KEY'
+
+                    await expect(async () => {
+                        await PluginInternals(context, config, changeset)
+                    }).rejects.toThrow(
+                        /Failed to create Bitbucket Server tag pkg-1@1.0.0 \(HTTP 404\)/,
+                    )
+
+                    expect(server.requests.map(({ url }) => url)).toEqual([
+                        '/rest/git/1.0/projects/KEY/repos/repo/tags',
+                    ])
+                },
+                {
+                    root: {
+                        repository:
+                            'https://bitbucket.example.com/scm/proj/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+})
@@ -0,0 +1,91 @@
+import { gitResolveSha, parseRepositoryProperty } from '@monodeploy/git'
+import {
+    ReleaseProvider,
+    createReleases,
+    isSuccessfulResponse,
+    request,
+} from '@monodeploy/release-provider'
+import {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+export const PluginName = 'Bitbucket Server Plugin'
+
+export const createBitbucketServerProvider = async (
+    context: YarnContext,
+    config: MonodeployConfiguration,
+): Promise<ReleaseProvider> => {
+    const accessToken = process.env.BITBUCKET_TOKEN
+    if (!accessToken) {
+        throw new Error('Missing Bitbucket Server Access Token')
+    }
+
+    const { host, owner, repository } = await parseRepositoryProperty(
+        context.workspace,
+    )
+
+    // Clone urls are of the form <host>/scm/<project>/<repo>.git, or
+    // ssh://git@<host>:7999/<project>/<repo>.git, so the project key is the
+    // last segment of the owner.
+    const projectKey =
+        process.env.BITBUCKET_PROJECT_KEY ?? owner?.split('/').pop()
+    if (!projectKey || !repository) {
+        throw new Error(
+            'Cannot determine Bitbucket Server project or repository',
+        )
+    }
+
+    const baseUrl = process.env.BITBUCKET_URL ?? host
+    if (!baseUrl) {
+        throw new Error('Cannot determine Bitbucket Server url')
+    }
+
+    const tagsUrl = `${baseUrl.replace(
+        /\/$/,
+        '',
+    )}/rest/git/1.0/projects/${encodeURIComponent(
+        projectKey,
+    )}/repos/${encodeURIComponent(repository)}/tags`
+    const headers = { Authorization: `Bearer ${accessToken}` }
+
+    return {
+        // Bitbucket Server has no concept of a release, so the release notes
+        // are recorded as the message of an annotated tag. A tag which
+        // already exists (e.g. pushed by monodeploy) is left untouched.
+        createRelease: async ({ tag, notes }) => {
+            const startPoint = await gitResolveSha(tag, {
+                cwd: config.cwd,
+                context,
+            })
+
+            const response = await request(tagsUrl, {
+                method: 'POST',
+                body: { name: tag, startPoint, message: notes },
+                headers,
+            })
+            if (response.statusCode === 409) return 'exists'
+            if (!isSuccessfulResponse(response)) {
+                throw new Error(
+                    `Failed to create Bitbucket Server tag ${tag} (HTTP ${response.statusCode}): ${response.body}`,
+                )
+            }
+            return 'created'
+        },
+    }
+}
+
+export const PluginInternals = async (
+    context: YarnContext,
+    config: MonodeployConfiguration,
+    changeset: ChangesetSchema,
+): Promise<void> => {
+    await createReleases({
+        pluginName: PluginName,
+        context,
+        config,
+        changeset,
+        provider: await createBitbucketServerProvider(context, config),
+    })
+}
@@ -0,0 +1,10 @@
+import { PluginHooks } from '@monodeploy/types'
+
+export const PluginName = 'Gitea Plugin'
+import { PluginInternals } from './plugin'
+
+export default function GiteaPlugin({
+    onReleaseAvailable,
+}: Pick<PluginHooks, 'onReleaseAvailable'>): void {
+    onReleaseAvailable.tapPromise(PluginName, PluginInternals)
+}
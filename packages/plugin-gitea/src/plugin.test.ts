@@ -0,0 +1,210 @@
+import {
+    createMockHttpServer,
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetSchema, PluginHooks } from '@monodeploy/types'
+import { AsyncSeriesHook } from 'tapable'
+
+import { PluginInternals } from './plugin'
+
+import GiteaPlugin, { PluginName } from '.'
+
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+    },
+}
+
+describe('Gitea Plugin', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env }
+        delete process.env.GITEA_API_URL
+        delete process.env.GITEA_TOKEN
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    it('registers on the onReleaseAvailable hook', async () => {
+        const hooks: Pick<PluginHooks, 'onReleaseAvailable'> = {
+            onReleaseAvailable: new AsyncSeriesHook(),
+        }
+
+        const info: Record<string, unknown> = await new Promise((r) => {
+            hooks.onReleaseAvailable.intercept({
+                register: (tapInfo) => {
+                    r(tapInfo as unknown as Record<string, unknown>)
+                    return tapInfo
+                },
+            })
+
+            GiteaPlugin(hooks)
+        })
+
+        expect(info.type).toEqual('promise')
+        expect(info.name).toEqual(PluginName)
+    })
+
+    it('throws an error if missing auth token', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(/Missing Gitea Access Token/)
+            },
+        ))
+
+    it('throws an error if cannot determine gitea owner or repository', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+                process.env.GITEA_TOKEN = 'abc'
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(/Cannot determine Gitea owner or repository/)
+            },
+            { root: { repository: 'something corrupted' } },
+        ))
+
+    it('creates gitea releases', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 201 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = {
+                        ...(await getMonodeployConfig({
+                            cwd: context.project.cwd,
+                            baseBranch: 'main',
+                            commitSha: 'shashasha',
+                        })),
+                        prerelease: true,
+                    }
+                    process.env.GITEA_TOKEN = 'abc'
+                    process.env.GITEA_API_URL = `${server.url}/api/v1`
+
+                    await PluginInternals(context, config, changeset)
+
+                    // Releases without a changelog are skipped
+                    expect(server.requests).toHaveLength(1)
+                    expect(server.requests[0]).toEqual(
+                        expect.objectContaining({
+                            method: 'POST',
+                            url: '/api/v1/repos/owner/repo/releases',
+                            body: {
+                                tag_name: 'pkg-1@1.0.0',
+                                name: 'pkg-1@1.0.0',
+                                body: 'a new feature',
+                                draft: false,
+                                prerelease: true,
+                            },
+                        }),
+                    )
+                    expect(server.requests[0].headers.authorization).toEqual(
+                        'token abc',
+                    )
+                },
+                {
+                    root: {
+                        repository: 'git@gitea.example.com:owner/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not fail if the release already exists', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 409 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITEA_TOKEN = 'abc'
+                    process.env.GITEA_API_URL = `${server.url}/api/v1`
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests).toHaveLength(1)
+                },
+                {
+                    root: {
+                        repository: 'https://codeberg.org/owner/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('throws an error if the release cannot be created', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 403 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITEA_TOKEN = 'abc'
+                    process.env.GITEA_API_URL = `${server.url}/api/v1`
+
+                    await expect(async () => {
+                        await PluginInternals(context, config, changeset)
+                    }).rejects.toThrow(/HTTP 403/)
+                },
+                {
+                    root: {
+                        repository: 'https://codeberg.org/owner/repo.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+})
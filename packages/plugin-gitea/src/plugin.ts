@@ -0,0 +1,78 @@
+import { parseRepositoryProperty } from '@monodeploy/git'
+import {
+    ReleaseProvider,
+    createReleases,
+    isSuccessfulResponse,
+    request,
+} from '@monodeploy/release-provider'
+import {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+export const PluginName = 'Gitea Plugin'
+
+export const createGiteaProvider = async (
+    context: YarnContext,
+): Promise<ReleaseProvider> => {
+    const accessToken = process.env.GITEA_TOKEN
+    if (!accessToken) {
+        throw new Error('Missing Gitea Access Token')
+    }
+
+    const { host, owner, repository } = await parseRepositoryProperty(
+        context.workspace,
+    )
+    if (!owner || !repository) {
+        throw new Error('Cannot determine Gitea owner or repository')
+    }
+
+    const apiUrl = process.env.GITEA_API_URL ?? (host ? `${host}/api/v1` : null)
+    if (!apiUrl) {
+        throw new Error('Cannot determine Gitea API url')
+    }
+
+    return {
+        createRelease: async ({ tag, name, notes, prerelease }) => {
+            const response = await request(
+                `${apiUrl.replace(/\/$/, '')}/repos/${encodeURIComponent(
+                    owner,
+                )}/${encodeURIComponent(repository)}/releases`,
+                {
+                    method: 'POST',
+                    body: {
+                        tag_name: tag,
+                        name,
+                        body: notes,
+                        draft: false,
+                        prerelease,
+                    },
+                    headers: { Authorization: `token ${accessToken}` },
+                },
+            )
+
+            if (response.statusCode === 409) return 'exists'
+            if (!isSuccessfulResponse(response)) {
+                throw new Error(
+                    `Failed to create Gitea release for ${tag} (HTTP ${response.statusCode}): ${response.body}`,
+                )
+            }
+            return 'created'
+        },
+    }
+}
+
+export const PluginInternals = async (
+    context: YarnContext,
+    config: MonodeployConfiguration,
+    changeset: ChangesetSchema,
+): Promise<void> => {
+    await createReleases({
+        pluginName: PluginName,
+        context,
+        config,
+        changeset,
+        provider: await createGiteaProvider(context),
+    })
+}
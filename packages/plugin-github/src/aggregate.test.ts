@@ -0,0 +1,237 @@
+import {
+    createMockHttpServer,
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetSchema } from '@monodeploy/types'
+
+import {
+    createAggregateRelease,
+    getAggregateReleaseNotes,
+    resolveAggregateTag,
+} from './aggregate'
+import { createGitHubClient } from './plugin'
+
+jest.mock('@monodeploy/git')
+
+const changeset: ChangesetSchema = {
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: 'a bug fix\n',
+    },
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-3': {
+        version: '2.0.0',
+        tag: 'pkg-3@2.0.0',
+        changelog: null,
+    },
+}
+
+const repository = 'https://github.com/owner/repo.git'
+
+describe('GitHub Plugin Aggregated Release', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env, GH_TOKEN: 'abc' }
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    // Tags up to "release-2021-06-01.2" already exist
+    const createMockGitHubServer = () =>
+        createMockHttpServer(({ method, url }) => {
+            if (method === 'GET') {
+                return {
+                    statusCode: /release-2021-06-01\.[12]$/.test(url ?? '')
+                        ? 200
+                        : 404,
+                }
+            }
+            return { statusCode: 201 }
+        })
+
+    it('combines the changelog entries grouped by package', () => {
+        expect(getAggregateReleaseNotes(changeset)).toEqual(
+            [
+                '### Packages',
+                '',
+                '- `pkg-1@1.0.0`',
+                '- `pkg-2@1.0.1`',
+                '- `pkg-3@2.0.0`',
+                '',
+                '## pkg-1@1.0.0',
+                '',
+                'a new feature',
+                '',
+                '## pkg-2@1.0.1',
+                '',
+                'a bug fix',
+            ].join('\n'),
+        )
+    })
+
+    it('resolves the next available tag', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    process.env.GITHUB_API_URL = server.url
+                    const client = await createGitHubClient(context)
+                    const date = new Date('2021-06-01T12:00:00Z')
+
+                    expect(await resolveAggregateTag({ client, date })).toEqual(
+                        'release-2021-06-01.3',
+                    )
+                    expect(
+                        await resolveAggregateTag({
+                            client,
+                            date,
+                            template: 'v{date}',
+                        }),
+                    ).toEqual('v2021-06-01')
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('creates a single release for all packages', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                    'pkg-3': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    config.git.push = true
+                    process.env.GITHUB_API_URL = server.url
+
+                    await createAggregateRelease({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                        tagTemplate: 'release-{n}',
+                        assets: false,
+                    })
+
+                    expect(
+                        server.requests.map(({ method, url }) => ({
+                            method,
+                            url,
+                        })),
+                    ).toEqual([
+                        {
+                            method: 'GET',
+                            url: '/repos/owner/repo/git/ref/tags/release-1',
+                        },
+                        { method: 'POST', url: '/repos/owner/repo/releases' },
+                    ])
+                    expect(server.requests[1].body).toEqual({
+                        tag_name: 'release-1',
+                        target_commitish: 'sha:HEAD',
+                        name: 'release-1',
+                        body: getAggregateReleaseNotes(changeset),
+                        draft: false,
+                        prerelease: false,
+                    })
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not create a release in dry run mode', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                        dryRun: true,
+                    })
+                    process.env.GITHUB_API_URL = server.url
+
+                    await createAggregateRelease({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                        assets: false,
+                    })
+
+                    expect(
+                        server.requests.filter(
+                            ({ method }) => method === 'POST',
+                        ),
+                    ).toHaveLength(0)
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not create a release if the release commit is not pushed', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITHUB_API_URL = server.url
+
+                    await createAggregateRelease({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                        assets: false,
+                    })
+
+                    expect(server.requests).toHaveLength(0)
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+})
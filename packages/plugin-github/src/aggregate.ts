@@ -0,0 +1,159 @@
+import { gitResolveSha } from '@monodeploy/git'
+import logging from '@monodeploy/logging'
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+import { uploadReleaseAssets } from './assets'
+import type { GitHubClient } from './plugin'
+
+const DEFAULT_TAG_TEMPLATE = 'release-{date}.{n}'
+
+const tagExists = async (
+    { octokit, owner, repo }: GitHubClient,
+    tag: string,
+): Promise<boolean> => {
+    try {
+        await octokit.request('GET /repos/{owner}/{repo}/git/ref/tags/{tag}', {
+            owner,
+            repo,
+            tag,
+        })
+        return true
+    } catch (err) {
+        if (err?.status === 404) return false
+        throw err
+    }
+}
+
+/**
+ * Resolves the tag template of the aggregated release. The "{n}" placeholder
+ * is replaced with the lowest positive number for which the tag does not
+ * already exist on GitHub, so that several releases can be made in a day.
+ */
+export const resolveAggregateTag = async ({
+    client,
+    template = DEFAULT_TAG_TEMPLATE,
+    date = new Date(),
+}: {
+    client: GitHubClient
+    template?: string
+    date?: Date
+}): Promise<string> => {
+    const datedTemplate = template.replace(
+        /\{date\}/g,
+        date.toISOString().slice(0, 10),
+    )
+    if (!datedTemplate.includes('{n}')) return datedTemplate
+
+    for (let n = 1; ; n++) {
+        const tag = datedTemplate.replace(/\{n\}/g, String(n))
+        if (!(await tagExists(client, tag))) return tag
+    }
+}
+
+/**
+ * Combines the changelog entries of the released packages, grouped by
+ * package, preceded by a list of the package tags.
+ */
+export const getAggregateReleaseNotes = (
+    changeset: ChangesetSchema,
+): string => {
+    const entries = Object.entries(changeset).sort(([a], [b]) =>
+        a.localeCompare(b),
+    )
+
+    const tags = entries
+        .map(
+            ([pkgName, { version, tag }]) =>
+                `- \`${tag ?? `${pkgName}@${version}`}\``,
+        )
+        .join('\n')
+    const sections = entries
+        .filter(([, { changelog }]) => changelog)
+        .map(
+            ([pkgName, { version, changelog }]) =>
+                `## ${pkgName}@${version}\n\n${changelog!.trim()}`,
+        )
+
+    return [`### Packages\n\n${tags}`, ...sections].join('\n\n')
+}
+
+/**
+ * Creates a single release for all of the packages in the changeset, tagged
+ * with a repository level tag.
+ */
+export const createAggregateRelease = async ({
+    pluginName,
+    context,
+    config,
+    changeset,
+    client,
+    tagTemplate,
+    assets,
+    tarballs = new Map(),
+}: {
+    pluginName: string
+    context: YarnContext
+    config: MonodeployConfiguration
+    changeset: ChangesetSchema
+    client: GitHubClient
+    tagTemplate?: string
+    assets: boolean
+    tarballs?: ReadonlyMap<string, Buffer>
+}): Promise<void> => {
+    const pkgNames = Object.keys(changeset)
+    if (!pkgNames.length) {
+        logging.info(
+            `[${pluginName}] Skipping aggregated release as no packages were released.`,
+            { report: context.report },
+        )
+        return
+    }
+
+    // The release commit is only available to GitHub once pushed
+    if (!config.git.push) {
+        logging.warning(
+            `[${pluginName}] Skipping aggregated release as the release commit is not pushed.`,
+            { report: context.report },
+        )
+        return
+    }
+
+    const tag = await resolveAggregateTag({ client, template: tagTemplate })
+    logging.info(`[${pluginName}] Creating aggregated release ${tag}`, {
+        report: context.report,
+    })
+    if (config.dryRun) return
+
+    const { octokit, owner, repo } = client
+    const { data: release } = await octokit.request(
+        'POST /repos/{owner}/{repo}/releases',
+        {
+            owner,
+            repo,
+            tag_name: tag,
+            // The tag is created on the release commit if it doesn't exist
+            target_commitish: await gitResolveSha('HEAD', {
+                cwd: config.cwd,
+                context,
+            }),
+            name: tag,
+            body: getAggregateReleaseNotes(changeset),
+            draft: false,
+            prerelease: config.prerelease,
+        },
+    )
+
+    if (assets) {
+        await uploadReleaseAssets({
+            client,
+            uploadUrl: release.upload_url,
+            pkgNames,
+            changeset,
+            tarballs,
+        })
+    }
+}
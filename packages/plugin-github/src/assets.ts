@@ -0,0 +1,89 @@
+import type { ChangesetSchema } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+
+import type { GitHubClient } from './plugin'
+
+type ReleaseAsset = {
+    name: string
+    contentType: string
+    data: Buffer
+}
+
+/**
+ * Returns the name of a release asset, following the same naming scheme as
+ * `npm pack` (e.g. "scope-pkg-1.0.0").
+ */
+const getAssetBasename = (pkgName: string, version: string): string => {
+    const ident = structUtils.parseIdent(pkgName)
+    return `${ident.scope ? `${ident.scope}-` : ''}${ident.name}-${version}`
+}
+
+const getReleaseAssets = ({
+    pkgName,
+    changeset,
+    tarballs,
+}: {
+    pkgName: string
+    changeset: ChangesetSchema
+    tarballs: ReadonlyMap<string, Buffer>
+}): ReleaseAsset[] => {
+    const { version } = changeset[pkgName]
+    const basename = getAssetBasename(pkgName, version)
+    const assets: ReleaseAsset[] = []
+
+    const tarball = tarballs.get(pkgName)
+    if (tarball) {
+        assets.push({
+            name: `${basename}.tgz`,
+            contentType: 'application/gzip',
+            data: tarball,
+        })
+    }
+
+    assets.push({
+        name: `${basename}.changeset.json`,
+        contentType: 'application/json',
+        data: Buffer.from(
+            JSON.stringify({ [pkgName]: changeset[pkgName] }, null, 2),
+        ),
+    })
+
+    return assets
+}
+
+/**
+ * Uploads the packed tarball and changeset of each of the given packages as
+ * assets of a release.
+ */
+export const uploadReleaseAssets = async ({
+    client: { octokit },
+    uploadUrl,
+    pkgNames,
+    changeset,
+    tarballs,
+}: {
+    client: GitHubClient
+    uploadUrl: string
+    pkgNames: string[]
+    changeset: ChangesetSchema
+    tarballs: ReadonlyMap<string, Buffer>
+}): Promise<void> => {
+    for (const pkgName of pkgNames) {
+        for (const asset of getReleaseAssets({
+            pkgName,
+            changeset,
+            tarballs,
+        })) {
+            await octokit.request({
+                method: 'POST',
+                url: uploadUrl,
+                headers: {
+                    'content-type': asset.contentType,
+                    'content-length': asset.data.length,
+                },
+                name: asset.name,
+                data: asset.data,
+            })
+        }
+    }
+}
@@ -0,0 +1,201 @@
+import {
+    createMockHttpServer,
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetCommit, ChangesetSchema } from '@monodeploy/types'
+
+import { commentOnReleasedIssues, getIssueReferences } from './comments'
+import { createGitHubClient } from './plugin'
+
+const commit = (sha: string, body: string): ChangesetCommit => ({
+    sha,
+    body,
+    type: null,
+    scope: null,
+    subject: null,
+    breaking: false,
+})
+
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+        commits: [
+            commit('sha1', 'feat: a new feature (#5)'),
+            commit('sha2', 'fix: a bug\n\nfixes #7, see owner/other#9'),
+        ],
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+        commits: [commit('sha1', 'feat: a new feature (#5)')],
+    },
+}
+
+describe('GitHub Plugin Comments', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env, GH_TOKEN: 'abc' }
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    const createMockGitHubServer = () =>
+        createMockHttpServer(({ url }) => {
+            if (url?.includes('/commits/')) {
+                return {
+                    statusCode: 200,
+                    body: url.includes('/commits/sha1/') ? [{ number: 5 }] : [],
+                }
+            }
+            return { statusCode: 201 }
+        })
+
+    it('finds issue references in commit messages', () => {
+        expect(
+            getIssueReferences(
+                'feat: something (#12)\n\nfixes #13, closes #14.\nsee owner/repo#15 and abc#16',
+            ),
+        ).toEqual([12, 13, 14])
+    })
+
+    it('comments once on each released pull request and issue', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITHUB_API_URL = server.url
+
+                    await commentOnReleasedIssues({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                    })
+
+                    // Shared commits are only looked up once
+                    expect(
+                        server.requests
+                            .filter(({ method }) => method === 'GET')
+                            .map(({ url }) => url),
+                    ).toEqual([
+                        '/repos/owner/repo/commits/sha1/pulls',
+                        '/repos/owner/repo/commits/sha2/pulls',
+                    ])
+                    expect(
+                        server.requests
+                            .filter(({ method }) => method === 'POST')
+                            .map(({ url, body }) => ({ url, body })),
+                    ).toEqual([
+                        {
+                            url: '/repos/owner/repo/issues/5/comments',
+                            body: {
+                                body: 'Released in:\n\n- `pkg-1@1.0.0`\n- `pkg-2@1.0.1`',
+                            },
+                        },
+                        {
+                            url: '/repos/owner/repo/issues/7/comments',
+                            body: { body: 'Released in `pkg-1@1.0.0`' },
+                        },
+                    ])
+                },
+                { root: { repository: 'https://github.com/owner/repo.git' } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not comment in dry run mode', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                        dryRun: true,
+                    })
+                    process.env.GITHUB_API_URL = server.url
+
+                    await commentOnReleasedIssues({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                    })
+
+                    expect(
+                        server.requests.filter(
+                            ({ method }) => method === 'POST',
+                        ),
+                    ).toHaveLength(0)
+                },
+                { root: { repository: 'https://github.com/owner/repo.git' } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not fail the release if a comment cannot be created', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 403 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITHUB_API_URL = server.url
+
+                    await commentOnReleasedIssues({
+                        pluginName: 'GitHub Plugin',
+                        context,
+                        config,
+                        changeset,
+                        client: await createGitHubClient(context),
+                    })
+
+                    expect(
+                        server.requests
+                            .filter(({ method }) => method === 'POST')
+                            .map(({ url }) => url),
+                    ).toEqual([
+                        '/repos/owner/repo/issues/5/comments',
+                        '/repos/owner/repo/issues/7/comments',
+                    ])
+                },
+                { root: { repository: 'https://github.com/owner/repo.git' } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+})
@@ -0,0 +1,143 @@
+import logging from '@monodeploy/logging'
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+import type { GitHubClient } from './plugin'
+
+/**
+ * Matches issue references such as "#123" or "fixes #123", but not references
+ * to other repositories such as "owner/repo#123".
+ */
+const ISSUE_REFERENCE_PATTERN = /(?:^|[^\w/])#(\d+)\b/g
+
+export const getIssueReferences = (message: string): number[] =>
+    [...message.matchAll(ISSUE_REFERENCE_PATTERN)].map((match) =>
+        Number(match[1]),
+    )
+
+const getPullRequestsForCommit = async ({
+    pluginName,
+    context,
+    client: { octokit, owner, repo },
+    sha,
+}: {
+    pluginName: string
+    context: YarnContext
+    client: GitHubClient
+    sha: string
+}): Promise<number[]> => {
+    try {
+        const { data } = await octokit.request(
+            'GET /repos/{owner}/{repo}/commits/{commit_sha}/pulls',
+            {
+                owner,
+                repo,
+                commit_sha: sha,
+                // The endpoint is in preview with the locked API version
+                mediaType: { previews: ['groot'] },
+            },
+        )
+        return data.map((pullRequest) => pullRequest.number)
+    } catch (err) {
+        // The commit may not have been pushed to GitHub
+        if (err?.status !== 404 && err?.status !== 422) {
+            logging.warning(
+                `[${pluginName}] Failed to find pull requests for ${sha}: ${
+                    err?.message ?? err
+                }`,
+                { report: context.report },
+            )
+        }
+        return []
+    }
+}
+
+export const getReleaseComment = (releases: string[]): string =>
+    releases.length === 1
+        ? `Released in \`${releases[0]}\``
+        : `Released in:\n\n${releases
+              .map((release) => `- \`${release}\``)
+              .join('\n')}`
+
+/**
+ * Comments on each pull request and issue referenced by the commits of the
+ * released packages. Issues referenced by several packages receive a single
+ * comment listing all of the releases. Failures are logged rather than
+ * thrown, as the release has already been published.
+ */
+export const commentOnReleasedIssues = async ({
+    pluginName,
+    context,
+    config,
+    changeset,
+    client,
+}: {
+    pluginName: string
+    context: YarnContext
+    config: MonodeployConfiguration
+    changeset: ChangesetSchema
+    client: GitHubClient
+}): Promise<void> => {
+    const releasesByIssue = new Map<number, Set<string>>()
+    const pullRequestsByCommit = new Map<string, number[]>()
+
+    for (const [pkgName, changeData] of Object.entries(changeset)) {
+        const release = `${pkgName}@${changeData.version}`
+
+        for (const commit of changeData.commits ?? []) {
+            // The same commit may contribute to several packages
+            if (!pullRequestsByCommit.has(commit.sha)) {
+                pullRequestsByCommit.set(
+                    commit.sha,
+                    await getPullRequestsForCommit({
+                        pluginName,
+                        context,
+                        client,
+                        sha: commit.sha,
+                    }),
+                )
+            }
+
+            for (const issue of new Set([
+                ...pullRequestsByCommit.get(commit.sha)!,
+                ...getIssueReferences(commit.body),
+            ])) {
+                releasesByIssue.set(
+                    issue,
+                    (releasesByIssue.get(issue) ?? new Set()).add(release),
+                )
+            }
+        }
+    }
+
+    for (const [issue, releases] of [...releasesByIssue.entries()].sort(
+        ([a], [b]) => a - b,
+    )) {
+        logging.info(`[${pluginName}] Commenting on #${issue}`, {
+            report: context.report,
+        })
+        if (config.dryRun) continue
+
+        try {
+            await client.octokit.request(
+                'POST /repos/{owner}/{repo}/issues/{issue_number}/comments',
+                {
+                    owner: client.owner,
+                    repo: client.repo,
+                    issue_number: issue,
+                    body: getReleaseComment([...releases].sort()),
+                },
+            )
+        } catch (err) {
+            logging.warning(
+                `[${pluginName}] Failed to comment on #${issue}: ${
+                    err?.message ?? err
+                }`,
+                { report: context.report },
+            )
+        }
+    }
+}
@@ -1,10 +1,35 @@
 import { PluginHooks } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
 
 export const PluginName = 'GitHub Plugin'
-import { PluginInternals } from './plugin'
+import { PluginInternals, PluginOptions } from './plugin'
 
-export default function GitHubPlugin({
-    onReleaseAvailable,
-}: Pick<PluginHooks, 'onReleaseAvailable'>): void {
-    onReleaseAvailable.tapPromise(PluginName, PluginInternals)
+export type { PluginOptions }
+
+export default function GitHubPlugin(
+    {
+        onReleaseAvailable,
+        onWorkspacePacked,
+    }: Pick<PluginHooks, 'onReleaseAvailable' | 'onWorkspacePacked'>,
+    options: PluginOptions = {},
+): void {
+    // The tarballs are only available while publishing, so we hold on to
+    // them until the releases are created.
+    const tarballs = new Map<string, Buffer>()
+    if (options.assets) {
+        onWorkspacePacked.tapPromise(
+            PluginName,
+            async (context, config, workspace, tarball) => {
+                if (!workspace.manifest.name) return
+                tarballs.set(
+                    structUtils.stringifyIdent(workspace.manifest.name),
+                    tarball,
+                )
+            },
+        )
+    }
+
+    onReleaseAvailable.tapPromise(PluginName, (context, config, changeset) =>
+        PluginInternals(context, config, changeset, { ...options, tarballs }),
+    )
 }
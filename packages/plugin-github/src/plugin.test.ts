@@ -1,18 +1,61 @@
 import {
+    createMockHttpServer,
     getMonodeployConfig,
     withMonorepoContext,
 } from '@monodeploy/test-utils'
-import { PluginHooks } from '@monodeploy/types'
+import { ChangesetSchema, PluginHooks } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
 import { AsyncSeriesHook } from 'tapable'
 
 import { PluginInternals } from './plugin'
 
 import GitHubPlugin, { PluginName } from '.'
 
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+    },
+}
+
+const repository = 'https://github.com/owner/repo.git'
+
 describe('GitHub Plugin', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env }
+        delete process.env.GH_TOKEN
+        delete process.env.GITHUB_API_URL
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    const createMockGitHubServer = async () => {
+        let uploadUrl = ''
+        const server = await createMockHttpServer(({ url }) => ({
+            statusCode: 201,
+            body: url?.endsWith('/releases') ? { upload_url: uploadUrl } : {},
+        }))
+        uploadUrl = `${server.url}/upload/1/assets{?name,label}`
+        return server
+    }
+
     it('registers on the onReleaseAvailable hook', async () => {
-        const hooks: Pick<PluginHooks, 'onReleaseAvailable'> = {
+        const hooks: Pick<
+            PluginHooks,
+            'onReleaseAvailable' | 'onWorkspacePacked'
+        > = {
             onReleaseAvailable: new AsyncSeriesHook(),
+            onWorkspacePacked: new AsyncSeriesHook(),
         }
 
         const info: Record<string, unknown> = await new Promise((r) => {
@@ -89,9 +132,234 @@ describe('GitHub Plugin', () => {
             { root: { repository: 'something corrupted' } },
         ))
 
-    it.todo('skips releases if no changelog available')
+    it('skips releases if no changelog available', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GH_TOKEN = 'abc'
+                    process.env.GITHUB_API_URL = server.url
 
-    it.todo('do not create a github release in dry run mode')
+                    await PluginInternals(context, config, {
+                        'pkg-2': changeset['pkg-2'],
+                    })
 
-    it.todo('creates a github release outside of dry run mode')
+                    expect(server.requests).toHaveLength(0)
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('do not create a github release in dry run mode', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                        dryRun: true,
+                    })
+                    process.env.GH_TOKEN = 'abc'
+                    process.env.GITHUB_API_URL = server.url
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests).toHaveLength(0)
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('creates a github release outside of dry run mode', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GH_TOKEN = 'abc'
+                    process.env.GITHUB_API_URL = server.url
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests).toHaveLength(1)
+                    expect(server.requests[0]).toEqual(
+                        expect.objectContaining({
+                            method: 'POST',
+                            url: '/repos/owner/repo/releases',
+                            body: {
+                                tag_name: 'pkg-1@1.0.0',
+                                name: 'pkg-1@1.0.0',
+                                body: 'a new feature',
+                                draft: false,
+                                prerelease: false,
+                            },
+                        }),
+                    )
+                    expect(server.requests[0].headers.authorization).toEqual(
+                        'token abc',
+                    )
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('reports releases which already exist', async () => {
+        const server = await createMockHttpServer(() => ({
+            statusCode: 422,
+            body: {
+                message: 'Validation Failed',
+                errors: [
+                    {
+                        resource: 'Release',
+                        code: 'already_exists',
+                        field: 'tag_name',
+                    },
+                ],
+            },
+        }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GH_TOKEN = 'abc'
+                    process.env.GITHUB_API_URL = server.url
+
+                    await expect(
+                        PluginInternals(context, config, changeset),
+                    ).resolves.toBeUndefined()
+                    expect(server.requests).toHaveLength(1)
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('uploads the packed tarball and changeset as release assets', async () => {
+        const server = await createMockGitHubServer()
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GH_TOKEN = 'abc'
+                    process.env.GITHUB_API_URL = server.url
+
+                    const hooks: Pick<
+                        PluginHooks,
+                        'onReleaseAvailable' | 'onWorkspacePacked'
+                    > = {
+                        onReleaseAvailable: new AsyncSeriesHook([
+                            'context',
+                            'config',
+                            'changeset',
+                        ]),
+                        onWorkspacePacked: new AsyncSeriesHook([
+                            'context',
+                            'config',
+                            'workspace',
+                            'tarball',
+                        ]),
+                    }
+                    GitHubPlugin(hooks, { assets: true })
+
+                    const workspace = context.project.getWorkspaceByIdent(
+                        structUtils.parseIdent('pkg-1'),
+                    )
+                    const tarball = Buffer.from('tarball contents')
+                    await hooks.onWorkspacePacked.promise(
+                        context,
+                        config,
+                        workspace,
+                        tarball,
+                    )
+                    await hooks.onReleaseAvailable.promise(context, config, {
+                        'pkg-1': changeset['pkg-1'],
+                    })
+
+                    expect(
+                        server.requests.map(({ method, url }) => {
+                            const { pathname, searchParams } = new URL(
+                                url ?? '',
+                                server.url,
+                            )
+                            return {
+                                method,
+                                pathname,
+                                name: searchParams.get('name'),
+                            }
+                        }),
+                    ).toEqual([
+                        {
+                            method: 'POST',
+                            pathname: '/repos/owner/repo/releases',
+                            name: null,
+                        },
+                        {
+                            method: 'POST',
+                            pathname: '/upload/1/assets',
+                            name: 'pkg-1-1.0.0.tgz',
+                        },
+                        {
+                            method: 'POST',
+                            pathname: '/upload/1/assets',
+                            name: 'pkg-1-1.0.0.changeset.json',
+                        },
+                    ])
+                    expect(server.requests[1].body).toEqual(tarball)
+                    expect(server.requests[2].body).toEqual({
+                        'pkg-1': changeset['pkg-1'],
+                    })
+                },
+                { root: { repository } },
+            )
+        } finally {
+            await server.close()
+        }
+    })
 })
@@ -1,5 +1,5 @@
 import { parseRepositoryProperty } from '@monodeploy/git'
-import logging from '@monodeploy/logging'
+import { ReleaseProvider, createReleases } from '@monodeploy/release-provider'
 import {
     ChangesetSchema,
     MonodeployConfiguration,
@@ -8,13 +8,45 @@ import {
 import { Octokit } from '@octokit/core'
 import { throttling } from '@octokit/plugin-throttling'
 
+import { createAggregateRelease } from './aggregate'
+import { uploadReleaseAssets } from './assets'
+import { commentOnReleasedIssues } from './comments'
+
 export const PluginName = 'GitHub Plugin'
 
-export const PluginInternals = async (
+export type PluginOptions = {
+    /**
+     * Whether to upload the packed tarball and changeset of each package as
+     * assets of its release.
+     */
+    assets?: boolean
+    /**
+     * Whether to comment on the pull requests and issues which were released,
+     * with the versions they were released in.
+     */
+    comments?: boolean
+    /**
+     * Whether to create a single release for all of the packages released by
+     * a run, rather than one release per package.
+     */
+    aggregate?: boolean
+    /**
+     * The tag of the aggregated release, in which "{date}" is replaced with
+     * the current date, and "{n}" with the lowest number for which the tag
+     * doesn't already exist.
+     */
+    aggregateTag?: string
+}
+
+export type GitHubClient = {
+    octokit: Octokit
+    owner: string
+    repo: string
+}
+
+export const createGitHubClient = async (
     context: YarnContext,
-    config: MonodeployConfiguration,
-    changeset: ChangesetSchema,
-): Promise<void> => {
+): Promise<GitHubClient> => {
     const personalAccessToken = process.env.GH_TOKEN
     if (!personalAccessToken) {
         throw new Error('Missing GitHub Personal Access Token')
@@ -23,6 +55,7 @@ export const PluginInternals = async (
     const ThrottledOctokit = Octokit.plugin(throttling)
     const octokit = new ThrottledOctokit({
         auth: personalAccessToken,
+        baseUrl: process.env.GITHUB_API_URL,
         throttle: {
             onRateLimit: () => true,
             onAbuseLimit: () => {
@@ -39,34 +72,123 @@ export const PluginInternals = async (
         throw new Error('Cannot determine GitHub owner or repository')
     }
 
-    for (const [pkgName, changeData] of Object.entries(changeset)) {
-        if (!changeData.tag) {
-            throw new Error(`Missing package git tag for ${pkgName}`)
-        }
-
-        if (!changeData.changelog) {
-            logging.info(
-                `[${PluginName}] Skipping release for ${changeData.tag} as there's no changelog.`,
-                {
-                    report: context.report,
-                },
-            )
-            continue
-        }
-
-        logging.info(`[${PluginName}] Creating release for ${changeData.tag}`, {
-            report: context.report,
+    return { octokit, owner, repo }
+}
+
+export const createGitHubProvider = async (
+    client: GitHubClient,
+    {
+        changeset,
+        assets = false,
+        tarballs = new Map(),
+    }: {
+        changeset: ChangesetSchema
+        assets?: boolean
+        tarballs?: ReadonlyMap<string, Buffer>
+    },
+): Promise<ReleaseProvider> => {
+    const { octokit, owner, repo } = client
+
+    return {
+        createRelease: async ({
+            packageName,
+            tag,
+            name,
+            notes,
+            prerelease,
+        }) => {
+            let uploadUrl: string
+            try {
+                const { data: release } = await octokit.request(
+                    'POST /repos/{owner}/{repo}/releases',
+                    {
+                        owner,
+                        repo,
+                        tag_name: tag,
+                        name,
+                        body: notes,
+                        draft: false,
+                        prerelease,
+                    },
+                )
+                uploadUrl = release.upload_url
+            } catch (err) {
+                // GitHub rejects a release whose tag already has a release
+                // as a validation error, whose body is copied onto the error
+                const errors = err?.errors ?? err?.response?.data?.errors
+                if (
+                    err?.status === 422 &&
+                    errors?.some(
+                        (error: { code?: string }) =>
+                            error?.code === 'already_exists',
+                    )
+                ) {
+                    return 'exists'
+                }
+                throw err
+            }
+
+            if (assets) {
+                await uploadReleaseAssets({
+                    client,
+                    uploadUrl,
+                    pkgNames: [packageName],
+                    changeset,
+                    tarballs,
+                })
+            }
+
+            return 'created'
+        },
+    }
+}
+
+export const PluginInternals = async (
+    context: YarnContext,
+    config: MonodeployConfiguration,
+    changeset: ChangesetSchema,
+    {
+        assets = false,
+        comments = false,
+        aggregate = false,
+        aggregateTag,
+        tarballs,
+    }: PluginOptions & { tarballs?: ReadonlyMap<string, Buffer> } = {},
+): Promise<void> => {
+    const client = await createGitHubClient(context)
+
+    if (aggregate) {
+        await createAggregateRelease({
+            pluginName: PluginName,
+            context,
+            config,
+            changeset,
+            client,
+            tagTemplate: aggregateTag,
+            assets,
+            tarballs,
+        })
+    } else {
+        await createReleases({
+            pluginName: PluginName,
+            context,
+            config,
+            changeset,
+            provider: await createGitHubProvider(client, {
+                changeset,
+                assets,
+                tarballs,
+            }),
+        })
+    }
+
+    if (comments) {
+        await commentOnReleasedIssues({
+            pluginName: PluginName,
+            context,
+            config,
+            changeset,
+            client,
         })
-        if (!config.dryRun) {
-            await octokit.request('POST /repos/{owner}/{repo}/releases', {
-                owner,
-                repo,
-                tag_name: changeData.tag,
-                name: changeData.tag,
-                body: changeData.changelog ?? '',
-                draft: false,
-                prerelease: config.prerelease,
-            })
-        }
     }
 }
@@ -0,0 +1,228 @@
+import {
+    createMockHttpServer,
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetSchema, PluginHooks } from '@monodeploy/types'
+import { AsyncSeriesHook } from 'tapable'
+
+import { PluginInternals } from './plugin'
+
+import GitLabPlugin, { PluginName } from '.'
+
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+    },
+}
+
+describe('GitLab Plugin', () => {
+    const env = process.env
+
+    beforeEach(() => {
+        process.env = { ...env }
+        delete process.env.GITLAB_API_URL
+        delete process.env.GITLAB_PROJECT_ID
+        delete process.env.GITLAB_TOKEN
+    })
+
+    afterEach(() => {
+        process.env = env
+    })
+
+    it('registers on the onReleaseAvailable hook', async () => {
+        const hooks: Pick<PluginHooks, 'onReleaseAvailable'> = {
+            onReleaseAvailable: new AsyncSeriesHook(),
+        }
+
+        const info: Record<string, unknown> = await new Promise((r) => {
+            hooks.onReleaseAvailable.intercept({
+                register: (tapInfo) => {
+                    r(tapInfo as unknown as Record<string, unknown>)
+                    return tapInfo
+                },
+            })
+
+            GitLabPlugin(hooks)
+        })
+
+        expect(info.type).toEqual('promise')
+        expect(info.name).toEqual(PluginName)
+    })
+
+    it('throws an error if missing auth token', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(/Missing GitLab Access Token/)
+            },
+        ))
+
+    it('throws an error if cannot determine gitlab project', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+                process.env.GITLAB_TOKEN = 'abc'
+
+                await expect(async () => {
+                    await PluginInternals(context, config, changeset)
+                }).rejects.toThrow(/Cannot determine GitLab project/)
+            },
+            { root: { repository: 'something corrupted' } },
+        ))
+
+    it('creates gitlab releases for projects in nested groups', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 201 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                    'pkg-2': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITLAB_TOKEN = 'abc'
+                    process.env.GITLAB_API_URL = `${server.url}/api/v4`
+
+                    await PluginInternals(context, config, changeset)
+
+                    // Releases without a changelog are skipped
+                    expect(server.requests).toHaveLength(1)
+                    expect(server.requests[0]).toEqual(
+                        expect.objectContaining({
+                            url: '/api/v4/projects/group%2Fsubgroup%2Fproject/releases',
+                            body: {
+                                tag_name: 'pkg-1@1.0.0',
+                                name: 'pkg-1@1.0.0',
+                                description: 'a new feature',
+                            },
+                        }),
+                    )
+                    expect(server.requests[0].headers['private-token']).toEqual(
+                        'abc',
+                    )
+                },
+                {
+                    root: {
+                        repository:
+                            'https://gitlab.example.com/group/subgroup/project.git',
+                    },
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('uses the project id if provided', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 201 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITLAB_TOKEN = 'abc'
+                    process.env.GITLAB_API_URL = `${server.url}/api/v4`
+                    process.env.GITLAB_PROJECT_ID = '1234'
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests.map(({ url }) => url)).toEqual([
+                        '/api/v4/projects/1234/releases',
+                    ])
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('does not create a gitlab release in dry run mode', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 201 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                        dryRun: true,
+                    })
+                    process.env.GITLAB_TOKEN = 'abc'
+                    process.env.GITLAB_API_URL = `${server.url}/api/v4`
+                    process.env.GITLAB_PROJECT_ID = '1234'
+
+                    await PluginInternals(context, config, changeset)
+
+                    expect(server.requests).toHaveLength(0)
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+
+    it('throws an error if the release cannot be created', async () => {
+        const server = await createMockHttpServer(() => ({ statusCode: 403 }))
+        try {
+            await withMonorepoContext(
+                {
+                    'pkg-1': {},
+                },
+                async (context) => {
+                    const config = await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })
+                    process.env.GITLAB_TOKEN = 'abc'
+                    process.env.GITLAB_API_URL = `${server.url}/api/v4`
+                    process.env.GITLAB_PROJECT_ID = '1234'
+
+                    await expect(async () => {
+                        await PluginInternals(context, config, changeset)
+                    }).rejects.toThrow(/HTTP 403/)
+                },
+            )
+        } finally {
+            await server.close()
+        }
+    })
+})
@@ -0,0 +1,79 @@
+import { parseRepositoryProperty } from '@monodeploy/git'
+import {
+    ReleaseProvider,
+    createReleases,
+    isSuccessfulResponse,
+    request,
+} from '@monodeploy/release-provider'
+import {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+export const PluginName = 'GitLab Plugin'
+
+export const createGitLabProvider = async (
+    context: YarnContext,
+): Promise<ReleaseProvider> => {
+    const accessToken = process.env.GITLAB_TOKEN
+    if (!accessToken) {
+        throw new Error('Missing GitLab Access Token')
+    }
+
+    const { host, owner, repository } = await parseRepositoryProperty(
+        context.workspace,
+    )
+
+    // The project can be identified by either its numeric ID, or its
+    // URL-encoded path (including any nested groups)
+    const projectId =
+        process.env.GITLAB_PROJECT_ID ??
+        (owner && repository
+            ? encodeURIComponent(`${owner}/${repository}`)
+            : null)
+    if (!projectId) {
+        throw new Error('Cannot determine GitLab project')
+    }
+
+    const apiUrl =
+        process.env.GITLAB_API_URL ?? (host ? `${host}/api/v4` : null)
+    if (!apiUrl) {
+        throw new Error('Cannot determine GitLab API url')
+    }
+
+    return {
+        createRelease: async ({ tag, name, notes }) => {
+            const response = await request(
+                `${apiUrl.replace(/\/$/, '')}/projects/${projectId}/releases`,
+                {
+                    method: 'POST',
+                    body: { tag_name: tag, name, description: notes },
+                    headers: { 'PRIVATE-TOKEN': accessToken },
+                },
+            )
+
+            if (response.statusCode === 409) return 'exists'
+            if (!isSuccessfulResponse(response)) {
+                throw new Error(
+                    `Failed to create GitLab release for ${tag} (HTTP ${response.statusCode}): ${response.body}`,
+                )
+            }
+            return 'created'
+        },
+    }
+}
+
+export const PluginInternals = async (
+    context: YarnContext,
+    config: MonodeployConfiguration,
+    changeset: ChangesetSchema,
+): Promise<void> => {
+    await createReleases({
+        pluginName: PluginName,
+        context,
+        config,
+        changeset,
+        provider: await createGitLabProvider(context),
+    })
+}
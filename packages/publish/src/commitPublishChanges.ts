@@ -1,6 +1,10 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
 import {
     gitAdd,
     gitCommit,
+    gitListChangedFiles,
     gitPull,
     gitPush,
     gitPushTags,
@@ -11,9 +15,13 @@ import { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
 const commitPublishChanges = async ({
     config,
     context,
+    intentFiles = [],
+    onGitTagsPushed,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
+    intentFiles?: string[]
+    onGitTagsPushed?: () => void | Promise<void>
 }): Promise<void> => {
     if (config.dryRun) {
         logging.info('[Publish] Committing changes', {
@@ -29,16 +37,69 @@ const commitPublishChanges = async ({
             remote: config.git.remote,
             context,
         })
+        await onGitTagsPushed?.()
     }
 
     if (config.autoCommit) {
         // Push artifacts (changelog, package.json changes)
-        const files = ['yarn.lock', 'package.json', '"**/package.json"']
-        if (config?.changelogFilename) {
-            files.push(config?.changelogFilename.replace('<packageDir>', '**'))
+        const files = ['yarn.lock', 'package.json', '**/package.json']
+        const changelogFilenames = new Set([
+            config?.changelogFilename,
+            ...Object.values(config.packages ?? {}).map(
+                (packageConfig) => packageConfig.changelogFilename,
+            ),
+        ])
+        // Changelog files which may not exist, such as the archives, are
+        // only added if they have been written to
+        const changelogPatterns: string[] = []
+        for (const changelogFilename of changelogFilenames) {
+            if (!changelogFilename) continue
+
+            const pattern = changelogFilename
+                .replace('<packageDir>', '**')
+                .replace('<major>', '*')
+            if (changelogFilename.includes('<major>')) {
+                changelogPatterns.push(pattern)
+            } else {
+                files.push(pattern)
+            }
+
+            if (config.changelogMaxEntries || config.changelogMaxAge) {
+                const { dir, name, ext } = path.posix.parse(pattern)
+                const archiveFilename =
+                    config.changelogArchiveFilename ?? `${name}-<year>${ext}`
+                changelogPatterns.push(
+                    path.posix.join(
+                        dir,
+                        archiveFilename.replace('<year>', '*'),
+                    ),
+                )
+            }
+        }
+        if (config.changelogStoreFilename) {
+            changelogPatterns.push(
+                config.changelogStoreFilename.replace('<packageDir>', '**'),
+            )
+        }
+        files.push(
+            ...(await gitListChangedFiles(changelogPatterns, {
+                cwd: config.cwd,
+                context,
+            })),
+        )
+
+        // Consume the intent files which were used to determine the release
+        for (const intentFile of intentFiles) {
+            await fs.rm(path.resolve(config.cwd, intentFile), { force: true })
+            files.push(intentFile)
         }
+
         await gitAdd(files, { cwd: config.cwd })
-        await gitCommit(config.autoCommitMessage, { cwd: config.cwd, context })
+        await gitCommit(config.autoCommitMessage, {
+            cwd: config.cwd,
+            context,
+            signing: config.git,
+        })
 
         if (config.git.push) {
             await gitPull({
@@ -1,4 +1,4 @@
-import { gitTag } from '@monodeploy/git'
+import { formatTag, formatTagMessage, gitTag } from '@monodeploy/git'
 import logging from '@monodeploy/logging'
 import type {
     MonodeployConfiguration,
@@ -6,23 +6,42 @@ import type {
     YarnContext,
 } from '@monodeploy/types'
 
+/**
+ * Creates the release tags of the given package versions. The changelog
+ * entries, if given, are available to the tag message template.
+ */
 async function createReleaseGitTags({
     config,
     context,
     versions,
+    changelogs,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
     versions: PackageVersionMap
+    changelogs?: Map<string, string | null>
 }): Promise<Map<string, string>> {
     const tags = await Promise.all(
         [...versions.entries()].map(async (packageVersionEntry: string[]) => {
             const [packageIdent, packageVersion] = packageVersionEntry
-            const tag = `${packageIdent}@${packageVersion}`
+            const tag = formatTag(config.tagTemplate, {
+                name: packageIdent,
+                version: packageVersion,
+            })
 
             try {
                 if (!config.dryRun) {
-                    await gitTag(tag, { cwd: config.cwd, context })
+                    await gitTag(tag, {
+                        cwd: config.cwd,
+                        context,
+                        message: formatTagMessage(config.tagMessageTemplate, {
+                            tag,
+                            name: packageIdent,
+                            version: packageVersion,
+                            changelog: changelogs?.get(packageIdent),
+                        }),
+                        signing: config.git,
+                    })
                 }
 
                 logging.info(`[Tag] ${tag}`, { report: context.report })
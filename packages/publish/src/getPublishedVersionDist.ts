@@ -0,0 +1,64 @@
+import logging from '@monodeploy/logging'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { Ident, MessageName, ReportError, structUtils } from '@yarnpkg/core'
+import { npmHttpUtils } from '@yarnpkg/plugin-npm'
+
+export interface PublishedVersionDist {
+    integrity?: string
+    shasum?: string
+}
+
+/**
+ * Fetches the dist information (i.e. tarball checksums) of a package version
+ * from the registry's packument, or null if the version hasn't been published.
+ */
+const getPublishedVersionDist = async ({
+    config,
+    context,
+    ident,
+    version,
+    registryUrl,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    ident: Ident
+    version: string
+    registryUrl: string
+}): Promise<PublishedVersionDist | null> => {
+    const pkgName = structUtils.stringifyIdent(ident)
+
+    try {
+        const packument = await npmHttpUtils.get(
+            npmHttpUtils.getIdentUrl(ident),
+            {
+                configuration: context.project.configuration,
+                ident,
+                registry: registryUrl,
+                jsonResponse: true,
+            },
+        )
+
+        return packument?.versions?.[version]?.dist ?? null
+    } catch (err) {
+        const statusCode =
+            err.response?.statusCode ?? err.originalError?.response?.statusCode
+
+        if (
+            (err instanceof ReportError &&
+                err.reportCode === MessageName.AUTHENTICATION_INVALID) ||
+            statusCode === 404 ||
+            (statusCode === 500 && config.registryUrl?.match(/\.jfrog\.io\//))
+        ) {
+            // Assume the package has never been published before, see
+            // getLatestPackageTags.
+            return null
+        }
+
+        logging.error(`[Publish] Failed to fetch packument for ${pkgName}`, {
+            report: context.report,
+        })
+        throw err
+    }
+}
+
+export default getPublishedVersionDist
@@ -1,4 +1,5 @@
 import { getTopologicalSort } from '@monodeploy/dependencies'
+import { getPackageConfig } from '@monodeploy/io'
 import logging, { assertProductionOrTest } from '@monodeploy/logging'
 import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
 import { Workspace, miscUtils, structUtils } from '@yarnpkg/core'
@@ -8,30 +9,55 @@ import pLimit from 'p-limit'
 
 import commitPublishChanges from './commitPublishChanges'
 import createReleaseGitTags from './createReleaseGitTags'
+import getPublishedVersionDist, {
+    PublishedVersionDist,
+} from './getPublishedVersionDist'
 import getWorkspacesToPublish from './getWorkspacesToPublish'
 import { prepareForPack, prepareForPublish } from './prepare'
+import rollbackRelease from './rollbackRelease'
 
-export { commitPublishChanges, getWorkspacesToPublish, createReleaseGitTags }
+export {
+    commitPublishChanges,
+    getWorkspacesToPublish,
+    createReleaseGitTags,
+    rollbackRelease,
+}
+
+const isSameTarball = (
+    publishedDist: PublishedVersionDist,
+    dist: PublishedVersionDist,
+): boolean => {
+    if (publishedDist.integrity && dist.integrity) {
+        return publishedDist.integrity === dist.integrity
+    }
+    return Boolean(publishedDist.shasum) && publishedDist.shasum === dist.shasum
+}
 
 export const publishPackages = async ({
     config,
     context,
     workspacesToPublish,
     registryUrl,
+    onWorkspacePublished,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
     workspacesToPublish: Set<Workspace>
     registryUrl: string | null
+    onWorkspacePublished?: (workspace: Workspace) => Promise<void>
 }): Promise<void> => {
+    const limitFetch = pLimit(config.maxConcurrentReads || 10)
     const limitPublish = pLimit(config.maxConcurrentWrites || 1)
-    const publishTag = config.prerelease ? config.prereleaseNPMTag : 'latest'
 
     const prepareWorkspace = async (workspace: Workspace) => {
         const ident = workspace.manifest.name
         if (!ident) return
 
         const pkgName = structUtils.stringifyIdent(ident)
+        const packageConfig = getPackageConfig(config, pkgName)
+        const publishTag = packageConfig.prerelease
+            ? packageConfig.prereleaseNPMTag
+            : 'latest'
 
         const cwd = workspace.cwd
 
@@ -48,17 +74,51 @@ export const publishPackages = async ({
             const pack = await packUtils.genPackStream(workspace, filesToPack)
 
             const buffer = await miscUtils.bufferStream(pack)
+            await context.hooks?.onWorkspacePacked.promise(
+                context,
+                config,
+                workspace,
+                buffer,
+            )
 
             const body = await npmPublishUtils.makePublishBody(
                 workspace,
                 buffer,
                 {
-                    access: config.access,
+                    access: packageConfig.access,
                     tag: publishTag,
                     registry: registryUrl,
                 },
             )
 
+            // Versions can't be republished, so we skip versions which have
+            // already been published from the same tarball (e.g. by a previous
+            // attempt at this release).
+            const version = workspace.manifest.version!
+            const publishedDist = await limitFetch(() =>
+                getPublishedVersionDist({
+                    config,
+                    context,
+                    ident,
+                    version,
+                    registryUrl,
+                }),
+            )
+            if (publishedDist) {
+                if (
+                    !isSameTarball(publishedDist, body.versions[version].dist)
+                ) {
+                    throw new Error(
+                        `${pkgName}@${version} has already been published with different contents.`,
+                    )
+                }
+                logging.warning(
+                    `[Publish] ${pkgName}@${version} has already been published, skipping`,
+                    { report: context.report },
+                )
+                return
+            }
+
             try {
                 const identUrl = npmHttpUtils.getIdentUrl(ident)
 
@@ -83,9 +143,20 @@ export const publishPackages = async ({
             }
         }
 
+        await context.hooks?.onBeforePublishWorkspace.promise(
+            context,
+            config,
+            workspace,
+        )
         await prepareForPublish(context, workspace, { cwd }, async () => {
             await prepareForPack(context, workspace, { cwd }, pack)
         })
+        await onWorkspacePublished?.(workspace)
+        await context.hooks?.onAfterPublishWorkspace.promise(
+            context,
+            config,
+            workspace,
+        )
     }
 
     const limit = pLimit(config.jobs || Infinity)
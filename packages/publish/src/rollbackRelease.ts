@@ -0,0 +1,227 @@
+import { gitDeleteTag, gitPushDeleteTag } from '@monodeploy/git'
+import logging, { assertProductionOrTest } from '@monodeploy/logging'
+import type {
+    MonodeployConfiguration,
+    PackageVersionMap,
+    RollbackAction,
+    YarnContext,
+} from '@monodeploy/types'
+import { Ident, structUtils } from '@yarnpkg/core'
+import { npmHttpUtils } from '@yarnpkg/plugin-npm'
+
+const DEPRECATION_MESSAGE =
+    'This version was published by a failed release, and has been rolled back.'
+
+type Packument = {
+    _rev: string
+    'dist-tags': Record<string, string>
+    versions: Record<
+        string,
+        { deprecated?: string; dist?: { tarball?: string } }
+    >
+}
+
+const getRequestOptions = ({
+    context,
+    ident,
+    registryUrl,
+}: {
+    context: YarnContext
+    ident: Ident
+    registryUrl: string
+}) => ({
+    authType: npmHttpUtils.AuthType.ALWAYS_AUTH,
+    configuration: context.project.configuration,
+    ident,
+    registry: registryUrl,
+})
+
+const getPackument = async ({
+    context,
+    ident,
+    registryUrl,
+}: {
+    context: YarnContext
+    ident: Ident
+    registryUrl: string
+}): Promise<Packument> =>
+    await npmHttpUtils.get(`${npmHttpUtils.getIdentUrl(ident)}?write=true`, {
+        ...getRequestOptions({ context, ident, registryUrl }),
+        jsonResponse: true,
+    })
+
+/**
+ * Removes a version from the registry, following the same protocol as
+ * `npm unpublish <pkg>@<version>`.
+ */
+const unpublishVersion = async ({
+    context,
+    ident,
+    version,
+    previousVersion,
+    registryUrl,
+}: {
+    context: YarnContext
+    ident: Ident
+    version: string
+    previousVersion: string | null
+    registryUrl: string
+}): Promise<void> => {
+    const identUrl = npmHttpUtils.getIdentUrl(ident)
+    const options = getRequestOptions({ context, ident, registryUrl })
+    const packument = await getPackument({ context, ident, registryUrl })
+
+    // Unpublishing the only version of a package unpublishes the package
+    const versions = Object.keys(packument.versions ?? {})
+    if (versions.length === 1 && versions[0] === version) {
+        await npmHttpUtils.del(`${identUrl}/-rev/${packument._rev}`, options)
+        return
+    }
+
+    const tarball = packument.versions[version]?.dist?.tarball
+    delete packument.versions[version]
+    for (const [tag, taggedVersion] of Object.entries(packument['dist-tags'])) {
+        if (taggedVersion !== version) continue
+        if (previousVersion && packument.versions[previousVersion]) {
+            packument['dist-tags'][tag] = previousVersion
+        } else {
+            delete packument['dist-tags'][tag]
+        }
+    }
+    await npmHttpUtils.put(
+        `${identUrl}/-rev/${packument._rev}`,
+        packument,
+        options,
+    )
+
+    if (tarball) {
+        const { _rev } = await getPackument({ context, ident, registryUrl })
+        await npmHttpUtils.del(
+            `${new URL(tarball).pathname}/-rev/${_rev}`,
+            options,
+        )
+    }
+}
+
+const deprecateVersion = async ({
+    context,
+    ident,
+    version,
+    registryUrl,
+}: {
+    context: YarnContext
+    ident: Ident
+    version: string
+    registryUrl: string
+}): Promise<void> => {
+    const packument = await getPackument({ context, ident, registryUrl })
+    if (!packument.versions?.[version]) {
+        throw new Error(`Version ${version} not found in registry.`)
+    }
+    packument.versions[version].deprecated = DEPRECATION_MESSAGE
+    await npmHttpUtils.put(
+        npmHttpUtils.getIdentUrl(ident),
+        packument,
+        getRequestOptions({ context, ident, registryUrl }),
+    )
+}
+
+/**
+ * Reverts the externally visible side effects of a failed release, by
+ * deleting its git tags and unpublishing (or deprecating) its published
+ * versions. Failed actions are logged rather than thrown, so that as much
+ * of the release as possible is rolled back.
+ */
+const rollbackRelease = async ({
+    config,
+    context,
+    registryUrl,
+    previousVersions,
+    publishedVersions,
+    createdGitTags,
+    pushedGitTags,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    registryUrl: string | null
+    previousVersions: PackageVersionMap
+    publishedVersions: PackageVersionMap
+    createdGitTags: Map<string, string>
+    pushedGitTags: boolean
+}): Promise<Map<string, RollbackAction[]>> => {
+    const actions = new Map<string, RollbackAction[]>()
+
+    const runAction = async (
+        pkgName: string,
+        type: RollbackAction['type'],
+        target: string,
+        action: () => Promise<void>,
+    ): Promise<boolean> => {
+        const record: RollbackAction = { type, target, success: true }
+        try {
+            if (!config.dryRun) {
+                assertProductionOrTest()
+                await action()
+            }
+            logging.info(`[Rollback] ${type} ${target}`, {
+                report: context.report,
+            })
+        } catch (err) {
+            record.success = false
+            record.error = String(err?.message ?? err)
+            logging.error(`[Rollback] Failed to ${type} ${target}`, {
+                report: context.report,
+            })
+            logging.error(err, { report: context.report })
+        }
+        actions.set(pkgName, [...(actions.get(pkgName) ?? []), record])
+        return record.success
+    }
+
+    for (const [pkgName, tag] of createdGitTags.entries()) {
+        if (pushedGitTags) {
+            await runAction(pkgName, 'delete-remote-tag', tag, () =>
+                gitPushDeleteTag(tag, {
+                    cwd: config.cwd,
+                    remote: config.git.remote,
+                    context,
+                }),
+            )
+        }
+        await runAction(pkgName, 'delete-tag', tag, () =>
+            gitDeleteTag(tag, { cwd: config.cwd, context }),
+        )
+    }
+
+    if (!registryUrl || config.noRegistry) return actions
+
+    for (const [pkgName, version] of publishedVersions.entries()) {
+        const ident = structUtils.parseIdent(pkgName)
+        const target = `${pkgName}@${version}`
+
+        if (config.rollback === 'unpublish') {
+            const unpublished = await runAction(
+                pkgName,
+                'unpublish',
+                target,
+                () =>
+                    unpublishVersion({
+                        context,
+                        ident,
+                        version,
+                        previousVersion: previousVersions.get(pkgName) ?? null,
+                        registryUrl,
+                    }),
+            )
+            if (unpublished) continue
+        }
+
+        await runAction(pkgName, 'deprecate', target, () =>
+            deprecateVersion({ context, ident, version, registryUrl }),
+        )
+    }
+
+    return actions
+}
+
+export default rollbackRelease
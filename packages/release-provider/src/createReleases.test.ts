@@ -0,0 +1,152 @@
+import logging from '@monodeploy/logging'
+import {
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+import { ChangesetSchema } from '@monodeploy/types'
+
+import createReleases from './createReleases'
+import type { ReleaseProvider } from './types'
+
+const changeset: ChangesetSchema = {
+    'pkg-1': {
+        version: '1.0.0',
+        tag: 'pkg-1@1.0.0',
+        changelog: 'a new feature',
+    },
+    'pkg-2': {
+        version: '1.0.1',
+        tag: 'pkg-2@1.0.1',
+        changelog: null,
+    },
+}
+
+describe('createReleases', () => {
+    const createProvider = (
+        result: 'created' | 'exists' = 'created',
+    ): ReleaseProvider => ({
+        createRelease: jest.fn().mockResolvedValue(result),
+    })
+
+    afterEach(() => {
+        jest.restoreAllMocks()
+    })
+
+    it('creates a release for each package with a changelog', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+                'pkg-2': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+                const provider = createProvider()
+
+                await createReleases({
+                    pluginName: 'Test Plugin',
+                    context,
+                    config,
+                    changeset,
+                    provider,
+                })
+
+                expect(provider.createRelease).toHaveBeenCalledTimes(1)
+                expect(provider.createRelease).toHaveBeenCalledWith({
+                    packageName: 'pkg-1',
+                    version: '1.0.0',
+                    tag: 'pkg-1@1.0.0',
+                    name: 'pkg-1@1.0.0',
+                    notes: 'a new feature',
+                    prerelease: false,
+                })
+            },
+        ))
+
+    it('does not create releases in dry run mode', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                    dryRun: true,
+                })
+                const provider = createProvider()
+
+                await createReleases({
+                    pluginName: 'Test Plugin',
+                    context,
+                    config,
+                    changeset,
+                    provider,
+                })
+
+                expect(provider.createRelease).not.toHaveBeenCalled()
+            },
+        ))
+
+    it('throws an error if a package is missing its git tag', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+
+                await expect(async () => {
+                    await createReleases({
+                        pluginName: 'Test Plugin',
+                        context,
+                        config,
+                        changeset: {
+                            'pkg-1': {
+                                version: '1.0.0',
+                                tag: null,
+                                changelog: 'a new feature',
+                            },
+                        },
+                        provider: createProvider(),
+                    })
+                }).rejects.toThrow(/Missing package git tag for pkg-1/)
+            },
+        ))
+
+    it('warns if the release already exists', async () =>
+        withMonorepoContext(
+            {
+                'pkg-1': {},
+            },
+            async (context) => {
+                const config = await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })
+                const spyWarning = jest.spyOn(logging, 'warning')
+
+                await createReleases({
+                    pluginName: 'Test Plugin',
+                    context,
+                    config,
+                    changeset,
+                    provider: createProvider('exists'),
+                })
+
+                expect(spyWarning).toHaveBeenCalledWith(
+                    '[Test Plugin] Release for pkg-1@1.0.0 already exists.',
+                    expect.anything(),
+                )
+            },
+        ))
+})
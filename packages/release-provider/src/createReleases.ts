@@ -0,0 +1,65 @@
+import logging from '@monodeploy/logging'
+import type {
+    ChangesetSchema,
+    MonodeployConfiguration,
+    YarnContext,
+} from '@monodeploy/types'
+
+import type { ReleaseProvider } from './types'
+
+/**
+ * Creates a release with the given provider for each package in the
+ * changeset which has a changelog entry.
+ */
+const createReleases = async ({
+    pluginName,
+    context,
+    config,
+    changeset,
+    provider,
+}: {
+    pluginName: string
+    context: YarnContext
+    config: MonodeployConfiguration
+    changeset: ChangesetSchema
+    provider: ReleaseProvider
+}): Promise<void> => {
+    for (const [pkgName, changeData] of Object.entries(changeset)) {
+        if (!changeData.tag) {
+            throw new Error(`Missing package git tag for ${pkgName}`)
+        }
+
+        if (!changeData.changelog) {
+            logging.info(
+                `[${pluginName}] Skipping release for ${changeData.tag} as there's no changelog.`,
+                {
+                    report: context.report,
+                },
+            )
+            continue
+        }
+
+        logging.info(`[${pluginName}] Creating release for ${changeData.tag}`, {
+            report: context.report,
+        })
+        if (!config.dryRun) {
+            const result = await provider.createRelease({
+                packageName: pkgName,
+                version: changeData.version,
+                tag: changeData.tag,
+                name: changeData.tag,
+                notes: changeData.changelog,
+                prerelease: config.prerelease,
+            })
+
+            if (result === 'exists') {
+                logging.warning(
+                    `[${pluginName}] Release for ${changeData.tag} already exists.`,
+                    { report: context.report },
+                )
+            }
+        }
+    }
+}
+
+export default createReleases
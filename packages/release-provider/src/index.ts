@@ -0,0 +1,6 @@
+import createReleases from './createReleases'
+import request, { isSuccessfulResponse } from './request'
+
+export { createReleases, isSuccessfulResponse, request }
+export type { Response } from './request'
+export * from './types'
@@ -0,0 +1,57 @@
+import http from 'http'
+import https from 'https'
+
+export type Response = { statusCode: number; body: string }
+
+/**
+ * Sends a JSON request, resolving with the response regardless of its status
+ * code.
+ */
+const request = async (
+    url: string,
+    {
+        method,
+        body,
+        headers = {},
+    }: {
+        method: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE'
+        body?: unknown
+        headers?: Record<string, string>
+    },
+): Promise<Response> =>
+    await new Promise((resolve, reject) => {
+        const target = new URL(url)
+        const payload = body === undefined ? undefined : JSON.stringify(body)
+        const req = (target.protocol === 'http:' ? http : https).request(
+            target,
+            {
+                method,
+                headers: {
+                    ...headers,
+                    Accept: 'application/json',
+                    ...(payload !== undefined && {
+                        'Content-Type': 'application/json',
+                        'Content-Length': Buffer.byteLength(payload),
+                    }),
+                },
+            },
+            (response) => {
+                let data = ''
+                response.setEncoding('utf8')
+                response.on('data', (chunk) => (data += chunk))
+                response.on('end', () =>
+                    resolve({
+                        statusCode: response.statusCode ?? 0,
+                        body: data,
+                    }),
+                )
+            },
+        )
+        req.on('error', reject)
+        req.end(payload)
+    })
+
+export const isSuccessfulResponse = ({ statusCode }: Response): boolean =>
+    statusCode >= 200 && statusCode < 300
+
+export default request
@@ -0,0 +1,18 @@
+export interface Release {
+    packageName: string
+    version: string
+    tag: string
+    name: string
+    notes: string
+    prerelease: boolean
+}
+
+/**
+ * The outcome of creating a release. A release which already exists is
+ * reported rather than treated as a failure, so that releases can be retried.
+ */
+export type ReleaseResult = 'created' | 'exists'
+
+export interface ReleaseProvider {
+    createRelease(release: Release): Promise<ReleaseResult>
+}
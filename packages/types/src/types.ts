@@ -1,5 +1,5 @@
 import { Configuration, Project, Report, Workspace } from '@yarnpkg/core'
-import { AsyncSeriesHook } from 'tapable'
+import { AsyncSeriesHook, AsyncSeriesWaterfallHook } from 'tapable'
 
 export type RecursivePartial<T> = {
     [P in keyof T]?: T[P] extends Record<string, unknown>
@@ -18,11 +18,20 @@ export interface MonodeployConfiguration {
         remote: string
         push: boolean
         tag: boolean
+        baseBranchPerPackage?: boolean
+        sign?: boolean
+        signingKey?: string
+        signingFormat?: GitSigningFormat
     }
     conventionalChangelogConfig?: string
     changesetFilename?: string
     changelogFilename?: string
+    changelogMaxEntries?: number
+    changelogMaxAge?: number
+    changelogArchiveFilename?: string
+    changelogStoreFilename?: string
     changesetIgnorePatterns?: Array<string>
+    intentFilesDirectory?: string
     forceWriteChangeFiles: boolean
     access: string
     persistVersions: boolean
@@ -33,12 +42,96 @@ export interface MonodeployConfiguration {
     jobs: number
     maxConcurrentReads: number
     maxConcurrentWrites: number
-    plugins?: Array<string>
+    plugins?: Array<PluginConfiguration>
     prerelease: boolean
     prereleaseId: string
     prereleaseNPMTag: string
+    packages?: Record<string, PackageConfiguration>
+    fixed?: Array<Array<string>>
+    linked?: Array<Array<string>>
+    dependentBumpPolicy?: DependentBumpPolicy
+    journalFilename?: string
+    resume?: boolean
+    rollback?: RollbackMode
+    changesetSchemaVersion?: ChangesetSchemaVersion
+    changesetFormat?: ChangesetFormat
+    tagTemplate?: string
+    tagMessageTemplate?: string
 }
 
+/**
+ * Determines how the dependents of a released package are versioned:
+ *
+ *   - patch: always bump dependents with a patch
+ *   - out-of-range: only bump dependents whose published range, a caret range
+ *     on the upstream's current version, no longer satisfies the new version
+ *   - mirror: bump dependents with the same strategy as the upstream package
+ */
+export type DependentBumpPolicy = 'patch' | 'out-of-range' | 'mirror'
+
+/**
+ * A plugin module name, optionally paired with the options to pass to the
+ * plugin's constructor.
+ */
+export type PluginConfiguration =
+    | string
+    | [name: string, options: Record<string, unknown>]
+
+/**
+ * Determines how the published versions of a failed release are rolled back:
+ *
+ *   - unpublish: unpublish the versions, deprecating them instead if the
+ *     registry refuses (e.g. outside of its unpublish window)
+ *   - deprecate: deprecate the versions
+ */
+export type RollbackMode = 'unpublish' | 'deprecate'
+
+/**
+ * The format of the signatures of release tags and commits (git's
+ * `gpg.format`):
+ *
+ *   - openpgp: GPG signatures
+ *   - x509: X.509 (S/MIME) signatures
+ *   - ssh: SSH signatures
+ */
+export type GitSigningFormat = 'openpgp' | 'x509' | 'ssh'
+
+/**
+ * The version of the changeset file format:
+ *
+ *   - 1: a map of package names to changeset records (default)
+ *   - 2: a versioned document, with the records under "packages", see
+ *     changeset.schema.json
+ */
+export type ChangesetSchemaVersion = 1 | 2
+
+/**
+ * The format the changeset is written in. If not set, the format is inferred
+ * from the extension of the changeset filename, defaulting to json.
+ *
+ *   - json: the changeset document as JSON
+ *   - yaml: the changeset document as YAML
+ *   - markdown: a human readable release summary
+ *   - github-actions: step outputs in the `$GITHUB_OUTPUT` format, along with
+ *     a release summary appended to `$GITHUB_STEP_SUMMARY` (if set)
+ */
+export type ChangesetFormat = 'json' | 'yaml' | 'markdown' | 'github-actions'
+
+/**
+ * Configuration overrides which apply to a subset of the workspaces.
+ */
+export type PackageConfiguration = Partial<
+    Pick<
+        MonodeployConfiguration,
+        | 'access'
+        | 'prerelease'
+        | 'prereleaseNPMTag'
+        | 'changelogFilename'
+        | 'conventionalChangelogConfig'
+        | 'changesetIgnorePatterns'
+    >
+>
+
 export interface YarnContext {
     configuration: Configuration
     project: Project
@@ -48,6 +141,90 @@ export interface YarnContext {
 }
 
 export interface PluginHooks {
+    /**
+     * Triggered before the version strategies are determined.
+     */
+    onBeforeVersionStrategies: AsyncSeriesHook<
+        [Readonly<YarnContext>, Readonly<MonodeployConfiguration>],
+        void
+    >
+    /**
+     * Waterfall hook triggered once the explicit and implicit version
+     * strategies have been combined. Taps may return a modified strategy map.
+     */
+    onVersionStrategies: AsyncSeriesWaterfallHook<
+        [
+            PackageStrategyMap,
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+        ]
+    >
+    /**
+     * Waterfall hook triggered once the new package versions have been
+     * computed, but before the manifests are patched. Taps may return a
+     * modified version map.
+     */
+    onNewVersions: AsyncSeriesWaterfallHook<
+        [
+            PackageVersionMap,
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+        ]
+    >
+    /**
+     * Triggered before a workspace is packed and published.
+     */
+    onBeforePublishWorkspace: AsyncSeriesHook<
+        [
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+            Readonly<Workspace>,
+        ],
+        void
+    >
+    /**
+     * Triggered once a workspace has been packed for publishing, with the
+     * tarball which is published to the registry.
+     */
+    onWorkspacePacked: AsyncSeriesHook<
+        [
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+            Readonly<Workspace>,
+            Buffer,
+        ],
+        void
+    >
+    /**
+     * Triggered after a workspace has been published to the registry.
+     */
+    onAfterPublishWorkspace: AsyncSeriesHook<
+        [
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+            Readonly<Workspace>,
+        ],
+        void
+    >
+    /**
+     * Triggered after the release git tags have been created (but not
+     * necessarily pushed).
+     */
+    onGitTagsCreated: AsyncSeriesHook<
+        [
+            Readonly<YarnContext>,
+            Readonly<MonodeployConfiguration>,
+            ReadonlyMap<string, string>,
+        ],
+        void
+    >
+    /**
+     * Triggered if any step of the release pipeline throws.
+     */
+    onReleaseFailed: AsyncSeriesHook<
+        [Readonly<YarnContext>, Readonly<MonodeployConfiguration>, Error],
+        void
+    >
     onReleaseAvailable: AsyncSeriesHook<
         [
             Readonly<YarnContext>,
@@ -72,21 +249,161 @@ export type PackageVersionMap = Map<string, string>
 
 export type PackageStrategyType = 'major' | 'minor' | 'patch'
 
-export type PackageStrategyMap = Map<
-    string,
-    { type: PackageStrategyType; commits: CommitMessage[] }
->
+/**
+ * A version intent, as declared by a contributor in an intent file.
+ */
+export type VersionIntent = {
+    filename: string
+    type: PackageStrategyType
+    summary: string
+}
+
+/**
+ * An upstream package release which caused a dependent to be released.
+ */
+export type UpstreamChange = {
+    name: string
+    type: PackageStrategyType
+}
+
+/**
+ * The versions of an upstream package, as released alongside its dependent.
+ */
+export type UpstreamRelease = {
+    name: string
+    version: string | null
+    previousVersion: string | null
+}
+
+export type PackageStrategy = {
+    type: PackageStrategyType
+    commits: CommitMessage[]
+    intents?: VersionIntent[]
+    upstream?: UpstreamChange[]
+}
+
+export type PackageStrategyMap = Map<string, PackageStrategy>
 
 export type StrategyDeterminer = (commits: string[]) => Promise<number>
 
+/**
+ * An action taken while rolling back a failed release.
+ */
+export type RollbackAction = {
+    type: 'delete-tag' | 'delete-remote-tag' | 'unpublish' | 'deprecate'
+    target: string
+    success: boolean
+    error?: string
+}
+
 export interface ChangesetRecord {
     version: string
     previousVersion?: string | null
     changelog: string | null
     tag: string | null
     strategy?: PackageStrategyType | null
+    /**
+     * Whether the package was released due to its own changes (explicit), or
+     * only due to its dependencies or version group (implicit).
+     */
+    source?: 'explicit' | 'implicit'
+    /**
+     * The commits which contributed to the release of the package.
+     */
+    commits?: ChangesetCommit[]
+    /**
+     * The registry dist-tag the package was published under, if published to
+     * a registry.
+     */
+    distTag?: string | null
+    /**
+     * When the package was published, as an ISO 8601 timestamp.
+     */
+    publishedAt?: string | null
+    upstream?: UpstreamRelease[]
+    rollback?: RollbackAction[]
 }
 
 export interface ChangesetSchema {
     [packageName: string]: ChangesetRecord
 }
+
+/**
+ * A commit, along with its parsed conventional commit data.
+ */
+export type ChangesetCommit = CommitMessage & {
+    type: string | null
+    scope: string | null
+    subject: string | null
+    breaking: boolean
+}
+
+/**
+ * The contents of a version 2 changeset file.
+ */
+export interface ChangesetDocument {
+    schemaVersion: 2
+    packages: ChangesetSchema
+}
+
+/**
+ * A released version of a package, as recorded in the changelog store.
+ */
+export interface ChangelogStoreEntry {
+    name: string
+    version: string
+    previousVersion: string | null
+    /**
+     * The release date, as YYYY-MM-DD.
+     */
+    date: string
+    strategy: PackageStrategyType | null
+    tag: string | null
+    commits: ChangesetCommit[]
+    intents?: VersionIntent[]
+    upstream?: UpstreamRelease[]
+    /**
+     * The rendered Markdown changelog entry.
+     */
+    changelog: string | null
+}
+
+/**
+ * The contents of a changelog store file, with the entries ordered from
+ * newest to oldest.
+ */
+export interface ChangelogStore {
+    schemaVersion: 1
+    entries: ChangelogStoreEntry[]
+}
+
+/**
+ * The persisted state of a release, used to resume a release which failed
+ * part way through.
+ */
+export interface ReleaseJournal {
+    previousVersions: Record<string, string>
+    newVersions: Record<string, string>
+    versionStrategies: Record<string, PackageStrategy>
+    published: string[]
+    tags: Record<string, string>
+    changeset: ChangesetSchema | null
+    committed: boolean
+}
+
+export interface ReleaseStatusRecord {
+    name: string
+    previousVersion: string | null
+    version: string
+    strategy: PackageStrategyType | null
+    source: 'explicit' | 'implicit'
+}
+
+export interface ReleasePreviewRecord extends ReleaseStatusRecord {
+    manifestDiff: string
+    changelog: string | null
+}
+
+export interface ReleasePreview {
+    packages: ReleasePreviewRecord[]
+}
@@ -159,6 +159,64 @@ describe('applyReleases', () => {
                 expect(manifest3.version).toEqual('4.0.0-rc.2')
             },
         ))
+
+    it(`aligns the versions of fixed and linked version groups`, async () =>
+        withMonorepoContext(
+            {
+                core: {},
+                'adapter-a': {},
+                'adapter-b': {},
+                'plugin-a': {},
+                'plugin-b': {},
+                'plugin-c': {},
+            },
+            async (context) => {
+                const config: MonodeployConfiguration = {
+                    ...(await getMonodeployConfig({
+                        cwd: context.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })),
+                    fixed: [['core', 'adapter-*']],
+                    linked: [['plugin-*']],
+                }
+
+                const intendedVersions = await applyReleases({
+                    config,
+                    context,
+                    workspaces: new Set(
+                        context.project.workspaces.filter(
+                            (workspace) => !workspace.manifest.private,
+                        ),
+                    ),
+                    registryTags: new Map([
+                        ['core', { latest: '1.2.0' }],
+                        ['adapter-a', { latest: '1.2.0' }],
+                        ['adapter-b', { latest: '1.0.3' }],
+                        ['plugin-a', { latest: '0.3.0' }],
+                        ['plugin-b', { latest: '0.5.1' }],
+                        ['plugin-c', { latest: '0.1.0' }],
+                    ]),
+                    versionStrategies: new Map([
+                        ['core', { type: 'minor', commits: [] }],
+                        ['adapter-a', { type: 'minor', commits: [] }],
+                        ['adapter-b', { type: 'minor', commits: [] }],
+                        ['plugin-a', { type: 'patch', commits: [] }],
+                        ['plugin-c', { type: 'patch', commits: [] }],
+                    ]),
+                })
+
+                // fixed groups share the next version of the highest member
+                expect(intendedVersions.get('core')).toEqual('1.3.0')
+                expect(intendedVersions.get('adapter-a')).toEqual('1.3.0')
+                expect(intendedVersions.get('adapter-b')).toEqual('1.3.0')
+
+                // changed members of linked groups take the highest version
+                expect(intendedVersions.get('plugin-a')).toEqual('0.5.2')
+                expect(intendedVersions.has('plugin-b')).toBe(false)
+                expect(intendedVersions.get('plugin-c')).toEqual('0.5.2')
+            },
+        ))
 })
 
 describe('applyReleases prereleases', () => {
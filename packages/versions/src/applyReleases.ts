@@ -1,4 +1,4 @@
-import { patchPackageJsons } from '@monodeploy/io'
+import { getPackageConfig, patchPackageJsons } from '@monodeploy/io'
 import logging from '@monodeploy/logging'
 import type {
     MonodeployConfiguration,
@@ -11,6 +11,8 @@ import type {
 import { Workspace } from '@yarnpkg/core'
 import * as semver from 'semver'
 
+import { getVersionGroups } from './versionGroups'
+
 export const incrementVersion = ({
     currentLatestVersion,
     currentPrereleaseVersion,
@@ -57,62 +59,133 @@ export const incrementVersion = ({
     return semver.inc(currentPrereleaseVersion, 'prerelease', prereleaseId)
 }
 
-const applyReleases = async ({
+/**
+ * Determines the new versions of the packages being released, without
+ * modifying any package manifests.
+ */
+export const getReleaseVersions = async ({
     config,
     context,
-    workspaces,
     registryTags,
     versionStrategies,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
-    workspaces: Set<Workspace>
     registryTags: PackageTagMap
     versionStrategies: PackageStrategyMap
 }): Promise<PackageVersionMap> => {
     const updatedRegistryTags = new Map<string, string>()
-    const nonupdatedRegistryTags = new Map<string, string>()
+    const currentVersions = new Map<string, string>()
+    const nextVersions = new Map<string, string | null>()
 
-    for (const [packageName, packageTag] of registryTags.entries()) {
+    const getNextVersion = (
+        packageName: string,
+        currentLatestVersion: string,
+    ): string | null => {
         const packageVersionStrategy = versionStrategies.get(packageName)?.type
+        if (!packageVersionStrategy) return currentLatestVersion
 
-        const currentLatestVersion = packageTag.latest
+        const packageConfig = getPackageConfig(config, packageName)
         const currentPrereleaseVersion =
-            packageTag[config.prereleaseNPMTag] ?? null
-
-        let nextPackageVersion: string | null = currentLatestVersion
-        if (packageVersionStrategy) {
-            nextPackageVersion = incrementVersion({
-                strategy: packageVersionStrategy,
-                currentLatestVersion,
-                currentPrereleaseVersion,
-                prerelease: config.prerelease,
-                prereleaseId: config.prereleaseId,
-            })
+            registryTags.get(packageName)?.[packageConfig.prereleaseNPMTag] ??
+            null
+
+        return incrementVersion({
+            strategy: packageVersionStrategy,
+            currentLatestVersion,
+            currentPrereleaseVersion,
+            prerelease: packageConfig.prerelease,
+            prereleaseId: packageConfig.prereleaseId,
+        })
+    }
+
+    for (const [packageName, packageTag] of registryTags.entries()) {
+        currentVersions.set(packageName, packageTag.latest)
+        nextVersions.set(
+            packageName,
+            getNextVersion(packageName, packageTag.latest),
+        )
+    }
+
+    // Released members of a version group share a single version, which is
+    // derived from the highest current version in the group
+    const versionGroups = getVersionGroups({ config, context })
+    for (const members of [...versionGroups.fixed, ...versionGroups.linked]) {
+        const releasedMembers = [...members].filter(
+            (member) =>
+                registryTags.has(member) && versionStrategies.has(member),
+        )
+        if (!releasedMembers.length) continue
+
+        const groupLatestVersion = [...members]
+            .map((member) => currentVersions.get(member))
+            .filter((version): version is string => Boolean(version))
+            .sort(semver.rcompare)[0]
+        const groupVersion = releasedMembers
+            .map((member) => getNextVersion(member, groupLatestVersion))
+            .filter((version): version is string => Boolean(version))
+            .sort(semver.rcompare)[0]
+
+        for (const member of releasedMembers) {
+            nextVersions.set(member, groupVersion ?? null)
         }
+    }
 
+    for (const [packageName, nextPackageVersion] of nextVersions.entries()) {
+        const currentLatestVersion = currentVersions.get(packageName)
+        const packageVersionStrategy = versionStrategies.get(packageName)?.type
         if (nextPackageVersion && currentLatestVersion !== nextPackageVersion) {
             updatedRegistryTags.set(packageName, nextPackageVersion)
             logging.info(
                 `[Version Change] ${packageName}: ${currentLatestVersion} -> ${nextPackageVersion} (${packageVersionStrategy})`,
                 { report: context.report },
             )
-        } else {
-            nonupdatedRegistryTags.set(packageName, currentLatestVersion)
         }
     }
 
+    // Plugins may alter the new versions before the manifests are patched
+    return (
+        (await context.hooks?.onNewVersions.promise(
+            updatedRegistryTags,
+            context,
+            config,
+        )) ?? updatedRegistryTags
+    )
+}
+
+const applyReleases = async ({
+    config,
+    context,
+    workspaces,
+    registryTags,
+    versionStrategies,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    workspaces: Set<Workspace>
+    registryTags: PackageTagMap
+    versionStrategies: PackageStrategyMap
+}): Promise<PackageVersionMap> => {
+    const newVersions = await getReleaseVersions({
+        config,
+        context,
+        registryTags,
+        versionStrategies,
+    })
+
+    const currentVersions = new Map<string, string>()
+    for (const [packageName, packageTag] of registryTags.entries()) {
+        currentVersions.set(packageName, packageTag.latest)
+    }
+
     await patchPackageJsons(
         config,
         context,
         workspaces,
-        new Map([
-            ...nonupdatedRegistryTags.entries(),
-            ...updatedRegistryTags.entries(),
-        ]),
+        new Map([...currentVersions.entries(), ...newVersions.entries()]),
     )
 
-    return updatedRegistryTags
+    return newVersions
 }
 
 export default applyReleases
@@ -0,0 +1,79 @@
+import { Readable } from 'stream'
+
+import { readStream } from '@monodeploy/io'
+import type {
+    MonodeployConfiguration,
+    PackageStrategyType,
+} from '@monodeploy/types'
+import conventionalCommitsParser, { Commit } from 'conventional-commits-parser'
+
+const BREAKING_CHANGE = 'breaking change'
+const BREAKING_HEADER_PATTERN = /^\w+(\([^)]*\))?!:/
+
+const FEATURE_TYPES = ['feat']
+const PATCH_TYPES = ['fix', 'perf']
+
+// The default header pattern, extended to support the "!" breaking change
+// marker (e.g. "feat(scope)!: subject")
+export const DEFAULT_PARSER_OPTS: conventionalCommitsParser.Options = {
+    headerPattern: /^(\w*)(?:\((.*)\))?!?: (.*)$/,
+    headerCorrespondence: ['type', 'scope', 'subject'],
+}
+
+/**
+ * Parses the commit messages using the parser options of the configured
+ * conventional changelog config, or the default parser options if none is
+ * configured.
+ */
+export const parseConventionalCommits = async ({
+    config,
+    messages,
+}: {
+    config?: MonodeployConfiguration
+    messages: string[]
+}): Promise<Commit[]> => {
+    let parserOpts = DEFAULT_PARSER_OPTS
+    if (config?.conventionalChangelogConfig) {
+        // ghost-imports-ignore-next-line
+        const conventionalConfig = await require(require.resolve(
+            config.conventionalChangelogConfig,
+            { paths: [config.cwd] },
+        ))
+        parserOpts = conventionalConfig.parserOpts
+    }
+
+    const commitsStream = Readable.from(messages).pipe(
+        conventionalCommitsParser(parserOpts),
+    )
+    return await readStream<Commit>(commitsStream)
+}
+
+export const isBreakingChange = (commit: Commit | undefined): boolean => {
+    const header = commit?.header ?? ''
+    return (
+        BREAKING_HEADER_PATTERN.test(header) ||
+        header.toLowerCase().includes(BREAKING_CHANGE) ||
+        Boolean(
+            commit?.notes.some((note) =>
+                note.title.toLowerCase().includes(BREAKING_CHANGE),
+            ),
+        )
+    )
+}
+
+/**
+ * Classifies a parsed commit by the release it requires, if any. This is the
+ * default recommended strategy, which the default changelog renderer follows
+ * so that every released commit is rendered.
+ */
+export const getCommitStrategy = (
+    commit: Commit | undefined,
+): PackageStrategyType | null => {
+    if (!commit) return null
+    if (isBreakingChange(commit)) return 'major'
+    if (FEATURE_TYPES.includes(commit.type ?? '')) return 'minor'
+    if (PATCH_TYPES.includes(commit.type ?? '') || commit.revert) {
+        return 'patch'
+    }
+    return null
+}
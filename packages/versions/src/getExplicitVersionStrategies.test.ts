@@ -100,4 +100,109 @@ describe('getExplicitVersionStrategies', () => {
             ]),
         )
     })
+
+    it('applies per-package ignore patterns', async () => {
+        const cwd = tempRepositoryRoot
+        const context = await setupContext(cwd as PortablePath)
+        await createCommit('feat: initial commit', cwd)
+        execSync('git checkout -b test-branch', { cwd, stdio: 'ignore' })
+
+        await createFile({ filePath: `packages/pkg-1/test.test.js`, cwd })
+        await createFile({ filePath: `packages/pkg-2/test.test.js`, cwd })
+
+        const mockMessage = 'feat: woa'
+        await createCommit(mockMessage, cwd)
+        const headSha = execSync('git rev-parse HEAD', {
+            cwd,
+            encoding: 'utf8',
+        }).trim()
+
+        const strategies = await getExplicitVersionStrategies({
+            config: {
+                ...(await getMonodeployConfig({
+                    cwd,
+                    commitSha: headSha,
+                    baseBranch: 'main',
+                })),
+                packages: {
+                    'pkg-2': { changesetIgnorePatterns: ['**/*.test.js'] },
+                },
+            },
+            context,
+        })
+
+        expect(strategies).toEqual(
+            new Map([
+                [
+                    'pkg-1',
+                    {
+                        commits: [{ body: `${mockMessage}\n\n`, sha: headSha }],
+                        type: 'minor',
+                    },
+                ],
+            ]),
+        )
+    })
+
+    describe('Base Commits', () => {
+        const tag = (name: string, cwd: string) =>
+            execSync(`git tag ${name} -m ${name}`, { cwd })
+
+        const setupReleases = async (cwd: string) => {
+            await createCommit('chore: initial commit', cwd)
+            tag('pkg-1@1.0.0', cwd)
+            tag('pkg-2@1.0.0', cwd)
+
+            // pkg-1 has unreleased changes from before the pkg-2 release
+            await createFile({ filePath: 'packages/pkg-1/feature.js', cwd })
+            await createCommit('feat: a feature', cwd)
+            await createFile({ filePath: 'packages/pkg-2/fix.js', cwd })
+            await createCommit('fix: a fix', cwd)
+            tag('pkg-2@1.0.1', cwd)
+
+            await createFile({ filePath: 'packages/pkg-2/other.js', cwd })
+            await createCommit('fix: another fix', cwd)
+        }
+
+        it('compares each package against its own release tag', async () => {
+            const cwd = tempRepositoryRoot
+            const context = await setupContext(cwd as PortablePath)
+            await setupReleases(cwd)
+
+            const strategies = await getExplicitVersionStrategies({
+                config: await getMonodeployConfig({ cwd }),
+                context,
+            })
+
+            expect(
+                [...strategies.entries()].map(
+                    ([pkgName, { type, commits }]) => [
+                        pkgName,
+                        type,
+                        commits.map(({ body }) => body.trim()),
+                    ],
+                ),
+            ).toEqual([
+                ['pkg-1', 'minor', ['feat: a feature']],
+                ['pkg-2', 'patch', ['fix: another fix']],
+            ])
+        })
+
+        it('compares all packages against the most recent tag if disabled', async () => {
+            const cwd = tempRepositoryRoot
+            const context = await setupContext(cwd as PortablePath)
+            await setupReleases(cwd)
+
+            const config = await getMonodeployConfig({ cwd })
+            const strategies = await getExplicitVersionStrategies({
+                config: {
+                    ...config,
+                    git: { ...config.git, baseBranchPerPackage: false },
+                },
+                context,
+            })
+
+            expect([...strategies.keys()]).toEqual(['pkg-2'])
+        })
+    })
 })
@@ -1,17 +1,21 @@
 import path from 'path'
 
 import { getCommitMessages, gitDiffTree } from '@monodeploy/git'
+import { getPackageConfig } from '@monodeploy/io'
 import logging from '@monodeploy/logging'
 import type {
     MonodeployConfiguration,
     PackageStrategyMap,
     PackageStrategyType,
+    StrategyDeterminer,
     YarnContext,
 } from '@monodeploy/types'
 import { structUtils } from '@yarnpkg/core'
 import { PortablePath } from '@yarnpkg/fslib'
 import micromatch from 'micromatch'
 
+import getIntentVersionStrategies from './getIntentVersionStrategies'
+import getPackageBaseCommits from './getPackageBaseCommits'
 import {
     STRATEGY,
     createGetConventionalRecommendedStrategy,
@@ -27,7 +31,7 @@ const strategyLevelToType = (level: number): PackageStrategyType | null => {
     return (name as PackageStrategyType | null) ?? null
 }
 
-const getModifiedPackages = async ({
+export const getModifiedPackages = async ({
     config,
     context,
     commitSha,
@@ -49,24 +53,31 @@ const getModifiedPackages = async ({
         new Set(),
     )
 
-    const ignorePatterns = config.changesetIgnorePatterns ?? []
+    const globalIgnorePatterns = config.changesetIgnorePatterns ?? []
 
     const modifiedPackages = [...uniquePaths].reduce(
         (modifiedPackages: string[], currentPath: string): string[] => {
-            if (!micromatch([currentPath], ignorePatterns).length) {
-                try {
-                    const workspace = context.project.getWorkspaceByFilePath(
-                        path.resolve(config.cwd, currentPath) as PortablePath,
-                    )
-                    const ident = workspace?.manifest?.name
-                    if (!ident) throw new Error('Missing workspace identity.')
-                    const packageName = structUtils.stringifyIdent(ident)
-                    if (packageName && !workspace.manifest.private) {
-                        modifiedPackages.push(packageName)
-                    }
-                } catch (e) {
+            let packageName: string
+            try {
+                const workspace = context.project.getWorkspaceByFilePath(
+                    path.resolve(config.cwd, currentPath) as PortablePath,
+                )
+                const ident = workspace?.manifest?.name
+                if (!ident) throw new Error('Missing workspace identity.')
+                if (workspace.manifest.private) return modifiedPackages
+                packageName = structUtils.stringifyIdent(ident)
+            } catch (e) {
+                if (!micromatch([currentPath], globalIgnorePatterns).length) {
                     logging.error(e, { report: context.report })
                 }
+                return modifiedPackages
+            }
+
+            const ignorePatterns =
+                getPackageConfig(config, packageName).changesetIgnorePatterns ??
+                []
+            if (!micromatch([currentPath], ignorePatterns).length) {
+                modifiedPackages.push(packageName)
             }
             return modifiedPackages
         },
@@ -82,34 +93,101 @@ const getExplicitVersionStrategies = async ({
     config: MonodeployConfiguration
     context: YarnContext
 }): Promise<PackageStrategyMap> => {
+    // Intent files take the place of commit messages when configured
+    if (config.intentFilesDirectory) {
+        return getIntentVersionStrategies({ config, context })
+    }
+
     const versionStrategies: PackageStrategyMap = new Map()
 
-    const strategyDeterminer = config.conventionalChangelogConfig
-        ? createGetConventionalRecommendedStrategy(config)
-        : getDefaultRecommendedStrategy
-    const commits = await getCommitMessages(config, context)
-    for (const commit of commits) {
-        const strategy = strategyLevelToType(
-            await strategyDeterminer([commit.body]),
+    // Packages may use different conventional changelog configs, so we cache
+    // the strategy determiner per config
+    const strategyDeterminers = new Map<
+        string | undefined,
+        StrategyDeterminer
+    >()
+    const getStrategyDeterminer = (pkgName: string): StrategyDeterminer => {
+        const packageConfig = getPackageConfig(config, pkgName)
+        const key = packageConfig.conventionalChangelogConfig
+        let strategyDeterminer = strategyDeterminers.get(key)
+        if (!strategyDeterminer) {
+            strategyDeterminer = key
+                ? createGetConventionalRecommendedStrategy(packageConfig)
+                : getDefaultRecommendedStrategy
+            strategyDeterminers.set(key, strategyDeterminer)
+        }
+        return strategyDeterminer
+    }
+
+    // Packages released at different times have different commit ranges, so
+    // the commits are read once per distinct base commit
+    const packagesByBaseCommit = new Map<string, Set<string>>()
+    for (const [pkgName, baseCommit] of await getPackageBaseCommits({
+        config,
+        context,
+    })) {
+        packagesByBaseCommit.set(
+            baseCommit,
+            new Set([...(packagesByBaseCommit.get(baseCommit) ?? []), pkgName]),
         )
-        const packageNames = await getModifiedPackages({
-            config,
+    }
+
+    // A commit may be part of several commit ranges
+    const modifiedPackages = new Map<string, string[]>()
+    const getCommitPackages = async (commitSha: string): Promise<string[]> => {
+        let packageNames = modifiedPackages.get(commitSha)
+        if (!packageNames) {
+            packageNames = await getModifiedPackages({
+                config,
+                context,
+                commitSha,
+            })
+            modifiedPackages.set(commitSha, packageNames)
+        }
+        return packageNames
+    }
+
+    for (const [baseBranch, rangePackages] of packagesByBaseCommit) {
+        const commits = await getCommitMessages(
+            { ...config, git: { ...config.git, baseBranch } },
             context,
-            commitSha: commit.sha,
-        })
+        )
+        for (const commit of commits) {
+            const packageNames = (await getCommitPackages(commit.sha)).filter(
+                (pkgName) => rangePackages.has(pkgName),
+            )
 
-        for (const pkgName of packageNames) {
-            if (!strategy) continue
+            const commitStrategies = new Map<
+                StrategyDeterminer,
+                PackageStrategyType | null
+            >()
+            for (const pkgName of packageNames) {
+                const strategyDeterminer = getStrategyDeterminer(pkgName)
+                if (!commitStrategies.has(strategyDeterminer)) {
+                    commitStrategies.set(
+                        strategyDeterminer,
+                        strategyLevelToType(
+                            await strategyDeterminer([commit.body]),
+                        ),
+                    )
+                }
 
-            const previousVersionStrategy = versionStrategies.get(pkgName)
+                const strategy = commitStrategies.get(strategyDeterminer)
+                if (!strategy) continue
 
-            versionStrategies.set(pkgName, {
-                type: await maxStrategy(
-                    previousVersionStrategy?.type,
-                    strategy,
-                ),
-                commits: [commit, ...(previousVersionStrategy?.commits ?? [])],
-            })
+                const previousVersionStrategy = versionStrategies.get(pkgName)
+
+                versionStrategies.set(pkgName, {
+                    type: await maxStrategy(
+                        previousVersionStrategy?.type,
+                        strategy,
+                    ),
+                    commits: [
+                        commit,
+                        ...(previousVersionStrategy?.commits ?? []),
+                    ],
+                })
+            }
         }
     }
 
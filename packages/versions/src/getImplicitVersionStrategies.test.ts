@@ -45,10 +45,193 @@ describe('getImplicitVersionStrategies', () => {
         expect(strategies).toEqual(
             new Map(
                 Object.entries({
-                    'pkg-3': { type: 'patch', commits: [] },
-                    'pkg-6': { type: 'patch', commits: [] },
+                    'pkg-3': {
+                        type: 'patch',
+                        commits: [],
+                        upstream: [{ name: 'pkg-2', type: 'major' }],
+                    },
+                    'pkg-6': {
+                        type: 'patch',
+                        commits: [],
+                        upstream: [{ name: 'pkg-3', type: 'patch' }],
+                    },
                 }),
             ),
         )
     })
+
+    it('expands strategies to the members of fixed groups', async () => {
+        const mockIntentionalUpdates = new Map()
+        mockIntentionalUpdates.set('pkg-1', { type: 'patch', commits: [] })
+        mockIntentionalUpdates.set('pkg-2', { type: 'minor', commits: [] })
+        const strategies = await getImplicitVersionStrategies({
+            config: {
+                ...(await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })),
+                fixed: [['pkg-1', 'pkg-2', 'pkg-7']],
+            },
+            context,
+            intentionalStrategies: mockIntentionalUpdates,
+        })
+
+        expect(strategies).toEqual(
+            new Map(
+                Object.entries({
+                    'pkg-3': {
+                        type: 'patch',
+                        commits: [],
+                        upstream: [{ name: 'pkg-2', type: 'minor' }],
+                    },
+                    'pkg-6': {
+                        type: 'patch',
+                        commits: [],
+                        upstream: [
+                            { name: 'pkg-3', type: 'patch' },
+                            { name: 'pkg-7', type: 'minor' },
+                        ],
+                    },
+                    'pkg-1': { type: 'minor', commits: [] },
+                    'pkg-7': { type: 'minor', commits: [] },
+                }),
+            ),
+        )
+    })
+
+    it('expands strategies to the changed members of linked groups', async () => {
+        const mockIntentionalUpdates = new Map()
+        mockIntentionalUpdates.set('pkg-1', { type: 'major', commits: [] })
+        mockIntentionalUpdates.set('pkg-4', { type: 'patch', commits: [] })
+        const strategies = await getImplicitVersionStrategies({
+            config: {
+                ...(await getMonodeployConfig({
+                    cwd: context.project.cwd,
+                    baseBranch: 'main',
+                    commitSha: 'shashasha',
+                })),
+                linked: [['pkg-1', 'pkg-[4-7]']],
+            },
+            context,
+            intentionalStrategies: mockIntentionalUpdates,
+        })
+
+        // pkg-5 is private, and pkg-7 has not changed
+        expect(strategies).toEqual(
+            new Map(
+                Object.entries({
+                    'pkg-4': { type: 'major', commits: [] },
+                }),
+            ),
+        )
+    })
+
+    describe('dependent bump policies', () => {
+        let policyContext: YarnContext
+
+        beforeEach(async () => {
+            policyContext = await setupMonorepo({
+                'pkg-a': { version: '1.0.0' },
+                'pkg-b': {
+                    version: '1.0.0',
+                    dependencies: [['pkg-a', 'workspace:^']],
+                },
+                'pkg-c': {
+                    version: '1.0.0',
+                    peerDependencies: [['pkg-a', 'workspace:~']],
+                },
+                'pkg-d': { version: '1.0.0', dependencies: ['pkg-c'] },
+            })
+        })
+
+        afterEach(async () => {
+            try {
+                await fs.rm(policyContext.project.cwd, {
+                    recursive: true,
+                    force: true,
+                })
+            } catch {}
+        })
+
+        it('only bumps dependents whose published range is not satisfied with the out-of-range policy', async () => {
+            const mockIntentionalUpdates = new Map()
+            mockIntentionalUpdates.set('pkg-a', { type: 'minor', commits: [] })
+            const strategies = await getImplicitVersionStrategies({
+                config: {
+                    ...(await getMonodeployConfig({
+                        cwd: policyContext.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })),
+                    dependentBumpPolicy: 'out-of-range',
+                },
+                context: policyContext,
+                intentionalStrategies: mockIntentionalUpdates,
+            })
+
+            // Dependents are published with ^1.0.0 on pkg-a, regardless of
+            // the declared workspace range, which 1.1.0 satisfies
+            expect(strategies).toEqual(new Map())
+        })
+
+        it('compares against the registry version with the out-of-range policy', async () => {
+            const mockIntentionalUpdates = new Map()
+            mockIntentionalUpdates.set('pkg-a', { type: 'major', commits: [] })
+            const strategies = await getImplicitVersionStrategies({
+                config: {
+                    ...(await getMonodeployConfig({
+                        cwd: policyContext.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })),
+                    dependentBumpPolicy: 'out-of-range',
+                },
+                context: policyContext,
+                intentionalStrategies: mockIntentionalUpdates,
+                registryTags: new Map([['pkg-a', { latest: '2.0.0' }]]),
+            })
+
+            expect([...strategies.keys()].sort()).toEqual(['pkg-b', 'pkg-c'])
+        })
+
+        it('mirrors the upstream strategy with the mirror policy', async () => {
+            const mockIntentionalUpdates = new Map()
+            mockIntentionalUpdates.set('pkg-a', { type: 'major', commits: [] })
+            const strategies = await getImplicitVersionStrategies({
+                config: {
+                    ...(await getMonodeployConfig({
+                        cwd: policyContext.project.cwd,
+                        baseBranch: 'main',
+                        commitSha: 'shashasha',
+                    })),
+                    dependentBumpPolicy: 'mirror',
+                },
+                context: policyContext,
+                intentionalStrategies: mockIntentionalUpdates,
+            })
+
+            expect(strategies).toEqual(
+                new Map(
+                    Object.entries({
+                        'pkg-b': {
+                            type: 'major',
+                            commits: [],
+                            upstream: [{ name: 'pkg-a', type: 'major' }],
+                        },
+                        'pkg-c': {
+                            type: 'major',
+                            commits: [],
+                            upstream: [{ name: 'pkg-a', type: 'major' }],
+                        },
+                        'pkg-d': {
+                            type: 'major',
+                            commits: [],
+                            upstream: [{ name: 'pkg-c', type: 'major' }],
+                        },
+                    }),
+                ),
+            )
+        })
+    })
 })
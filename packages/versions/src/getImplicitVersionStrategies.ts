@@ -1,27 +1,160 @@
-import { getDependents } from '@monodeploy/dependencies'
+import { getDirectDependents } from '@monodeploy/dependencies'
 import type {
     MonodeployConfiguration,
     PackageStrategyMap,
+    PackageStrategyType,
+    PackageTagMap,
     YarnContext,
 } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+import * as semver from 'semver'
+
+import { getVersionGroups } from './versionGroups'
+import { maxStrategy } from './versionStrategy'
+
+/**
+ * Resolves whether a dependent needs to be released for the release of an
+ * upstream package. With the out-of-range policy, the dependent is compared
+ * against the range it is published with: patchPackageJsons rewrites every
+ * dependency on a workspace to a caret range on its current version.
+ */
+const getDependentStrategy = ({
+    config,
+    context,
+    registryTags,
+    upstreamName,
+    upstreamType,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+    registryTags?: PackageTagMap
+    upstreamName: string
+    upstreamType: PackageStrategyType
+}): PackageStrategyType | null => {
+    const policy = config.dependentBumpPolicy ?? 'patch'
+
+    if (policy === 'mirror') return upstreamType
+    if (policy === 'patch') return 'patch'
+
+    const currentVersion =
+        registryTags?.get(upstreamName)?.latest ??
+        context.project.getWorkspaceByIdent(
+            structUtils.parseIdent(upstreamName),
+        ).manifest.version ??
+        '0.0.0'
+    const nextVersion = semver.inc(currentVersion, upstreamType)
+
+    if (nextVersion && semver.satisfies(nextVersion, `^${currentVersion}`)) {
+        return null
+    }
+    return 'patch'
+}
 
 const getImplicitVersionStrategies = async ({
     config,
     context,
     intentionalStrategies,
+    registryTags,
 }: {
     config: MonodeployConfiguration
     context: YarnContext
     intentionalStrategies: PackageStrategyMap
+    registryTags?: PackageTagMap
 }): Promise<PackageStrategyMap> => {
-    const dependents = await getDependents(
-        config,
-        context,
-        new Set(intentionalStrategies.keys()),
-    )
-    const requiresUpdate = new Map()
-    for (const dependent of dependents) {
-        requiresUpdate.set(dependent, { type: 'patch', commits: [] })
+    const versionGroups = getVersionGroups({ config, context })
+    const directDependents = getDirectDependents(context)
+    const strategies: PackageStrategyMap = new Map(intentionalStrategies)
+    const requiresUpdate: PackageStrategyMap = new Map()
+
+    // Packages whose strategy has changed, and so must be propagated to their
+    // dependents.
+    const queue = [...strategies.keys()]
+
+    // Bumping a member of a version group may bump the other members, which
+    // in turn bumps their dependents, so we repeat until nothing changes.
+    while (queue.length) {
+        while (queue.length) {
+            const upstreamName = queue.shift()!
+            const upstreamType = strategies.get(upstreamName)!.type
+
+            for (const dependent of directDependents.get(upstreamName) ?? []) {
+                const type = getDependentStrategy({
+                    config,
+                    context,
+                    registryTags,
+                    upstreamName,
+                    upstreamType,
+                })
+                if (!type) continue
+
+                const previousStrategy = strategies.get(dependent.name)
+                const nextType = await maxStrategy(previousStrategy?.type, type)
+                const isUpgrade = previousStrategy?.type !== nextType
+
+                // Intentional releases only record the upstream changes which
+                // upgrade their strategy.
+                if (
+                    !isUpgrade &&
+                    intentionalStrategies.has(dependent.name) &&
+                    !requiresUpdate.has(dependent.name)
+                ) {
+                    continue
+                }
+
+                const strategy = {
+                    ...previousStrategy,
+                    type: nextType,
+                    commits: previousStrategy?.commits ?? [],
+                    upstream: [
+                        ...(previousStrategy?.upstream ?? []).filter(
+                            (change) => change.name !== upstreamName,
+                        ),
+                        { name: upstreamName, type: upstreamType },
+                    ],
+                }
+                strategies.set(dependent.name, strategy)
+                requiresUpdate.set(dependent.name, strategy)
+                if (isUpgrade) queue.push(dependent.name)
+            }
+        }
+
+        // Fixed groups release all members, whereas linked groups only
+        // release the members which have changed.
+        const groups = [
+            ...versionGroups.fixed.map((members) => ({ members, fixed: true })),
+            ...versionGroups.linked.map((members) => ({
+                members,
+                fixed: false,
+            })),
+        ]
+        for (const { members, fixed } of groups) {
+            const changedMembers = [...members].filter((member) =>
+                strategies.has(member),
+            )
+            if (!changedMembers.length) continue
+
+            let groupStrategy = strategies.get(changedMembers[0])!.type
+            for (const member of changedMembers) {
+                groupStrategy = await maxStrategy(
+                    groupStrategy,
+                    strategies.get(member)?.type,
+                )
+            }
+
+            for (const member of fixed ? members : changedMembers) {
+                const previousStrategy = strategies.get(member)
+                if (previousStrategy?.type === groupStrategy) continue
+
+                const strategy = {
+                    ...previousStrategy,
+                    type: groupStrategy,
+                    commits: previousStrategy?.commits ?? [],
+                }
+                strategies.set(member, strategy)
+                requiresUpdate.set(member, strategy)
+                queue.push(member)
+            }
+        }
     }
 
     return requiresUpdate
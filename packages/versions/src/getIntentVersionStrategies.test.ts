@@ -0,0 +1,181 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import {
+    getMonodeployConfig,
+    withMonorepoContext,
+} from '@monodeploy/test-utils'
+
+import getIntentVersionStrategies, {
+    parseIntentFile,
+    readIntentFiles,
+} from './getIntentVersionStrategies'
+
+const writeIntentFile = async (
+    cwd: string,
+    filename: string,
+    contents: string,
+): Promise<void> => {
+    const directory = path.join(cwd, '.changeset')
+    await fs.mkdir(directory, { recursive: true })
+    await fs.writeFile(path.join(directory, filename), contents)
+}
+
+describe('parseIntentFile', () => {
+    it('parses the packages and summary', () => {
+        expect(
+            parseIntentFile(
+                'intent.md',
+                [
+                    '---',
+                    '"pkg-1": minor',
+                    "'@scope/pkg-2': major",
+                    'pkg-3: patch',
+                    '---',
+                    '',
+                    'A summary',
+                    'spanning multiple lines.',
+                    '',
+                ].join('\n'),
+            ),
+        ).toEqual({
+            filename: 'intent.md',
+            packages: new Map([
+                ['pkg-1', 'minor'],
+                ['@scope/pkg-2', 'major'],
+                ['pkg-3', 'patch'],
+            ]),
+            summary: 'A summary\nspanning multiple lines.',
+        })
+    })
+
+    it('parses frontmatter delimiters with trailing whitespace', () => {
+        expect(
+            parseIntentFile(
+                'intent.md',
+                '---\r\n"pkg-1": minor\r\n--- \r\n\r\nA summary\r\n',
+            ),
+        ).toEqual({
+            filename: 'intent.md',
+            packages: new Map([['pkg-1', 'minor']]),
+            summary: 'A summary',
+        })
+    })
+
+    it('throws if the frontmatter is missing', () => {
+        expect(() => parseIntentFile('intent.md', 'A summary')).toThrow(
+            'missing frontmatter block',
+        )
+    })
+
+    it('throws on an invalid strategy', () => {
+        expect(() =>
+            parseIntentFile('intent.md', '---\npkg-1: huge\n---\nSummary'),
+        ).toThrow('unable to parse')
+    })
+})
+
+describe('getIntentVersionStrategies', () => {
+    it('returns no intent files if the directory does not exist', async () =>
+        withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+            const config = await getMonodeployConfig({
+                cwd: context.project.cwd,
+                baseBranch: 'main',
+                commitSha: 'HEAD',
+            })
+            expect(
+                await readIntentFiles({
+                    config: { ...config, intentFilesDirectory: '.changeset' },
+                }),
+            ).toEqual([])
+        }))
+
+    it('combines the intents of all intent files', async () =>
+        withMonorepoContext(
+            { 'pkg-1': {}, 'pkg-2': {}, 'pkg-3': { private: true } },
+            async (context) => {
+                const cwd = context.project.cwd
+                await writeIntentFile(
+                    cwd,
+                    'first.md',
+                    '---\npkg-1: patch\npkg-2: patch\n---\n\nFix a bug.',
+                )
+                await writeIntentFile(
+                    cwd,
+                    'second.md',
+                    '---\npkg-1: minor\npkg-3: major\n---\n\nAdd a feature.',
+                )
+                await writeIntentFile(cwd, 'README.md', 'Ignored.')
+
+                const config = await getMonodeployConfig({
+                    cwd,
+                    baseBranch: 'main',
+                    commitSha: 'HEAD',
+                })
+                const strategies = await getIntentVersionStrategies({
+                    config: { ...config, intentFilesDirectory: '.changeset' },
+                    context,
+                })
+
+                expect(strategies).toEqual(
+                    new Map([
+                        [
+                            'pkg-1',
+                            {
+                                type: 'minor',
+                                commits: [],
+                                intents: [
+                                    {
+                                        filename: '.changeset/first.md',
+                                        type: 'patch',
+                                        summary: 'Fix a bug.',
+                                    },
+                                    {
+                                        filename: '.changeset/second.md',
+                                        type: 'minor',
+                                        summary: 'Add a feature.',
+                                    },
+                                ],
+                            },
+                        ],
+                        [
+                            'pkg-2',
+                            {
+                                type: 'patch',
+                                commits: [],
+                                intents: [
+                                    {
+                                        filename: '.changeset/first.md',
+                                        type: 'patch',
+                                        summary: 'Fix a bug.',
+                                    },
+                                ],
+                            },
+                        ],
+                    ]),
+                )
+            },
+        ))
+
+    it('throws if an intent file references an unknown package', async () =>
+        withMonorepoContext({ 'pkg-1': {} }, async (context) => {
+            const cwd = context.project.cwd
+            await writeIntentFile(
+                cwd,
+                'intent.md',
+                '---\npkg-9: patch\n---\n\nFix a bug.',
+            )
+
+            const config = await getMonodeployConfig({
+                cwd,
+                baseBranch: 'main',
+                commitSha: 'HEAD',
+            })
+            await expect(
+                getIntentVersionStrategies({
+                    config: { ...config, intentFilesDirectory: '.changeset' },
+                    context,
+                }),
+            ).rejects.toThrow('unknown package pkg-9')
+        }))
+})
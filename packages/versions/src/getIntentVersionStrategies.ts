@@ -0,0 +1,160 @@
+import { promises as fs } from 'fs'
+import path from 'path'
+
+import logging from '@monodeploy/logging'
+import type {
+    MonodeployConfiguration,
+    PackageStrategyMap,
+    PackageStrategyType,
+    YarnContext,
+} from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+
+import { maxStrategy } from './versionStrategy'
+
+const FRONTMATTER_DELIMITER = '---'
+const INTENT_PATTERN = /^(["']?)(.+?)\1\s*:\s*(major|minor|patch)$/
+
+export type IntentFile = {
+    filename: string
+    packages: Map<string, PackageStrategyType>
+    summary: string
+}
+
+/**
+ * Parses an intent file of the form:
+ *
+ *   ---
+ *   "pkg-1": minor
+ *   "@scope/pkg-2": patch
+ *   ---
+ *
+ *   A summary of the change.
+ */
+export const parseIntentFile = (
+    filename: string,
+    contents: string,
+): IntentFile => {
+    const lines = contents.trim().split(/\r?\n/)
+    const closingIndex = lines.findIndex(
+        (line, index) => index > 0 && line.trim() === FRONTMATTER_DELIMITER,
+    )
+
+    if (lines[0]?.trim() !== FRONTMATTER_DELIMITER || closingIndex === -1) {
+        throw new Error(
+            `Invalid intent file ${filename}: missing frontmatter block.`,
+        )
+    }
+
+    const packages = new Map<string, PackageStrategyType>()
+    for (const line of lines.slice(1, closingIndex)) {
+        if (!line.trim()) continue
+
+        const match = line.trim().match(INTENT_PATTERN)
+        if (!match) {
+            throw new Error(
+                `Invalid intent file ${filename}: unable to parse "${line}".`,
+            )
+        }
+        packages.set(match[2], match[3] as PackageStrategyType)
+    }
+
+    return {
+        filename,
+        packages,
+        summary: lines
+            .slice(closingIndex + 1)
+            .join('\n')
+            .trim(),
+    }
+}
+
+export const readIntentFiles = async ({
+    config,
+}: {
+    config: MonodeployConfiguration
+}): Promise<IntentFile[]> => {
+    if (!config.intentFilesDirectory) return []
+
+    const directory = path.resolve(config.cwd, config.intentFilesDirectory)
+
+    let entries: string[]
+    try {
+        entries = await fs.readdir(directory)
+    } catch (err) {
+        if (err?.code === 'ENOENT') return []
+        throw err
+    }
+
+    const intentFiles: IntentFile[] = []
+    for (const entry of entries.sort()) {
+        if (!entry.endsWith('.md') || entry.toLowerCase() === 'readme.md') {
+            continue
+        }
+
+        const contents = await fs.readFile(path.join(directory, entry), {
+            encoding: 'utf8',
+        })
+        intentFiles.push(
+            parseIntentFile(
+                path.relative(config.cwd, path.join(directory, entry)),
+                contents,
+            ),
+        )
+    }
+
+    return intentFiles
+}
+
+const getIntentVersionStrategies = async ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): Promise<PackageStrategyMap> => {
+    const versionStrategies: PackageStrategyMap = new Map()
+
+    const intentFiles = await readIntentFiles({ config })
+    for (const intentFile of intentFiles) {
+        for (const [pkgName, strategy] of intentFile.packages.entries()) {
+            const workspace = context.project.tryWorkspaceByIdent(
+                structUtils.parseIdent(pkgName),
+            )
+            if (!workspace) {
+                throw new Error(
+                    `Intent file ${intentFile.filename} references unknown package ${pkgName}.`,
+                )
+            }
+            if (workspace.manifest.private) {
+                logging.warning(
+                    `[Intents] Ignoring private package ${pkgName} in ${intentFile.filename}`,
+                    { report: context.report },
+                )
+                continue
+            }
+
+            const previousVersionStrategy = versionStrategies.get(pkgName)
+
+            versionStrategies.set(pkgName, {
+                type: await maxStrategy(
+                    previousVersionStrategy?.type,
+                    strategy,
+                ),
+                commits: [],
+                intents: [
+                    ...(previousVersionStrategy?.intents ?? []),
+                    {
+                        filename: intentFile.filename,
+                        type: strategy,
+                        summary: intentFile.summary,
+                    },
+                ],
+            })
+        }
+    }
+
+    return versionStrategies
+}
+
+export default getIntentVersionStrategies
@@ -0,0 +1,43 @@
+import { gitLastTaggedCommit } from '@monodeploy/git'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+
+/**
+ * Resolves the commit to compare against for each public workspace, keyed by
+ * package name. With `git.baseBranchPerPackage`, this is the commit of the
+ * package's most recent release tag, so that the commits since its own last
+ * release are taken into account. Packages without a release tag (or all
+ * packages, if disabled) use the global base branch.
+ */
+const getPackageBaseCommits = async ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): Promise<Map<string, string>> => {
+    const baseCommits = new Map<string, string>()
+
+    for (const workspace of context.project.workspaces) {
+        if (!workspace.manifest.name || workspace.manifest.private) continue
+
+        const pkgName = structUtils.stringifyIdent(workspace.manifest.name)
+        baseCommits.set(
+            pkgName,
+            config.git.baseBranchPerPackage
+                ? await gitLastTaggedCommit({
+                      cwd: config.cwd,
+                      context,
+                      prerelease: config.prerelease,
+                      tagTemplate: config.tagTemplate,
+                      packageName: pkgName,
+                      fallback: config.git.baseBranch,
+                  })
+                : config.git.baseBranch,
+        )
+    }
+
+    return baseCommits
+}
+
+export default getPackageBaseCommits
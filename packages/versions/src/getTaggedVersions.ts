@@ -0,0 +1,69 @@
+import { formatTag, gitListTags, parseTag } from '@monodeploy/git'
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+import * as semver from 'semver'
+
+export type TaggedVersion = {
+    version: string
+    tag: string
+    date: string
+}
+
+/**
+ * Reads the released versions of each public workspace from the
+ * git tags rendered with the tag template, ordered from oldest to newest
+ * version.
+ */
+const getTaggedVersions = async ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): Promise<Map<string, TaggedVersion[]>> => {
+    const taggedVersions = new Map<string, TaggedVersion[]>()
+
+    const workspaceNames: string[] = []
+    for (const workspace of context.project.workspaces) {
+        if (!workspace.manifest.name || workspace.manifest.private) continue
+        workspaceNames.push(structUtils.stringifyIdent(workspace.manifest.name))
+    }
+
+    for (const { tag, date } of await gitListTags({
+        cwd: config.cwd,
+        context,
+    })) {
+        const parts = parseTag(config.tagTemplate, tag)
+        if (!parts) continue
+
+        const version = semver.valid(parts.version)
+        if (!version) continue
+
+        // The template may not identify the package (e.g. `v{version}` in a
+        // single package repository), so the tag is attributed to each
+        // workspace it round-trips for
+        for (const pkgName of workspaceNames) {
+            if (
+                formatTag(config.tagTemplate, {
+                    name: pkgName,
+                    version: parts.version,
+                }) !== tag
+            ) {
+                continue
+            }
+
+            taggedVersions.set(pkgName, [
+                ...(taggedVersions.get(pkgName) ?? []),
+                { version, tag, date },
+            ])
+        }
+    }
+
+    for (const versions of taggedVersions.values()) {
+        versions.sort((a, b) => semver.compare(a.version, b.version))
+    }
+
+    return taggedVersions
+}
+
+export default getTaggedVersions
@@ -1,11 +1,28 @@
-import applyReleases from './applyReleases'
-import getExplicitVersionStrategies from './getExplicitVersionStrategies'
+import applyReleases, { getReleaseVersions } from './applyReleases'
+import {
+    DEFAULT_PARSER_OPTS,
+    getCommitStrategy,
+    isBreakingChange,
+    parseConventionalCommits,
+} from './conventionalCommits'
+import getExplicitVersionStrategies, {
+    getModifiedPackages,
+} from './getExplicitVersionStrategies'
 import getImplicitVersionStrategies from './getImplicitVersionStrategies'
 import getLatestPackageTags from './getLatestPackageTags'
+import getTaggedVersions, { TaggedVersion } from './getTaggedVersions'
 
+export type { TaggedVersion }
 export {
     applyReleases,
+    getReleaseVersions,
     getLatestPackageTags,
     getImplicitVersionStrategies,
     getExplicitVersionStrategies,
+    getModifiedPackages,
+    getTaggedVersions,
+    DEFAULT_PARSER_OPTS,
+    getCommitStrategy,
+    isBreakingChange,
+    parseConventionalCommits,
 }
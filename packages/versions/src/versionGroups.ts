@@ -0,0 +1,36 @@
+import type { MonodeployConfiguration, YarnContext } from '@monodeploy/types'
+import { structUtils } from '@yarnpkg/core'
+import micromatch from 'micromatch'
+
+export type VersionGroups = {
+    fixed: Array<Set<string>>
+    linked: Array<Set<string>>
+}
+
+/**
+ * Resolves the package names and globs of the configured fixed and linked
+ * version groups to the names of the public workspaces in the project.
+ */
+export const getVersionGroups = ({
+    config,
+    context,
+}: {
+    config: MonodeployConfiguration
+    context: YarnContext
+}): VersionGroups => {
+    const packageNames: string[] = []
+    for (const workspace of context.project.workspaces) {
+        if (workspace.manifest.private || !workspace.manifest.name) continue
+        packageNames.push(structUtils.stringifyIdent(workspace.manifest.name))
+    }
+
+    const resolveGroups = (groups: Array<Array<string>> = []) =>
+        groups
+            .map((patterns) => new Set(micromatch(packageNames, patterns)))
+            .filter((group) => group.size)
+
+    return {
+        fixed: resolveGroups(config.fixed),
+        linked: resolveGroups(config.linked),
+    }
+}
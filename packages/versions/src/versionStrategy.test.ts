@@ -20,6 +20,7 @@ describe('Default Recommended Strategy', () => {
             'fix: another patch\n\nBREAKING CHANGE: oh no!',
         ],
         ['Type Prefix', 'BREAKING CHANGE: something changes'],
+        ['Header Marker', 'feat!: upgrade node', 'fix(core)!: a patch'],
     ])('identifies breaking commits: %s', async (title, ...commits) => {
         expect(await getDefaultRecommendedStrategy(commits)).toEqual(
             STRATEGY.MAJOR,
@@ -54,6 +55,14 @@ describe('Default Recommended Strategy', () => {
         expect(strategy).toEqual(STRATEGY.PATCH)
     })
 
+    it('chooses patch for reverts', async () => {
+        const strategy = await getDefaultRecommendedStrategy([
+            'chore: commit 1',
+            'Revert "feat: this is a feature"\n\nThis reverts commit 0123456789abcdef.',
+        ])
+        expect(strategy).toEqual(STRATEGY.PATCH)
+    })
+
     it('chooses none among none', async () => {
         const strategy = await getDefaultRecommendedStrategy([
             'chore: commit 1',
@@ -8,6 +8,11 @@ import type {
 } from '@monodeploy/types'
 import conventionalCommitsParser, { Commit } from 'conventional-commits-parser'
 
+import {
+    getCommitStrategy,
+    parseConventionalCommits,
+} from './conventionalCommits'
+
 export const STRATEGY = {
     MAJOR: 0,
     MINOR: 1,
@@ -15,52 +20,21 @@ export const STRATEGY = {
     NONE: 3,
 }
 
+const STRATEGY_LEVELS: Record<PackageStrategyType, number> = {
+    major: STRATEGY.MAJOR,
+    minor: STRATEGY.MINOR,
+    patch: STRATEGY.PATCH,
+}
+
 export const getDefaultRecommendedStrategy: StrategyDeterminer = async (
     commits: string[],
 ): Promise<number> => {
-    const commitsStream = Readable.from(commits).pipe(
-        conventionalCommitsParser(),
-    )
-    const conventionalCommits = await readStream<Commit>(commitsStream)
-    const titlePattern = new RegExp('^(\\w+)(\\([^)]+\\))?$', 'g')
-    const PATCH_TYPES = ['fix', 'perf']
-    const FEATURE_TYPES = ['feat']
-    const BREAKING_CHANGE = 'breaking change'
+    const conventionalCommits = await parseConventionalCommits({
+        messages: commits,
+    })
     return conventionalCommits.reduce((level, commit) => {
-        for (const note of commit.notes) {
-            if (note.title.toLowerCase().includes(BREAKING_CHANGE)) {
-                return STRATEGY.MAJOR
-            }
-
-            const matches = [...note.title.matchAll(titlePattern)]?.[0]
-            const type = matches?.[1]
-
-            if (FEATURE_TYPES.includes(type)) {
-                return Math.min(level, STRATEGY.MINOR)
-            }
-            if (PATCH_TYPES.includes(type)) {
-                return Math.min(level, STRATEGY.PATCH)
-            }
-        }
-
-        if (commit.header?.toLowerCase().includes(BREAKING_CHANGE)) {
-            return STRATEGY.MAJOR
-        }
-
-        const commitType = commit.type
-        if (commitType) {
-            if (FEATURE_TYPES.includes(commitType)) {
-                return Math.min(level, STRATEGY.MINOR)
-            }
-            if (PATCH_TYPES.includes(commitType)) {
-                return Math.min(level, STRATEGY.PATCH)
-            }
-        }
-
-        if (commit.revert) {
-            return Math.min(level, STRATEGY.PATCH)
-        }
-        return level
+        const strategy = getCommitStrategy(commit)
+        return strategy ? Math.min(level, STRATEGY_LEVELS[strategy]) : level
     }, STRATEGY.NONE)
 }
 
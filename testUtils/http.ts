@@ -0,0 +1,58 @@
+import http from 'http'
+import { AddressInfo } from 'net'
+
+export type RecordedRequest = {
+    method?: string
+    url?: string
+    headers: http.IncomingHttpHeaders
+    body: unknown
+}
+
+export type MockResponse = { statusCode: number; body?: unknown }
+
+/**
+ * Starts a local HTTP server which records the requests it receives, for
+ * standing in for a remote API in tests.
+ */
+export async function createMockHttpServer(
+    respond: (request: RecordedRequest) => MockResponse = () => ({
+        statusCode: 200,
+    }),
+): Promise<{
+    url: string
+    requests: RecordedRequest[]
+    close: () => Promise<void>
+}> {
+    const requests: RecordedRequest[] = []
+    const server = http.createServer((req, res) => {
+        const chunks: Buffer[] = []
+        req.on('data', (chunk) => chunks.push(chunk))
+        req.on('end', () => {
+            const data = Buffer.concat(chunks)
+            const isJson = /json/.test(req.headers['content-type'] ?? '')
+            const request: RecordedRequest = {
+                method: req.method,
+                url: req.url,
+                headers: req.headers,
+                body: undefined,
+            }
+            if (data.length) {
+                request.body = isJson ? JSON.parse(data.toString('utf8')) : data
+            }
+            requests.push(request)
+
+            const { statusCode, body } = respond(request)
+            res.writeHead(statusCode, { 'Content-Type': 'application/json' })
+            res.end(JSON.stringify(body ?? {}))
+        })
+    })
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve))
+    const { port } = server.address() as AddressInfo
+
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        close: () =>
+            new Promise<void>((resolve) => server.close(() => resolve())),
+    }
+}